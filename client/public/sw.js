@@ -0,0 +1,32 @@
+// Service worker that shows Web Push notifications while the app isn't open.
+// Payloads are { title, body, url, tag } as built by server/push.ts.
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+
+  const { title, body, url, tag } = event.data.json();
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body,
+      tag,
+      renotify: true,
+      data: { url },
+    })
+  );
+});
+
+// Open the notification's page, reusing an open tab of the app if there is one
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/messages", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const appWindow = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (appWindow) {
+        return appWindow.focus().then((client) => client.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
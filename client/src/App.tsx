@@ -14,15 +14,21 @@ import ListingDetail from "@/pages/listing-detail";
 import MessagesPage from "@/pages/messages-page";
 import FavoritesPage from "@/pages/favorites-page";
 import ProfilePage from "@/pages/profile-page";
+import VerifyEmailPage from "@/pages/verify-email-page";
+import NotificationsPage from "@/pages/notifications-page";
+import SettingsPage from "@/pages/settings-page";
 
 function Router() {
   return (
     <Switch>
       <Route path="/auth" component={AuthPage} />
+      <Route path="/verify-email" component={VerifyEmailPage} />
       <ProtectedRoute path="/" component={HomePage} />
       <ProtectedRoute path="/listings/:id" component={ListingDetail} />
       <ProtectedRoute path="/messages" component={MessagesPage} />
       <ProtectedRoute path="/favorites" component={FavoritesPage} />
+      <ProtectedRoute path="/notifications" component={NotificationsPage} />
+      <ProtectedRoute path="/settings" component={SettingsPage} />
       <ProtectedRoute path="/profile" component={ProfilePage} />
       <Route component={NotFound} />
     </Switch>
@@ -28,6 +28,7 @@ import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { useUniversities } from "@/hooks/use-universities";
 import { Loader2 } from "lucide-react";
 
 interface AuthModalProps {
@@ -46,12 +47,7 @@ const registerSchema = z.object({
     .min(3, "Username must be at least 3 characters")
     .max(50, "Username must be less than 50 characters"),
   email: z.string()
-    .email("Please enter a valid email address")
-    .refine(email => {
-      return email.endsWith('.edu') || email.includes('university') || email.includes('college');
-    }, {
-      message: "Please use a university email address"
-    }),
+    .email("Please enter a valid email address"),
   password: z.string()
     .min(8, "Password must be at least 8 characters")
     .regex(/[A-Z]/, "Password must contain at least one uppercase letter")
@@ -70,6 +66,7 @@ export function AuthModal({ isOpen, onClose }: AuthModalProps) {
   const [activeTab, setActiveTab] = useState<"login" | "register">("login");
   const { toast } = useToast();
   const { loginMutation, registerMutation } = useAuth();
+  const { universities, findUniversity } = useUniversities();
 
   const loginForm = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
@@ -108,6 +105,13 @@ export function AuthModal({ isOpen, onClose }: AuthModalProps) {
   };
 
   const onRegisterSubmit = async (data: RegisterFormData) => {
+    if (universities && !findUniversity(data.email)) {
+      registerForm.setError("email", {
+        message: "We don't recognise this university email domain",
+      });
+      return;
+    }
+
     try {
       await registerMutation.mutateAsync({
         username: data.username,
@@ -238,7 +242,9 @@ export function AuthModal({ isOpen, onClose }: AuthModalProps) {
                         <Input type="email" placeholder="your.name@university.edu" {...field} />
                       </FormControl>
                       <p className="text-xs text-gray-500 mt-1">
-                        We'll verify your university email address
+                        {findUniversity(field.value)
+                          ? `Registering with ${findUniversity(field.value)?.name}`
+                          : "We'll verify your university email address"}
                       </p>
                       <FormMessage />
                     </FormItem>
@@ -0,0 +1,54 @@
+import { useMutation } from "@tanstack/react-query";
+import { MailWarning } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+
+// Reminds unverified users to confirm their email, with a resend button
+export function VerifyEmailBanner() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/resend-verification");
+    },
+    onSuccess: () => {
+      toast({
+        title: "Verification email sent",
+        description: `Check ${user?.email} for a link to verify your account`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't send email",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user || user.verified) {
+    return null;
+  }
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap items-center justify-between gap-2 text-sm text-amber-800">
+        <div className="flex items-center gap-2">
+          <MailWarning className="h-4 w-4" />
+          <span>Verify your university email to create listings and message sellers.</span>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => resendMutation.mutate()}
+          disabled={resendMutation.isPending}
+        >
+          Resend email
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -7,14 +7,12 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Button } from "@/components/ui/button";
 import { 
   listingConditions, 
-  getCategoriesByType
+  getCategoriesByType,
+  DistanceOption
 } from "@shared/schema";
 import { FilterContext } from "@/contexts/filter-context";
 import { X } from "lucide-react";
 
-// Get the DistanceOption type from context
-type DistanceOption = "less_than_1" | "1_to_3" | "3_to_5" | "any";
-
 interface FilterModalProps {
   isOpen: boolean;
   onClose: () => void;
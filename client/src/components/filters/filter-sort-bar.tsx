@@ -1,6 +1,9 @@
-import { useContext } from "react";
+import { useContext, useState } from "react";
 import { FilterContext } from "@/contexts/filter-context";
-import { Filter, Grid2X2, List } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { CampusScope } from "@shared/schema";
+import { Bookmark, Filter, Grid2X2, List } from "lucide-react";
+import { SaveSearchDialog } from "./save-search-dialog";
 
 interface FilterSortBarProps {
   onOpenFilterModal: () => void;
@@ -11,19 +14,34 @@ export default function FilterSortBar({ onOpenFilterModal }: FilterSortBarProps)
     viewMode, 
     setViewMode, 
     sortBy, 
-    setSortBy 
+    setSortBy,
+    campus,
+    setCampus
   } = useContext(FilterContext);
+  const { user } = useAuth();
+  const [isSaveSearchOpen, setIsSaveSearchOpen] = useState(false);
 
   return (
     <div className="bg-white border-b mb-4 shadow-sm">
       <div className="max-w-7xl mx-auto px-4 py-3 flex justify-between items-center">
-        <button 
-          className="flex items-center text-sm text-gray-600 font-medium" 
-          onClick={onOpenFilterModal}
-        >
-          <Filter className="h-5 w-5 mr-1" />
-          Filters
-        </button>
+        <div className="flex items-center space-x-4">
+          <button 
+            className="flex items-center text-sm text-gray-600 font-medium" 
+            onClick={onOpenFilterModal}
+          >
+            <Filter className="h-5 w-5 mr-1" />
+            Filters
+          </button>
+          {user && (
+            <button
+              className="flex items-center text-sm text-gray-600 font-medium"
+              onClick={() => setIsSaveSearchOpen(true)}
+            >
+              <Bookmark className="h-5 w-5 mr-1" />
+              Save search
+            </button>
+          )}
+        </div>
         
         <div className="flex items-center space-x-3">
           <span className="text-sm text-gray-600">View:</span>
@@ -41,6 +59,23 @@ export default function FilterSortBar({ onOpenFilterModal }: FilterSortBarProps)
           </button>
         </div>
         
+        <div className="relative">
+          <select
+            className="flex items-center text-sm text-gray-600 font-medium bg-transparent appearance-none pr-6 focus:outline-none"
+            value={campus}
+            onChange={(e) => setCampus(e.target.value as CampusScope)}
+          >
+            <option value="mine">My campus</option>
+            <option value="nearby">Nearby schools</option>
+            <option value="all">All schools</option>
+          </select>
+          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+            </svg>
+          </div>
+        </div>
+        
         <div className="relative">
           <select
             className="flex items-center text-sm text-gray-600 font-medium bg-transparent appearance-none pr-6 focus:outline-none"
@@ -50,6 +85,7 @@ export default function FilterSortBar({ onOpenFilterModal }: FilterSortBarProps)
             <option value="newest">Sort: Newest</option>
             <option value="price_asc">Sort: Price (Low to High)</option>
             <option value="price_desc">Sort: Price (High to Low)</option>
+            <option value="relevance">Sort: Best Match</option>
           </select>
           <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -58,6 +94,7 @@ export default function FilterSortBar({ onOpenFilterModal }: FilterSortBarProps)
           </div>
         </div>
       </div>
+      <SaveSearchDialog isOpen={isSaveSearchOpen} onClose={() => setIsSaveSearchOpen(false)} />
     </div>
   );
 }
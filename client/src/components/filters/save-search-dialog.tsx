@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useListingQuery } from "@/hooks/use-listings";
+import { describeSavedSearch } from "@/hooks/use-saved-searches";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface SaveSearchDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Save the active filters and search text to be alerted about new matches
+export function SaveSearchDialog({ isOpen, onClose }: SaveSearchDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [emailAlerts, setEmailAlerts] = useState(false);
+
+  // Sorting and paging don't change which listings match
+  const { sort, cursor, limit, ...filters } = useListingQuery();
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/saved-searches", { name, filters, emailAlerts });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Search saved",
+        description: "We'll let you know when new listings match it",
+      });
+      setName("");
+      setEmailAlerts(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save search",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save this search</DialogTitle>
+          <DialogDescription>{describeSavedSearch(filters)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input
+              id="saved-search-name"
+              placeholder="e.g. Cheap desks"
+              maxLength={80}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="saved-search-email">Include new matches in my email digest</Label>
+            <Switch id="saved-search-email" checked={emailAlerts} onCheckedChange={setEmailAlerts} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button disabled={!name.trim() || saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Search
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
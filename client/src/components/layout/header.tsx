@@ -4,7 +4,9 @@ import { useAuth } from "@/hooks/use-auth";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useModal } from "@/hooks/use-modal";
 import { AuthModal } from "@/components/auth/auth-modal";
+import { VerifyEmailBanner } from "@/components/auth/verify-email-banner";
 import { CreateListingModal } from "@/components/listings/create-listing-modal";
+import { NotificationBell } from "@/components/notifications/notification-bell";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -14,7 +16,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { MessageCircle, Heart, Search, LogOut, User, Home } from "lucide-react";
+import { MessageCircle, Heart, Search, LogOut, User, Home, Settings } from "lucide-react";
 
 export default function Header() {
   const [location, setLocation] = useState("/");
@@ -94,6 +96,7 @@ export default function Header() {
                 <Link href="/favorites">
                   <Heart className="h-6 w-6 text-gray-600 hover:text-primary transition-colors mx-3 cursor-pointer" />
                 </Link>
+                <NotificationBell />
                 <div className="relative ml-3">
                   <DropdownMenu>
                     <DropdownMenuTrigger asChild>
@@ -111,6 +114,12 @@ export default function Header() {
                           <span>Profile</span>
                         </Link>
                       </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link href="/settings">
+                          <Settings className="mr-2 h-4 w-4" />
+                          <span>Settings</span>
+                        </Link>
+                      </DropdownMenuItem>
                       <DropdownMenuSeparator />
                       <DropdownMenuItem onClick={handleLogout}>
                         <LogOut className="mr-2 h-4 w-4" />
@@ -149,6 +158,8 @@ export default function Header() {
         </form>
       </div>
 
+      <VerifyEmailBanner />
+
       {/* Modals */}
       <AuthModal isOpen={isAuthOpen} onClose={closeAuthModal} />
       <CreateListingModal isOpen={isCreateOpen} onClose={closeCreateModal} />
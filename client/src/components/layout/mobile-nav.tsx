@@ -1,8 +1,11 @@
 import { Link, useLocation } from "wouter";
-import { Home, Search, MessageCircle, Heart, User } from "lucide-react";
+import { Home, Search, MessageCircle, Heart, User, Bell } from "lucide-react";
+import { UnreadBadge } from "@/components/notifications/notification-bell";
+import { useNotifications } from "@/hooks/use-notifications";
 
 export default function MobileNav() {
   const [location] = useLocation();
+  const { unreadCount } = useNotifications();
 
   const isActive = (path: string) => {
     return location === path;
@@ -29,6 +32,15 @@ export default function MobileNav() {
             <span className="text-xs mt-1">Messages</span>
           </div>
         </Link>
+        <Link href="/notifications">
+          <div className={`flex flex-col items-center ${isActive("/notifications") ? "text-primary" : "text-gray-500"}`}>
+            <div className="relative">
+              <Bell className="h-6 w-6" />
+              <UnreadBadge count={unreadCount} />
+            </div>
+            <span className="text-xs mt-1">Alerts</span>
+          </div>
+        </Link>
         <Link href="/favorites">
           <div className={`flex flex-col items-center ${isActive("/favorites") ? "text-primary" : "text-gray-500"}`}>
             <Heart className="h-6 w-6" />
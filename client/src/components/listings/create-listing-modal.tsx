@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -19,6 +19,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import {
@@ -30,7 +31,9 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useUniversities } from "@/hooks/use-universities";
+import { apiRequest, apiUpload, queryClient } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
 import { 
   insertListingSchema, 
@@ -40,13 +43,20 @@ import {
   listingTypes,
   listingConditions,
   getCategoriesByType,
-  ListingType
+  Listing,
+  ListingType,
+  MAX_LISTING_IMAGES,
+  MAX_LISTING_MEETUP_SPOTS,
+  MAX_UPLOAD_SIZE,
+  uploadImageTypes
 } from "@shared/schema";
 import { 
   Loader2, 
   Upload, 
   XCircle, 
-  Calendar
+  Calendar,
+  ChevronLeft,
+  ChevronRight
 } from "lucide-react";
 import { format } from "date-fns";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
@@ -55,12 +65,10 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 interface CreateListingModalProps {
   isOpen: boolean;
   onClose: () => void;
+  // Edit this listing instead of creating a new one
+  listing?: Listing;
 }
 
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp", "image/gif"];
-const MAX_IMAGES = 5;
-
 const createListingSchema = z.object({
   title: z.string().min(3, "Title must be at least 3 characters"),
   type: z.enum(listingTypes),
@@ -72,21 +80,36 @@ const createListingSchema = z.object({
   condition: z.string().optional(),
   description: z.string().min(10, "Description must be at least 10 characters"),
   location: z.string().optional(),
+  meetupSpotIds: z.array(z.string()).max(
+    MAX_LISTING_MEETUP_SPOTS,
+    `Pick up to ${MAX_LISTING_MEETUP_SPOTS} meetup spots`
+  ),
   // These fields are used for services and experiences
-  // Date is optional to allow partial saving of form
+  // Date is optional so incomplete forms can be saved as drafts
   date: z.date().optional(),
   duration: z.string().optional(),
 });
 
 type CreateListingFormData = z.infer<typeof createListingSchema>;
 
-export function CreateListingModal({ isOpen, onClose }: CreateListingModalProps) {
+// How often the form is saved as a draft while open
+const AUTOSAVE_INTERVAL = 5000;
+
+export function CreateListingModal({ isOpen, onClose, listing }: CreateListingModalProps) {
+  // Drafts are finished and published from here; live listings are edited in place
+  const isEditingLive = listing !== undefined && listing.status !== "draft";
   const { toast } = useToast();
+  const { user } = useAuth();
+  const { universities } = useUniversities();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [uploadedImages, setUploadedImages] = useState<string[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [selectedListingType, setSelectedListingType] = useState<ListingType>("item");
   const [currentCategories, setCurrentCategories] = useState<readonly string[]>(itemCategories);
+  const [draftId, setDraftId] = useState<number | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
+  const isSavingDraft = useRef(false);
+  const lastSavedDraft = useRef("");
 
   const form = useForm<CreateListingFormData>({
     resolver: zodResolver(createListingSchema),
@@ -98,14 +121,57 @@ export function CreateListingModal({ isOpen, onClose }: CreateListingModalProps)
       condition: "",
       description: "",
       location: "On Campus",
+      meetupSpotIds: [],
     },
   });
+
+  // Sellers pick safe spots to meet buyers from their campus's list
+  const universityId = listing?.universityId ?? user?.universityId;
+  const meetupSpots = universities?.find((university) => university.id === universityId)?.meetupSpots ?? [];
   
+  // Prefill the form from the listing being edited each time the modal opens,
+  // or start a new listing from scratch
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setDraftSavedAt(null);
+    if (!listing) {
+      form.reset();
+      setSelectedListingType("item");
+      setUploadedImages([]);
+      setDraftId(null);
+      lastSavedDraft.current = "";
+      return;
+    }
+
+    const type = listing.type as ListingType;
+    form.reset({
+      title: listing.title,
+      type,
+      price: String(listing.price),
+      category: listing.category,
+      condition: listing.condition ?? "",
+      description: listing.description ?? "",
+      location: listing.location ?? "On Campus",
+      meetupSpotIds: listing.meetupSpotIds ?? [],
+      date: listing.date ? new Date(listing.date) : undefined,
+      duration: listing.duration ?? "",
+    });
+    setSelectedListingType(type);
+    setUploadedImages(listing.images ?? []);
+    setDraftId(listing.status === "draft" ? listing.id : null);
+    lastSavedDraft.current = "";
+    // Only on open: refetches of the listing must not discard unsaved edits
+  }, [isOpen, listing?.id, form]);
+
   // Update categories when listing type changes
   useEffect(() => {
-    setCurrentCategories(getCategoriesByType(selectedListingType));
-    // Reset the category field when type changes
-    form.setValue("category", "");
+    const categories = getCategoriesByType(selectedListingType);
+    setCurrentCategories(categories);
+    // Reset the category field when it doesn't belong to the new type
+    if (!(categories as readonly string[]).includes(form.getValues("category"))) {
+      form.setValue("category", "");
+    }
     
     // Reset condition field when not an item
     if (selectedListingType !== "item") {
@@ -118,21 +184,19 @@ export function CreateListingModal({ isOpen, onClose }: CreateListingModalProps)
     if (!files || files.length === 0) return;
 
     // Check if max image count would be exceeded
-    if (uploadedImages.length + files.length > MAX_IMAGES) {
+    if (uploadedImages.length + files.length > MAX_LISTING_IMAGES) {
       toast({
         title: "Too many images",
-        description: `You can only upload up to ${MAX_IMAGES} images.`,
+        description: `You can only upload up to ${MAX_LISTING_IMAGES} images.`,
         variant: "destructive",
       });
       return;
     }
 
-    setIsUploading(true);
-    const promises: Promise<string>[] = [];
-
+    const formData = new FormData();
     Array.from(files).forEach((file) => {
       // Check file size
-      if (file.size > MAX_FILE_SIZE) {
+      if (file.size > MAX_UPLOAD_SIZE) {
         toast({
           title: "File too large",
           description: `${file.name} is too large. Maximum size is 10MB.`,
@@ -141,8 +205,8 @@ export function CreateListingModal({ isOpen, onClose }: CreateListingModalProps)
         return;
       }
 
-      // Check file type
-      if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+      // Check file type; the server checks the contents as well
+      if (!(uploadImageTypes as readonly string[]).includes(file.type)) {
         toast({
           title: "Invalid file type",
           description: `${file.name} has an unsupported file type.`,
@@ -151,24 +215,19 @@ export function CreateListingModal({ isOpen, onClose }: CreateListingModalProps)
         return;
       }
 
-      // In a real app, we would upload the file to a server here.
-      // For this demo, we'll just convert to base64 and store locally.
-      const promise = new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onload = (event) => {
-          if (event.target && typeof event.target.result === "string") {
-            resolve(event.target.result);
-          }
-        };
-        reader.readAsDataURL(file);
-      });
-
-      promises.push(promise);
+      formData.append("images", file);
     });
 
-    Promise.all(promises)
-      .then((newImages) => {
-        setUploadedImages((prev) => [...prev, ...newImages]);
+    if (!formData.has("images")) {
+      e.target.value = "";
+      return;
+    }
+
+    setIsUploading(true);
+    apiUpload("/api/uploads", formData)
+      .then((res) => res.json() as Promise<{ url: string }[]>)
+      .then((uploads) => {
+        setUploadedImages((prev) => [...prev, ...uploads.map((upload) => upload.url)]);
       })
       .catch((error) => {
         console.error("Error uploading images:", error);
@@ -189,77 +248,167 @@ export function CreateListingModal({ isOpen, onClose }: CreateListingModalProps)
     setUploadedImages((prev) => prev.filter((_, i) => i !== index));
   };
 
-  const onSubmit = async (data: CreateListingFormData) => {
-    try {
-      setIsSubmitting(true);
+  // Swap an image with its neighbour; the first image is the listing's cover
+  const moveImage = (index: number, offset: -1 | 1) => {
+    setUploadedImages((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
 
-      // Format data for API based on type
-      const baseListingData = {
-        title: data.title,
-        price: parseInt(data.price),
-        category: data.category,
-        type: data.type,
-        description: data.description,
-        location: data.location || "On Campus",
-        images: uploadedImages,
+  // Shape form values for the API. Values that aren't filled in yet are left
+  // out so incomplete forms can still be saved as drafts.
+  const toListingData = (data: Partial<CreateListingFormData>) => {
+    const price = parseInt(data.price ?? "");
+    const baseListingData = {
+      title: data.title,
+      ...(isNaN(price) ? {} : { price }),
+      category: data.category,
+      type: data.type,
+      description: data.description,
+      location: data.location || "On Campus",
+      meetupSpotIds: data.meetupSpotIds ?? [],
+      images: uploadedImages,
+    };
+
+    // Add type-specific fields based on listing type
+    if (data.type === "item" && data.condition) {
+      // For furniture items
+      return {
+        ...baseListingData,
+        condition: data.condition
+      };
+    } else if ((data.type === "service" || data.type === "experience")) {
+      // For services/experiences
+      return {
+        ...baseListingData,
+        // Always include the date field, convert to ISO string if provided
+        date: data.date ? data.date.toISOString() : null,
+        duration: data.duration || ""
       };
+    }
+    return baseListingData;
+  };
+
+  // Save the form as a draft if it changed since the last save
+  const saveDraft = async () => {
+    if (isEditingLive || isSavingDraft.current) return;
+
+    const values = form.getValues();
+    const listingData = toListingData(values);
+    const snapshot = JSON.stringify(listingData);
+    if (snapshot === lastSavedDraft.current) return;
 
-      // Add type-specific fields based on listing type
-      let listingData;
-      if (data.type === "item" && data.condition) {
-        // For furniture items
-        listingData = {
-          ...baseListingData,
-          condition: data.condition
-        };
-      } else if ((data.type === "service" || data.type === "experience")) {
-        // For services/experiences
-        listingData = {
-          ...baseListingData,
-          // Always include the date field, convert to ISO string if provided
-          date: data.date ? data.date.toISOString() : null,
-          duration: data.duration || ""
-        };
+    // Nothing worth keeping has been entered yet
+    if (!draftId && !values.title && !values.description && uploadedImages.length === 0) return;
+
+    isSavingDraft.current = true;
+    try {
+      if (draftId) {
+        await apiRequest("PATCH", `/api/listings/${draftId}`, listingData);
       } else {
-        listingData = baseListingData;
+        const res = await apiRequest("POST", "/api/drafts", listingData);
+        const draft: Listing = await res.json();
+        setDraftId(draft.id);
       }
+      lastSavedDraft.current = snapshot;
+      setDraftSavedAt(new Date());
+      queryClient.invalidateQueries({ queryKey: ["/api/drafts"] });
+    } catch (error) {
+      console.error("Error saving draft:", error);
+    } finally {
+      isSavingDraft.current = false;
+    }
+  };
+
+  // Autosave new listings and drafts while the modal is open. The ref keeps
+  // the timer calling the latest saveDraft without restarting it each render.
+  const saveDraftRef = useRef(saveDraft);
+  saveDraftRef.current = saveDraft;
+  useEffect(() => {
+    if (!isOpen || isEditingLive) return;
 
-      // Submit to API
-      await apiRequest("POST", "/api/listings", listingData);
+    const timer = setInterval(() => saveDraftRef.current(), AUTOSAVE_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isOpen, isEditingLive]);
+
+  // Keep what has been entered when the modal is dismissed
+  const handleClose = () => {
+    saveDraft();
+    onClose();
+  };
+
+  const onSubmit = async (data: CreateListingFormData) => {
+    try {
+      setIsSubmitting(true);
+      // Stop autosave from racing the final save
+      isSavingDraft.current = true;
+
+      const listingData = toListingData(data);
+
+      // Submit to API; drafts get their final values saved, then are published
+      // with the full validation
+      if (isEditingLive) {
+        await apiRequest("PATCH", `/api/listings/${listing.id}`, listingData);
+      } else if (draftId) {
+        await apiRequest("PATCH", `/api/listings/${draftId}`, listingData);
+        await apiRequest("POST", `/api/listings/${draftId}/publish`);
+      } else {
+        await apiRequest("POST", "/api/listings", listingData);
+      }
 
       // Show success message
       toast({
-        title: "Listing created",
-        description: `Your ${data.type} listing has been created successfully.`,
+        title: isEditingLive ? "Listing updated" : "Listing created",
+        description: isEditingLive
+          ? "Your changes have been saved."
+          : `Your ${data.type} listing has been created successfully.`,
       });
 
       // Invalidate listings query to refresh the list
       queryClient.invalidateQueries({ queryKey: ["/api/listings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/drafts"] });
+      const listingId = listing?.id ?? draftId;
+      if (listingId) {
+        queryClient.invalidateQueries({ queryKey: [`/api/listings/${listingId}`] });
+      }
+      if (listing) {
+        queryClient.invalidateQueries({ queryKey: [`/api/users/${listing.userId}`] });
+      }
 
       // Reset form and close modal
       form.reset();
       setUploadedImages([]);
       setSelectedListingType("item");
+      setDraftId(null);
       onClose();
     } catch (error) {
-      console.error("Error creating listing:", error);
+      console.error(isEditingLive ? "Error updating listing:" : "Error creating listing:", error);
       toast({
-        title: "Error creating listing",
-        description: "Could not create listing. Please try again.",
+        title: isEditingLive ? "Error updating listing" : "Error creating listing",
+        description: `Could not ${isEditingLive ? "save your changes" : "create listing"}. Please try again.`,
         variant: "destructive",
       });
     } finally {
       setIsSubmitting(false);
+      isSavingDraft.current = false;
     }
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-lg">
         <DialogHeader>
-          <DialogTitle>Create New Listing</DialogTitle>
+          <DialogTitle>
+            {isEditingLive ? "Edit Listing" : draftId ? "Finish Your Draft" : "Create New Listing"}
+          </DialogTitle>
           <DialogDescription>
-            List items, services, or experiences for your university community.
+            {isEditingLive
+              ? "Update the details and photos of your listing."
+              : "List items, services, or experiences for your university community. Your progress is saved as a draft."}
           </DialogDescription>
         </DialogHeader>
 
@@ -327,7 +476,7 @@ export function CreateListingModal({ isOpen, onClose }: CreateListingModalProps)
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Category</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger>
                           <SelectValue placeholder="Select a category" />
@@ -353,7 +502,7 @@ export function CreateListingModal({ isOpen, onClose }: CreateListingModalProps)
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Condition</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <Select onValueChange={field.onChange} value={field.value}>
                         <FormControl>
                           <SelectTrigger>
                             <SelectValue placeholder="Select condition" />
@@ -416,6 +565,37 @@ export function CreateListingModal({ isOpen, onClose }: CreateListingModalProps)
               )}
             />
 
+            {meetupSpots.length > 0 && (
+              <FormField
+                control={form.control}
+                name="meetupSpotIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Safe meetup spots (optional)</FormLabel>
+                    <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                      {meetupSpots.map((spot) => (
+                        <label key={spot.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(spot.id)}
+                            disabled={!field.value.includes(spot.id) && field.value.length >= MAX_LISTING_MEETUP_SPOTS}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...field.value, spot.id]
+                                  : field.value.filter((id) => id !== spot.id)
+                              )
+                            }
+                          />
+                          <span>{spot.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             {/* Date field for services and experiences */}
             {selectedListingType !== "item" && (
               <div className="grid grid-cols-2 gap-4">
@@ -500,7 +680,7 @@ export function CreateListingModal({ isOpen, onClose }: CreateListingModalProps)
                         multiple
                         accept="image/*"
                         onChange={handleImageUpload}
-                        disabled={isUploading || uploadedImages.length >= MAX_IMAGES}
+                        disabled={isUploading || uploadedImages.length >= MAX_LISTING_IMAGES}
                       />
                     </label>
                     <p className="pl-1">or drag and drop</p>
@@ -520,7 +700,7 @@ export function CreateListingModal({ isOpen, onClose }: CreateListingModalProps)
               {uploadedImages.length > 0 && (
                 <div className="mt-4 grid grid-cols-5 gap-2">
                   {uploadedImages.map((image, index) => (
-                    <div key={index} className="relative">
+                    <div key={image} className="relative">
                       <img
                         src={image}
                         alt={`Uploaded preview ${index}`}
@@ -533,14 +713,46 @@ export function CreateListingModal({ isOpen, onClose }: CreateListingModalProps)
                       >
                         <XCircle className="h-5 w-5 text-red-500" />
                       </button>
+                      {uploadedImages.length > 1 && (
+                        <div className="absolute bottom-1 inset-x-1 flex justify-between">
+                          <button
+                            type="button"
+                            onClick={() => moveImage(index, -1)}
+                            disabled={index === 0}
+                            className="bg-white/80 rounded-full disabled:invisible"
+                            aria-label="Move image earlier"
+                          >
+                            <ChevronLeft className="h-4 w-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => moveImage(index, 1)}
+                            disabled={index === uploadedImages.length - 1}
+                            className="bg-white/80 rounded-full disabled:invisible"
+                            aria-label="Move image later"
+                          >
+                            <ChevronRight className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
+                      {index === 0 && (
+                        <span className="absolute top-1 left-1 rounded bg-black/60 px-1 text-[10px] text-white">
+                          Cover
+                        </span>
+                      )}
                     </div>
                   ))}
                 </div>
               )}
             </div>
 
-            <DialogFooter>
-              <Button type="button" variant="outline" onClick={onClose}>
+            <DialogFooter className="sm:items-center">
+              {draftSavedAt && (
+                <span className="text-xs text-gray-500 sm:mr-auto">
+                  Draft saved at {format(draftSavedAt, "p")}
+                </span>
+              )}
+              <Button type="button" variant="outline" onClick={handleClose}>
                 Cancel
               </Button>
               <Button 
@@ -551,10 +763,10 @@ export function CreateListingModal({ isOpen, onClose }: CreateListingModalProps)
                 {isSubmitting ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Creating...
+                    {isEditingLive ? "Saving..." : "Creating..."}
                   </>
                 ) : (
-                  "Create Listing"
+                  isEditingLive ? "Save Changes" : "Create Listing"
                 )}
               </Button>
             </DialogFooter>
@@ -1,13 +1,14 @@
 import { Link } from "wouter";
 import { useState } from "react";
 import { Heart, MapPin } from "lucide-react";
-import { Listing } from "@shared/schema";
+import { Listing, ListingImage } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { ListingPhoto } from "./listing-photo";
 
 interface ListingCardProps {
-  listing: Listing;
+  listing: Listing & { imageDetails?: ListingImage[] };
   onFavoriteToggle?: () => void;
   isFavorite?: boolean;
 }
@@ -106,9 +107,11 @@ export default function ListingCard({
     <Link href={`/listings/${listing.id}`}>
       <div className="bg-white rounded-lg shadow overflow-hidden cursor-pointer h-full flex flex-col">
         <div className="relative pb-[75%]">
-          <img
+          <ListingPhoto
+            image={listing.imageDetails?.[0]}
             src={mainImage}
             alt={listing.title}
+            sizes="(min-width: 1024px) 320px, (min-width: 640px) 33vw, 50vw"
             className="absolute h-full w-full object-cover"
           />
           <button
@@ -0,0 +1,67 @@
+import { useMemo, useState } from "react";
+import { decode } from "blurhash";
+import { ListingImage } from "@shared/schema";
+
+// The blurhash is decoded this small and stretched over the image
+const PLACEHOLDER_SIZE = 32;
+
+// Render a blurhash to a data URL for use as a background image
+function blurhashToDataUrl(blurhash: string): string | undefined {
+  try {
+    const pixels = decode(blurhash, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+    const canvas = document.createElement("canvas");
+    canvas.width = PLACEHOLDER_SIZE;
+    canvas.height = PLACEHOLDER_SIZE;
+    const context = canvas.getContext("2d");
+    if (!context) return undefined;
+    const imageData = context.createImageData(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+    imageData.data.set(pixels);
+    context.putImageData(imageData, 0, 0);
+    return canvas.toDataURL();
+  } catch {
+    return undefined;
+  }
+}
+
+interface ListingPhotoProps {
+  // Upload details from the listing response; plain URLs load without them
+  image?: ListingImage;
+  src: string;
+  alt: string;
+  // Rendered width of the image at each breakpoint, for picking a variant
+  sizes: string;
+  className?: string;
+}
+
+// Listing image that lets the browser pick a resized variant and shows the
+// blurhash placeholder until it has loaded
+export function ListingPhoto({ image, src, alt, sizes, className }: ListingPhotoProps) {
+  const [loaded, setLoaded] = useState(false);
+  const placeholder = useMemo(
+    () => (image?.blurhash ? blurhashToDataUrl(image.blurhash) : undefined),
+    [image?.blurhash]
+  );
+
+  const sources = image?.variants.map((variant) => `${variant.url} ${variant.width}w`) ?? [];
+  if (image?.width) {
+    sources.push(`${image.url} ${image.width}w`);
+  }
+
+  return (
+    <img
+      src={src}
+      srcSet={sources.length > 0 ? sources.join(", ") : undefined}
+      sizes={sources.length > 0 ? sizes : undefined}
+      alt={alt}
+      loading="lazy"
+      decoding="async"
+      onLoad={() => setLoaded(true)}
+      className={className}
+      style={
+        placeholder && !loaded
+          ? { backgroundImage: `url(${placeholder})`, backgroundSize: "cover" }
+          : undefined
+      }
+    />
+  );
+}
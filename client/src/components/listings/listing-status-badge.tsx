@@ -0,0 +1,38 @@
+import { ListingStatus } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+export const listingStatusLabels: Record<ListingStatus, string> = {
+  draft: "Draft",
+  active: "Active",
+  pending: "Sale Pending",
+  reserved: "Reserved",
+  sold: "Sold",
+  withdrawn: "Withdrawn",
+  expired: "Expired",
+};
+
+const statusClasses: Record<ListingStatus, string> = {
+  draft: "bg-slate-400",
+  active: "bg-green-500",
+  pending: "bg-amber-500",
+  reserved: "bg-amber-500",
+  sold: "bg-blue-600",
+  withdrawn: "bg-gray-500",
+  expired: "bg-gray-500",
+};
+
+interface ListingStatusBadgeProps {
+  status: string | null;
+  className?: string;
+}
+
+export function ListingStatusBadge({ status, className }: ListingStatusBadgeProps) {
+  const current = (status ?? "active") as ListingStatus;
+
+  return (
+    <Badge className={cn(statusClasses[current] ?? "bg-gray-500", "text-white", className)}>
+      {listingStatusLabels[current] ?? status}
+    </Badge>
+  );
+}
@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Listing, canTransitionListingStatus, LISTING_BUMP_COOLDOWN_MS } from "@shared/schema";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ListingStatusControlsProps {
+  listing: Listing;
+}
+
+interface Buyer {
+  id: number;
+  username: string;
+}
+
+type OwnerStatus = "active" | "reserved" | "withdrawn";
+
+// Offer renewal this long before an active listing expires
+const RENEW_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Seller actions for moving their own listing through its lifecycle
+export function ListingStatusControls({ listing }: ListingStatusControlsProps) {
+  const { toast } = useToast();
+  const [isSoldDialogOpen, setIsSoldDialogOpen] = useState(false);
+  const [buyerId, setBuyerId] = useState("");
+  const [price, setPrice] = useState("");
+
+  // People who have messaged about this listing
+  const { data: buyers, isLoading: isLoadingBuyers } = useQuery<Buyer[]>({
+    queryKey: [`/api/listings/${listing.id}/buyers`],
+    enabled: isSoldDialogOpen,
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/listings/${listing.id}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/listings"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Failed to update listing",
+      description: error.message || "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: OwnerStatus) => {
+      const res = await apiRequest("POST", `/api/listings/${listing.id}/status`, { status });
+      return res.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const renewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/listings/${listing.id}/renew`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Listing renewed",
+        description: "Your listing is live again",
+      });
+      onSuccess();
+    },
+    onError,
+  });
+
+  const bumpMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/listings/${listing.id}/bump`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Listing bumped",
+        description: "Your listing is back at the top of the newest listings",
+      });
+      onSuccess();
+    },
+    onError,
+  });
+
+  const soldMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/listings/${listing.id}/sold`, {
+        buyerId: parseInt(buyerId),
+        price: price ? parseInt(price) : undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Marked as sold",
+        description: "The sale has been added to your history",
+      });
+      setIsSoldDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      onSuccess();
+    },
+    onError,
+  });
+
+  if (listing.status === "sold") {
+    return (
+      <Button variant="outline" className="w-full" disabled>
+        This listing has been sold
+      </Button>
+    );
+  }
+
+  const isBusy = statusMutation.isPending || soldMutation.isPending || renewMutation.isPending || bumpMutation.isPending;
+  const canMoveTo = (status: string) =>
+    listing.status !== status && canTransitionListingStatus(listing.status, status);
+
+  // Dates arrive from the API as ISO strings
+  const now = Date.now();
+  const isActive = (listing.status ?? "active") === "active";
+  const isExpired = listing.status === "expired";
+  const expiresAt = listing.expiresAt ? new Date(listing.expiresAt) : null;
+  const canRenew = isExpired || (isActive && expiresAt !== null && expiresAt.getTime() - now < RENEW_WINDOW_MS);
+  const canBumpAt = listing.bumpedAt ? new Date(listing.bumpedAt).getTime() + LISTING_BUMP_COOLDOWN_MS : 0;
+
+  return (
+    <div className="space-y-3">
+      {isActive && expiresAt && (
+        <p className="text-sm text-gray-600 text-center">
+          Expires on {expiresAt.toLocaleDateString()}
+        </p>
+      )}
+      {isExpired && (
+        <p className="text-sm text-gray-600 text-center">
+          This listing has expired and is hidden from other students.
+        </p>
+      )}
+      {canRenew && (
+        <Button
+          variant={isExpired ? "default" : "outline"}
+          className="w-full"
+          disabled={isBusy}
+          onClick={() => renewMutation.mutate()}
+        >
+          Renew Listing
+        </Button>
+      )}
+      {isActive && (
+        <Button
+          variant="outline"
+          className="w-full"
+          disabled={isBusy || canBumpAt > now}
+          title={canBumpAt > now ? `You can bump again after ${new Date(canBumpAt).toLocaleString()}` : undefined}
+          onClick={() => bumpMutation.mutate()}
+        >
+          Bump to Top
+        </Button>
+      )}
+      <Button className="w-full" disabled={isBusy} onClick={() => setIsSoldDialogOpen(true)}>
+        Mark as Sold
+      </Button>
+      {canMoveTo("reserved") && (
+        <Button
+          variant="outline"
+          className="w-full"
+          disabled={isBusy}
+          onClick={() => statusMutation.mutate("reserved")}
+        >
+          Mark as Reserved
+        </Button>
+      )}
+      {canMoveTo("active") && !isExpired && (
+        <Button
+          variant="outline"
+          className="w-full"
+          disabled={isBusy}
+          onClick={() => statusMutation.mutate("active")}
+        >
+          Mark as Available
+        </Button>
+      )}
+      {canMoveTo("withdrawn") && (
+        <Button
+          variant="ghost"
+          className="w-full"
+          disabled={isBusy}
+          onClick={() => statusMutation.mutate("withdrawn")}
+        >
+          Withdraw Listing
+        </Button>
+      )}
+
+      <Dialog open={isSoldDialogOpen} onOpenChange={setIsSoldDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Mark as sold</DialogTitle>
+            <DialogDescription>
+              Choose who bought "{listing.title}". Leave the price empty to use
+              their accepted offer or the listing price.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Buyer</Label>
+              {isLoadingBuyers ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : !buyers || buyers.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  Nobody has messaged you about this listing yet.
+                </p>
+              ) : (
+                <Select value={buyerId} onValueChange={setBuyerId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a buyer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {buyers.map((buyer) => (
+                      <SelectItem key={buyer.id} value={buyer.id.toString()}>
+                        {buyer.username}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="sale-price">Final price ($)</Label>
+              <Input
+                id="sale-price"
+                type="number"
+                min={0}
+                placeholder={listing.price.toString()}
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsSoldDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button disabled={!buyerId || soldMutation.isPending} onClick={() => soldMutation.mutate()}>
+              {soldMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirm Sale
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,19 +1,24 @@
-import { useMemo } from "react";
 import ListingCard from "./listing-card";
 import { useListings } from "@/hooks/use-listings";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useContext } from "react";
 import { FilterContext } from "@/contexts/filter-context";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { AlertCircle } from "lucide-react";
+import { AlertCircle, Loader2 } from "lucide-react";
 
 export default function ListingsGrid() {
   const { viewMode } = useContext(FilterContext);
-  const { isLoading, listings, error, favorites } = useListings();
-
-  const favoriteIds = useMemo(() => {
-    return favorites?.map(fav => fav.listingId) || [];
-  }, [favorites]);
+  const { 
+    isLoading, 
+    listings, 
+    error, 
+    favoriteIds,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useListings();
+  const sentinelRef = useInfiniteScroll({ hasNextPage, isFetchingNextPage, fetchNextPage });
   
   if (isLoading) {
     return (
@@ -77,6 +82,11 @@ export default function ListingsGrid() {
           />
         ))}
       </div>
+      
+      {/* Sentinel that loads the next page when scrolled into view */}
+      <div ref={sentinelRef} className="flex justify-center py-6">
+        {isFetchingNextPage && <Loader2 className="h-6 w-6 animate-spin text-primary" />}
+      </div>
     </div>
   );
 }
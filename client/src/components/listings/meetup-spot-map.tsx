@@ -0,0 +1,70 @@
+import { MeetupSpot, MeetupSpotKind } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+const WIDTH = 320;
+const HEIGHT = 200;
+// Keeps the markers inside the viewBox
+const PADDING = 20;
+const MARKER_RADIUS = 10;
+
+export const meetupSpotKindLabels: Record<MeetupSpotKind, string> = {
+  library: "Library",
+  police: "Campus police",
+  student_center: "Student center",
+};
+
+const kindColors: Record<MeetupSpotKind, string> = {
+  library: "#2563eb",
+  police: "#dc2626",
+  student_center: "#16a34a",
+};
+
+interface MeetupSpotMapProps {
+  spots: MeetupSpot[];
+  className?: string;
+}
+
+// Schematic map of a listing's meetup spots, numbered in list order. The spots
+// are a few blocks apart, so a flat projection scaled to fit is close enough.
+export function MeetupSpotMap({ spots, className }: MeetupSpotMapProps) {
+  if (spots.length === 0) return null;
+
+  // A degree of longitude shrinks towards the poles
+  const lngScale = Math.cos((spots[0].latitude * Math.PI) / 180);
+  const xs = spots.map(spot => spot.longitude * lngScale);
+  const ys = spots.map(spot => spot.latitude);
+  const minX = Math.min(...xs);
+  const maxY = Math.max(...ys);
+  const spanX = Math.max(...xs) - minX;
+  const spanY = maxY - Math.min(...ys);
+  // The same scale on both axes so distances aren't distorted, centered; a
+  // single spot is drawn in the middle
+  const scale = Math.min(WIDTH - PADDING * 2, HEIGHT - PADDING * 2) / (Math.max(spanX, spanY) || 1);
+  const offsetX = (WIDTH - spanX * scale) / 2;
+  const offsetY = (HEIGHT - spanY * scale) / 2;
+
+  const points = spots.map((spot, index) => ({
+    spot,
+    x: offsetX + (xs[index] - minX) * scale,
+    y: offsetY + (maxY - ys[index]) * scale,
+  }));
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className={cn("w-full rounded-md border bg-muted/40", className)}
+      role="img"
+      aria-label={`Map of ${spots.length} meetup ${spots.length === 1 ? "spot" : "spots"}`}
+    >
+      {points.map(({ spot, x, y }, index) => (
+        <g key={spot.id}>
+          <title>{`${spot.name} (${meetupSpotKindLabels[spot.kind]})`}</title>
+          <circle cx={x} cy={y} r={MARKER_RADIUS} fill={kindColors[spot.kind]} stroke="white" strokeWidth={2} />
+          <text x={x} y={y} dy="0.35em" textAnchor="middle" fontSize={11} fontWeight={600} fill="white">
+            {index + 1}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,62 @@
+import { ListingPrice } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+const WIDTH = 120;
+const HEIGHT = 32;
+// Keeps the line and end dot inside the viewBox
+const PADDING = 3;
+
+interface PriceSparklineProps {
+  history: ListingPrice[];
+  className?: string;
+}
+
+// Small line chart of a listing's past prices, oldest on the left
+export function PriceSparkline({ history, className }: PriceSparklineProps) {
+  if (history.length < 2) return null;
+
+  const prices = history.map(point => point.price);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  const range = max - min || 1;
+
+  const points = prices.map((price, index) => ({
+    x: PADDING + (index / (prices.length - 1)) * (WIDTH - PADDING * 2),
+    // Flat histories are drawn through the middle
+    y: max === min
+      ? HEIGHT / 2
+      : PADDING + ((max - price) / range) * (HEIGHT - PADDING * 2),
+  }));
+  const last = points[points.length - 1];
+
+  const first = prices[0];
+  const current = prices[prices.length - 1];
+  const trendClass = current < first ? "text-green-600" : current > first ? "text-red-500" : "text-gray-400";
+
+  return (
+    <div className={cn("flex items-center gap-2 text-xs text-gray-500", className)}>
+      <svg
+        width={WIDTH}
+        height={HEIGHT}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className={trendClass}
+        role="img"
+        aria-label={`Price history from $${first} to $${current}`}
+      >
+        <polyline
+          points={points.map(point => `${point.x},${point.y}`).join(" ")}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+        <circle cx={last.x} cy={last.y} r={2.5} fill="currentColor" />
+      </svg>
+      <span>
+        {current < first ? `Was $${first}` : `Listed at $${first}`}
+        {min < current && ` · low $${min}`}
+      </span>
+    </div>
+  );
+}
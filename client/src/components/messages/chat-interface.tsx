@@ -1,9 +1,21 @@
-import { useState, useEffect, useRef } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
 import { format } from 'date-fns';
-import { User, Message } from '@shared/schema';
-import { Send, ArrowLeft } from 'lucide-react';
+import {
+  User,
+  Meetup,
+  Message,
+  MessageAttachment,
+  Page,
+  attachmentTypes,
+  isImageAttachment,
+  MAX_MESSAGE_ATTACHMENTS,
+  MAX_UPLOAD_SIZE,
+} from '@shared/schema';
+import { Send, ArrowLeft, Loader2, Paperclip, X, FileText, Image as ImageIcon, CalendarPlus } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiUpload } from '@/lib/queryClient';
 import { useWebSocket } from '@/hooks/use-websocket';
 import { MessageType } from '@/hooks/use-websocket';
 import { Button } from '@/components/ui/button';
@@ -13,42 +25,101 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { cn } from '@/lib/utils';
 import { Link } from 'wouter';
+import { OfferPanel } from './offer-panel';
+import { MessageAttachments, formatFileSize } from './message-attachments';
+import { MeetupCard } from './meetup-card';
+import { MeetupDialog } from './meetup-dialog';
 
 interface ChatInterfaceProps {
-  otherUser: Omit<User, 'password'>;
+  otherUser: Pick<User, 'id' | 'username'>;
   listingId: number;
   listingTitle: string;
+  listingOwnerId: number | null;
   onBack?: () => void;
 }
 
-export function ChatInterface({ otherUser, listingId, listingTitle, onBack }: ChatInterfaceProps) {
+export function ChatInterface({ otherUser, listingId, listingTitle, listingOwnerId, onBack }: ChatInterfaceProps) {
   const { user } = useAuth();
   const { sendMessage, markAsRead, setTyping, onlineUsers, typingUsers } = useWebSocket();
+  const { toast } = useToast();
   const [message, setMessage] = useState('');
+  // Files uploaded to the conversation, waiting to be sent with the next message
+  const [pendingAttachments, setPendingAttachments] = useState<MessageAttachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Open with no meetup to propose one, or with a pending meetup to counter it
+  const [meetupDialog, setMeetupDialog] = useState<{ counterTo?: Meetup } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
+  // Scroll height before older messages were loaded above the current ones
+  const scrollHeightBeforeLoadRef = useRef<number | null>(null);
+  const lastReadSentRef = useRef<number | null>(null);
   
-  // Fetch messages
-  const { data: messages, isLoading } = useQuery<Message[]>({
+  // Fetch messages a page at a time, newest first
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<Page<Message>>({
     queryKey: ['/api/messages', otherUser.id, listingId],
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     refetchInterval: 5000, // Fallback polling in case WebSocket fails
   });
   
-  // Scroll to bottom when messages change
+  // Meetup messages show the meetup's current status, so they're looked up here
+  const { data: meetups } = useQuery<Meetup[]>({
+    queryKey: ['/api/meetups', otherUser.id, listingId],
+  });
+  const meetupsById = useMemo(
+    () => new Map((meetups ?? []).map((meetup) => [meetup.id, meetup])),
+    [meetups]
+  );
+  
+  // The thread reads oldest first
+  const messages = useMemo(
+    () => data?.pages.flatMap((page) => page.items).reverse() ?? [],
+    [data]
+  );
+  const newestMessageId = messages[messages.length - 1]?.id;
+  
+  // Scroll to bottom when a new message arrives, but not when older ones load
   useEffect(() => {
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
+  }, [newestMessageId]);
+  
+  // Keep the same messages in view once older ones are added above them
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    if (container && scrollHeightBeforeLoadRef.current !== null) {
+      container.scrollTop += container.scrollHeight - scrollHeightBeforeLoadRef.current;
+      scrollHeightBeforeLoadRef.current = null;
+    }
   }, [messages]);
   
-  // Mark messages as read
+  // Load older messages when scrolled to the top
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container || container.scrollTop > 80 || !hasNextPage || isFetchingNextPage) return;
+    
+    scrollHeightBeforeLoadRef.current = container.scrollHeight;
+    fetchNextPage();
+  };
+  
+  // Mark everything up to the newest unread message read with one receipt
   useEffect(() => {
-    if (messages && user) {
-      messages.forEach(msg => {
-        if (msg.receiverId === user.id && !msg.read) {
-          markAsRead(msg.id);
-        }
-      });
+    if (!user) return;
+    
+    const unread = messages.filter(msg => msg.receiverId === user.id && !msg.read);
+    const newestUnread = unread[unread.length - 1];
+    if (newestUnread?.conversationId && lastReadSentRef.current !== newestUnread.id) {
+      lastReadSentRef.current = newestUnread.id;
+      markAsRead(newestUnread.conversationId, newestUnread.id);
     }
   }, [messages, user, markAsRead]);
   
@@ -70,12 +141,66 @@ export function ChatInterface({ otherUser, listingId, listingTitle, onBack }: Ch
     }, 2000);
   };
   
+  // Upload picked files so they can be sent with the next message
+  const handleAttachFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    
+    if (pendingAttachments.length + files.length > MAX_MESSAGE_ATTACHMENTS) {
+      toast({
+        title: 'Too many files',
+        description: `You can send up to ${MAX_MESSAGE_ATTACHMENTS} files in one message.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    
+    // Check type and size; the server checks the contents as well
+    const rejected = files.find(file =>
+      !(attachmentTypes as readonly string[]).includes(file.type) || file.size > MAX_UPLOAD_SIZE
+    );
+    if (rejected) {
+      toast({
+        title: "Can't attach file",
+        description: `${rejected.name} isn't an image or PDF of ${MAX_UPLOAD_SIZE / (1024 * 1024)}MB or less.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    
+    const formData = new FormData();
+    formData.append('listingId', listingId.toString());
+    formData.append('receiverId', otherUser.id.toString());
+    files.forEach(file => formData.append('files', file));
+    
+    setIsUploading(true);
+    apiUpload('/api/messages/attachments', formData)
+      .then((res) => res.json() as Promise<MessageAttachment[]>)
+      .then((attachments) => {
+        setPendingAttachments((prev) => [...prev, ...attachments]);
+      })
+      .catch((error: Error) => {
+        toast({
+          title: 'Upload failed',
+          description: error.message || 'Failed to upload files. Please try again.',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => setIsUploading(false));
+  };
+  
+  const removeAttachment = (uploadId: number) => {
+    setPendingAttachments((prev) => prev.filter(attachment => attachment.uploadId !== uploadId));
+  };
+  
   // Send a message
   const handleSendMessage = () => {
-    if (!message.trim() || !user) return;
+    if ((!message.trim() && pendingAttachments.length === 0) || isUploading || !user) return;
     
-    sendMessage(otherUser.id, listingId, message.trim());
+    sendMessage(otherUser.id, listingId, message.trim(), pendingAttachments.map(attachment => attachment.uploadId));
     setMessage('');
+    setPendingAttachments([]);
     
     // Clear typing indicator immediately after sending
     setTyping(otherUser.id, listingId, false);
@@ -134,8 +259,21 @@ export function ChatInterface({ otherUser, listingId, listingTitle, onBack }: Ch
         </div>
       </div>
       
+      {/* Offers and price negotiation */}
+      <OfferPanel 
+        otherUserId={otherUser.id} 
+        listingId={listingId} 
+        isSeller={listingOwnerId === user?.id} 
+      />
+      
       {/* Messages container */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      <div ref={scrollContainerRef} onScroll={handleScroll} className="flex-1 overflow-y-auto p-4 space-y-4">
+        {isFetchingNextPage && (
+          <div className="flex justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        
         {isLoading ? (
           // Loading state
           Array.from({ length: 5 }).map((_, index) => (
@@ -145,11 +283,29 @@ export function ChatInterface({ otherUser, listingId, listingTitle, onBack }: Ch
               </div>
             </div>
           ))
-        ) : messages && messages.length > 0 ? (
+        ) : messages.length > 0 ? (
           // Messages
           messages.map((msg) => {
             const isSentByMe = msg.senderId === user?.id;
             const messageDate = msg.createdAt ? new Date(msg.createdAt) : new Date();
+            const meetup = msg.meetupId !== null ? meetupsById.get(msg.meetupId) : undefined;
+            
+            if (msg.kind === 'meetup') {
+              return (
+                <div key={msg.id} className={`flex ${isSentByMe ? 'justify-end' : 'justify-start'}`}>
+                  <div className={isSentByMe ? 'ml-auto' : 'mr-auto'}>
+                    {meetup ? (
+                      <MeetupCard meetup={meetup} onCounter={(counterTo) => setMeetupDialog({ counterTo })} />
+                    ) : (
+                      <Skeleton className="h-28 w-72 rounded-xl" />
+                    )}
+                    <div className={`text-xs text-muted-foreground mt-1 ${isSentByMe ? 'text-right' : 'text-left'}`}>
+                      {format(messageDate, 'p')}
+                    </div>
+                  </div>
+                </div>
+              );
+            }
             
             return (
               <div key={msg.id} className={`flex ${isSentByMe ? 'justify-end' : 'justify-start'}`}>
@@ -162,7 +318,12 @@ export function ChatInterface({ otherUser, listingId, listingTitle, onBack }: Ch
                         : "bg-muted rounded-bl-none"
                     )}
                   >
-                    {msg.content}
+                    {msg.attachments.length > 0 && (
+                      <MessageAttachments attachments={msg.attachments} isSentByMe={isSentByMe} />
+                    )}
+                    {msg.content && (
+                      <p className={cn("whitespace-pre-wrap", msg.attachments.length > 0 && "mt-2")}>{msg.content}</p>
+                    )}
                   </div>
                   <div className={`text-xs text-muted-foreground mt-1 ${isSentByMe ? 'text-right' : 'text-left'}`}>
                     {format(messageDate, 'p')}
@@ -199,7 +360,66 @@ export function ChatInterface({ otherUser, listingId, listingTitle, onBack }: Ch
       
       {/* Message input */}
       <div className="p-3 border-t">
+        {(pendingAttachments.length > 0 || isUploading) && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {pendingAttachments.map((attachment) => (
+              <div
+                key={attachment.uploadId}
+                className="flex items-center gap-1 rounded-full border bg-muted px-3 py-1 text-xs max-w-[220px]"
+              >
+                {isImageAttachment(attachment) ? (
+                  <ImageIcon className="h-3 w-3 shrink-0" />
+                ) : (
+                  <FileText className="h-3 w-3 shrink-0" />
+                )}
+                <span className="truncate">{attachment.name}</span>
+                <span className="text-muted-foreground shrink-0">{formatFileSize(attachment.size)}</span>
+                <button
+                  type="button"
+                  className="ml-1 shrink-0 text-muted-foreground hover:text-foreground"
+                  onClick={() => removeAttachment(attachment.uploadId)}
+                  aria-label={`Remove ${attachment.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+            {isUploading && (
+              <div className="flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Uploading...
+              </div>
+            )}
+          </div>
+        )}
         <div className="flex items-end gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={attachmentTypes.join(',')}
+            multiple
+            className="hidden"
+            onChange={handleAttachFiles}
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-[60px]"
+            onClick={() => setMeetupDialog({})}
+            aria-label="Propose a meetup"
+          >
+            <CalendarPlus className="h-5 w-5" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-[60px]"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading || pendingAttachments.length >= MAX_MESSAGE_ATTACHMENTS}
+            aria-label="Attach photos or PDFs"
+          >
+            <Paperclip className="h-5 w-5" />
+          </Button>
           <Textarea
             value={message}
             onChange={handleMessageChange}
@@ -211,12 +431,20 @@ export function ChatInterface({ otherUser, listingId, listingTitle, onBack }: Ch
             onClick={handleSendMessage} 
             size="icon" 
             className="h-[60px]"
-            disabled={!message.trim()}
+            disabled={(!message.trim() && pendingAttachments.length === 0) || isUploading}
           >
             <Send className="h-5 w-5" />
           </Button>
         </div>
       </div>
+      
+      <MeetupDialog
+        isOpen={meetupDialog !== null}
+        onClose={() => setMeetupDialog(null)}
+        otherUserId={otherUser.id}
+        listingId={listingId}
+        counterTo={meetupDialog?.counterTo}
+      />
     </div>
   );
 }
\ No newline at end of file
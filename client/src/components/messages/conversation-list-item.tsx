@@ -0,0 +1,135 @@
+import { getMessagePreview } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { ConversationSummary, useUpdateConversation } from "@/hooks/use-conversations";
+import { cn } from "@/lib/utils";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Archive, ArchiveRestore, Bell, BellOff, MoreVertical } from "lucide-react";
+
+// Format date for conversation list
+function formatConversationDate(dateString: string) {
+  const date = new Date(dateString);
+  const now = new Date();
+
+  // If today, show time
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+
+  // If this week, show day
+  const daysDiff = Math.floor((now.getTime() - date.getTime()) / (1000 * 60 * 60 * 24));
+  if (daysDiff < 7) {
+    return date.toLocaleDateString([], { weekday: 'short' });
+  }
+
+  // Otherwise show date
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+function truncateText(text: string, maxLength: number) {
+  if (text.length <= maxLength) return text;
+  return text.substring(0, maxLength) + '...';
+}
+
+interface ConversationListItemProps {
+  conversation: ConversationSummary;
+  isActive: boolean;
+  onSelect: (conversation: ConversationSummary) => void;
+}
+
+// One row of the conversation list, with a menu to archive or mute it
+export function ConversationListItem({ conversation, isActive, onSelect }: ConversationListItemProps) {
+  const { user } = useAuth();
+  const updateConversation = useUpdateConversation();
+
+  return (
+    <div
+      className={cn(
+        "p-4 border-b cursor-pointer hover:bg-gray-50 transition-colors",
+        isActive && "bg-gray-100"
+      )}
+      onClick={() => onSelect(conversation)}
+    >
+      <div className="flex items-start gap-3">
+        <Avatar className="h-10 w-10">
+          <AvatarImage src="" alt={conversation.otherUser.username} />
+          <AvatarFallback>
+            {conversation.otherUser.username.substring(0, 2).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex justify-between items-start">
+            <h3 className="font-medium truncate flex items-center gap-1">
+              {conversation.otherUser.username}
+              {conversation.muted && <BellOff className="h-3 w-3 text-gray-400 shrink-0" aria-label="Muted" />}
+            </h3>
+            <span className="text-xs text-gray-500 whitespace-nowrap">
+              {formatConversationDate(conversation.lastMessage.createdAt)}
+            </span>
+          </div>
+
+          <p className={cn("text-sm text-gray-600 truncate", conversation.unreadCount > 0 && "font-medium")}>
+            {conversation.lastMessage.senderId === user?.id ? 'You: ' : ''}
+            {truncateText(getMessagePreview(conversation.lastMessage), 30)}
+          </p>
+
+          <div className="flex items-center mt-1">
+            <p className="text-xs text-gray-500 truncate mr-2">
+              {truncateText(conversation.listing.title, 20)}
+            </p>
+
+            {conversation.unreadCount > 0 && (
+              <Badge className="ml-auto bg-primary text-white">
+                {conversation.unreadCount}
+              </Badge>
+            )}
+          </div>
+        </div>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 -mr-2 shrink-0"
+              aria-label="Conversation options"
+              onClick={(event) => event.stopPropagation()}
+            >
+              <MoreVertical className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" onClick={(event) => event.stopPropagation()}>
+            <DropdownMenuItem
+              onClick={() => updateConversation.mutate({ id: conversation.id, archived: !conversation.archived })}
+            >
+              {conversation.archived ? (
+                <ArchiveRestore className="mr-2 h-4 w-4" />
+              ) : (
+                <Archive className="mr-2 h-4 w-4" />
+              )}
+              <span>{conversation.archived ? "Move to inbox" : "Archive"}</span>
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => updateConversation.mutate({ id: conversation.id, muted: !conversation.muted })}
+            >
+              {conversation.muted ? (
+                <Bell className="mr-2 h-4 w-4" />
+              ) : (
+                <BellOff className="mr-2 h-4 w-4" />
+              )}
+              <span>{conversation.muted ? "Unmute" : "Mute notifications"}</span>
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CalendarClock, CalendarPlus, MapPin } from "lucide-react";
+import { Meetup, MeetupStatus } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+type MeetupAction = "accept" | "decline" | "cancel";
+
+const statusLabels: Record<MeetupStatus, string> = {
+  pending: "Pending",
+  accepted: "Accepted",
+  declined: "Declined",
+  countered: "New time suggested",
+  cancelled: "Cancelled",
+};
+
+interface MeetupCardProps {
+  meetup: Meetup;
+  onCounter: (meetup: Meetup) => void;
+}
+
+// A meetup proposal in the thread, with the actions open to the current user
+export function MeetupCard({ meetup, onCounter }: MeetupCardProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const respondMutation = useMutation({
+    mutationFn: async (action: MeetupAction) => {
+      const res = await apiRequest("POST", `/api/meetups/${meetup.id}/${action}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/meetups"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Meetup update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startsAt = new Date(meetup.startsAt);
+  const hasPassed = startsAt <= new Date();
+  const isRecipient = meetup.recipientId === user?.id;
+  const isPending = meetup.status === "pending" && !hasPassed;
+  const isUpcoming = meetup.status === "accepted" && !hasPassed;
+  const isBusy = respondMutation.isPending;
+
+  return (
+    <div className="w-72 rounded-xl border bg-background p-3 text-foreground space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <CalendarClock className="h-4 w-4 text-primary" />
+          Meetup
+        </span>
+        <Badge variant={meetup.status === "accepted" ? "default" : "outline"}>
+          {meetup.status === "pending" && hasPassed
+            ? "Time passed"
+            : statusLabels[meetup.status as MeetupStatus] ?? meetup.status}
+        </Badge>
+      </div>
+
+      <div className="text-sm">
+        <p className="font-medium">{format(startsAt, "EEE, MMM d · p")}</p>
+        <p className="flex items-start gap-1 text-muted-foreground">
+          <MapPin className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>{meetup.location}</span>
+        </p>
+        {meetup.notes && <p className="mt-1 whitespace-pre-wrap">{meetup.notes}</p>}
+      </div>
+
+      {isPending && isRecipient && (
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" disabled={isBusy} onClick={() => respondMutation.mutate("accept")}>
+            Accept
+          </Button>
+          <Button size="sm" variant="outline" disabled={isBusy} onClick={() => respondMutation.mutate("decline")}>
+            Decline
+          </Button>
+          <Button size="sm" variant="outline" disabled={isBusy} onClick={() => onCounter(meetup)}>
+            Suggest another time
+          </Button>
+        </div>
+      )}
+
+      {isPending && !isRecipient && (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">Waiting for a response</span>
+          <Button size="sm" variant="outline" disabled={isBusy} onClick={() => respondMutation.mutate("cancel")}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {isUpcoming && (
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" asChild>
+            <a href={`/api/meetups/${meetup.id}/calendar.ics`} download>
+              <CalendarPlus className="h-4 w-4 mr-2" />
+              Add to calendar
+            </a>
+          </Button>
+          <Button size="sm" variant="ghost" disabled={isBusy} onClick={() => respondMutation.mutate("cancel")}>
+            Cancel
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
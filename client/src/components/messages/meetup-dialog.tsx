@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { addDays, format, setHours, startOfHour } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Listing, Meetup, MeetupSpot } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+// The value format of a datetime-local input, in the browser's time zone
+const DATETIME_LOCAL_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+// The spot choice for a place that isn't one of the listing's meetup spots
+const OTHER_SPOT = "other";
+
+interface MeetupDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  otherUserId: number;
+  listingId: number;
+  // The pending meetup being countered, whose details the form starts from
+  counterTo?: Meetup;
+}
+
+// Propose a time and place to meet, or suggest a different one
+export function MeetupDialog({ isOpen, onClose, otherUserId, listingId, counterTo }: MeetupDialogProps) {
+  const { toast } = useToast();
+  const [startsAt, setStartsAt] = useState("");
+  const [spotId, setSpotId] = useState(OTHER_SPOT);
+  const [location, setLocation] = useState("");
+  const [notes, setNotes] = useState("");
+
+  // The seller's safe meetup spots are offered first
+  const { data: listing } = useQuery<Listing & { meetupSpots: MeetupSpot[] }>({
+    queryKey: [`/api/listings/${listingId}`],
+    enabled: isOpen,
+  });
+  const meetupSpots = listing?.meetupSpots ?? [];
+  const spot = meetupSpots.find((meetupSpot) => meetupSpot.id === spotId);
+
+  // Start from the countered meetup, or noon tomorrow at the first spot
+  useEffect(() => {
+    if (!isOpen) return;
+    const defaultTime = startOfHour(setHours(addDays(new Date(), 1), 12));
+    setStartsAt(format(counterTo ? new Date(counterTo.startsAt) : defaultTime, DATETIME_LOCAL_FORMAT));
+    setSpotId(counterTo ? counterTo.meetupSpotId ?? OTHER_SPOT : meetupSpots[0]?.id ?? OTHER_SPOT);
+    setLocation(counterTo?.location ?? "");
+    setNotes("");
+    // Also once the spots have loaded, but not when they are refetched
+  }, [isOpen, counterTo, meetupSpots.length]);
+
+  const proposeMutation = useMutation({
+    mutationFn: async () => {
+      const details = {
+        startsAt: new Date(startsAt).toISOString(),
+        // The server fills in a spot's name as the location
+        ...(spot ? { meetupSpotId: spot.id, location: spot.name } : { location }),
+        notes: notes || undefined,
+      };
+      const res = counterTo
+        ? await apiRequest("POST", `/api/meetups/${counterTo.id}/counter`, details)
+        : await apiRequest("POST", "/api/meetups", { ...details, listingId, receiverId: otherUserId });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/meetups", otherUserId, listingId] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: counterTo ? "Couldn't suggest a new time" : "Couldn't propose meetup",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isValid = !!startsAt && !isNaN(new Date(startsAt).getTime()) && (!!spot || !!location.trim());
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{counterTo ? "Suggest another time" : "Propose a meetup"}</DialogTitle>
+          <DialogDescription>
+            Pick a busy, public spot on campus. You'll both get a reminder an hour before.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="meetup-time">When</Label>
+            <Input
+              id="meetup-time"
+              type="datetime-local"
+              min={format(new Date(), DATETIME_LOCAL_FORMAT)}
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="meetup-location">Where</Label>
+            {meetupSpots.length > 0 && (
+              <Select value={spotId} onValueChange={setSpotId}>
+                <SelectTrigger aria-label="Meetup spot">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {meetupSpots.map((meetupSpot) => (
+                    <SelectItem key={meetupSpot.id} value={meetupSpot.id}>
+                      {meetupSpot.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={OTHER_SPOT}>Somewhere else</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            {!spot && (
+              <Input
+                id="meetup-location"
+                placeholder="e.g. Library main entrance"
+                maxLength={200}
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+              />
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="meetup-notes">Notes (optional)</Label>
+            <Textarea
+              id="meetup-notes"
+              placeholder="e.g. I'll be wearing a red jacket"
+              maxLength={500}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="resize-none"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button disabled={!isValid || proposeMutation.isPending} onClick={() => proposeMutation.mutate()}>
+            {proposeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {counterTo ? "Suggest Time" : "Propose Meetup"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,77 @@
+import { FileText } from "lucide-react";
+import {
+  getUploadUrl,
+  getUploadVariantUrl,
+  isImageAttachment,
+  MessageAttachment,
+} from "@shared/schema";
+import { cn } from "@/lib/utils";
+import { ListingPhoto } from "@/components/listings/listing-photo";
+
+// e.g. "820 KB" or "2.4 MB"
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  isSentByMe: boolean;
+}
+
+// A message's files: photos inline, opening full size when clicked, and
+// other files as links to download them
+export function MessageAttachments({ attachments, isSentByMe }: MessageAttachmentsProps) {
+  const images = attachments.filter(isImageAttachment);
+  const files = attachments.filter((attachment) => !isImageAttachment(attachment));
+
+  return (
+    <div className="space-y-2">
+      {images.length > 0 && (
+        <div className={cn("grid gap-1", images.length > 1 && "grid-cols-2")}>
+          {images.map((attachment) => (
+            <a
+              key={attachment.uploadId}
+              href={getUploadUrl(attachment.uploadId)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block overflow-hidden rounded-lg"
+            >
+              <ListingPhoto
+                image={{
+                  url: getUploadVariantUrl(attachment.uploadId, "card"),
+                  width: null,
+                  height: null,
+                  blurhash: attachment.blurhash,
+                  variants: [],
+                }}
+                src={getUploadVariantUrl(attachment.uploadId, "card")}
+                alt={attachment.name}
+                sizes="240px"
+                className="max-h-60 w-full object-cover"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {files.map((attachment) => (
+        <a
+          key={attachment.uploadId}
+          href={getUploadUrl(attachment.uploadId)}
+          download={attachment.name}
+          className={cn(
+            "flex items-center gap-2 rounded-lg border p-2 text-sm hover:underline",
+            isSentByMe ? "border-primary-foreground/30" : "border-border bg-background"
+          )}
+        >
+          <FileText className="h-5 w-5 shrink-0" />
+          <span className="min-w-0 flex-1 truncate">{attachment.name}</span>
+          <span className="shrink-0 text-xs opacity-70">{formatFileSize(attachment.size)}</span>
+        </a>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Offer, OfferStatus } from '@shared/schema';
+import { HandCoins, Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+
+interface OfferPanelProps {
+  otherUserId: number;
+  listingId: number;
+  isSeller: boolean;
+}
+
+type OfferAction = 'accept' | 'decline' | 'withdraw';
+
+const statusLabels: Record<OfferStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  countered: 'Countered',
+  expired: 'Expired',
+  withdrawn: 'Withdrawn',
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+export function OfferPanel({ otherUserId, listingId, isSeller }: OfferPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [amount, setAmount] = useState('');
+
+  const offersQueryKey = ['/api/offers', otherUserId, listingId];
+
+  // Fetch offers for this conversation, newest first
+  const { data: offers, isLoading } = useQuery<Offer[]>({
+    queryKey: offersQueryKey,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Offer failed',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const onSuccess = () => {
+    setAmount('');
+    queryClient.invalidateQueries({ queryKey: offersQueryKey });
+  };
+
+  // Make a new offer, or counter the pending one
+  const submitOfferMutation = useMutation({
+    mutationFn: async ({ counterTo, value }: { counterTo?: number; value: number }) => {
+      const res = counterTo
+        ? await apiRequest('POST', `/api/offers/${counterTo}/counter`, { amount: value })
+        : await apiRequest('POST', '/api/offers', { listingId, amount: value });
+      return res.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ offerId, action }: { offerId: number; action: OfferAction }) => {
+      const res = await apiRequest('POST', `/api/offers/${offerId}/${action}`);
+      return res.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  if (isLoading || !user) {
+    return null;
+  }
+
+  const latestOffer = offers?.[0];
+  const pendingOffer = latestOffer?.status === 'pending' ? latestOffer : undefined;
+  const isAccepted = latestOffer?.status === 'accepted';
+  const isMyOffer = pendingOffer?.senderId === user.id;
+  const isBusy = submitOfferMutation.isPending || respondMutation.isPending;
+
+  // Sellers respond to offers; they can't open a negotiation themselves
+  const canSubmit = !isAccepted && (pendingOffer ? !isMyOffer : !isSeller);
+
+  const handleSubmit = () => {
+    const value = parseInt(amount);
+    if (isNaN(value) || value <= 0) return;
+    submitOfferMutation.mutate({ counterTo: pendingOffer?.id, value });
+  };
+
+  return (
+    <div className="border-b bg-muted/40 px-4 py-3 space-y-2">
+      {latestOffer && (
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm">
+            <HandCoins className="h-4 w-4 text-primary" />
+            <span className="font-medium">
+              {latestOffer.senderId === user.id ? 'Your offer' : 'Their offer'}: {formatCurrency(latestOffer.amount)}
+            </span>
+            <Badge variant={latestOffer.status === 'accepted' ? 'default' : 'outline'}>
+              {statusLabels[latestOffer.status as OfferStatus] ?? latestOffer.status}
+            </Badge>
+          </div>
+          {pendingOffer && (
+            <span className="text-xs text-muted-foreground">
+              Expires {format(new Date(pendingOffer.expiresAt), 'MMM d, p')}
+            </span>
+          )}
+        </div>
+      )}
+
+      {pendingOffer && (
+        <div className="flex gap-2">
+          {isMyOffer ? (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isBusy}
+              onClick={() => respondMutation.mutate({ offerId: pendingOffer.id, action: 'withdraw' })}
+            >
+              Withdraw
+            </Button>
+          ) : (
+            <>
+              <Button
+                size="sm"
+                disabled={isBusy}
+                onClick={() => respondMutation.mutate({ offerId: pendingOffer.id, action: 'accept' })}
+              >
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isBusy}
+                onClick={() => respondMutation.mutate({ offerId: pendingOffer.id, action: 'decline' })}
+              >
+                Decline
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      {canSubmit && (
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            min={1}
+            placeholder={pendingOffer ? 'Counter amount ($)' : 'Offer amount ($)'}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="h-9"
+          />
+          <Button size="sm" className="h-9" disabled={isBusy || !amount} onClick={handleSubmit}>
+            {submitOfferMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {pendingOffer ? 'Counter' : 'Make Offer'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import { useMarkAllNotificationsRead, useNotifications } from "@/hooks/use-notifications";
+import { NotificationItem } from "./notification-item";
+
+// Most notifications listed in the dropdown; the rest are on /notifications
+const DROPDOWN_LIMIT = 8;
+
+// Unread counts above this show as "9+"
+const MAX_BADGE_COUNT = 9;
+
+interface UnreadBadgeProps {
+  count: number;
+}
+
+export function UnreadBadge({ count }: UnreadBadgeProps) {
+  if (count === 0) return null;
+
+  return (
+    <span className="absolute -top-1 -right-1 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+      {count > MAX_BADGE_COUNT ? `${MAX_BADGE_COUNT}+` : count}
+    </span>
+  );
+}
+
+export function NotificationBell() {
+  const [isOpen, setIsOpen] = useState(false);
+  const { notifications, unreadCount, isLoading } = useNotifications();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="relative mx-3 text-gray-600 hover:text-primary transition-colors"
+          aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : "Notifications"}
+        >
+          <Bell className="h-6 w-6" />
+          <UnreadBadge count={unreadCount} />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3">
+          <h3 className="font-semibold">Notifications</h3>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0"
+              onClick={() => markAllRead.mutate()}
+              disabled={markAllRead.isPending}
+            >
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        <Separator />
+        {isLoading ? (
+          <p className="px-4 py-6 text-sm text-center text-gray-500">Loading...</p>
+        ) : notifications.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-gray-500">You're all caught up</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto p-1" onClick={() => setIsOpen(false)}>
+            {notifications.slice(0, DROPDOWN_LIMIT).map((notification) => (
+              <NotificationItem key={notification.id} notification={notification} />
+            ))}
+          </div>
+        )}
+        <Separator />
+        <Link href="/notifications">
+          <span
+            className="block px-4 py-2 text-sm text-center text-primary hover:underline cursor-pointer"
+            onClick={() => setIsOpen(false)}
+          >
+            View all notifications
+          </span>
+        </Link>
+      </PopoverContent>
+    </Popover>
+  );
+}
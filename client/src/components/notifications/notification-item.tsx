@@ -0,0 +1,78 @@
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { Notification, NotificationType } from "@shared/schema";
+import { useMarkNotificationRead } from "@/hooks/use-notifications";
+import { cn } from "@/lib/utils";
+import {
+  AlarmClock,
+  Bell,
+  BellRing,
+  CalendarClock,
+  DollarSign,
+  Heart,
+  MessageCircle,
+  Search,
+  Star,
+  Tag,
+  type LucideIcon,
+} from "lucide-react";
+
+const typeIcons: Record<NotificationType, LucideIcon> = {
+  message: MessageCircle,
+  offer: DollarSign,
+  review: Star,
+  favorite_sold: Tag,
+  favorite_update: Heart,
+  saved_search_match: Search,
+  listing_expiring: AlarmClock,
+  listing_expired: BellRing,
+  meetup: CalendarClock,
+};
+
+interface NotificationItemProps {
+  notification: Notification;
+  className?: string;
+}
+
+// One notification; opening it marks it read and follows its link
+export function NotificationItem({ notification, className }: NotificationItemProps) {
+  const [, setLocation] = useLocation();
+  const markRead = useMarkNotificationRead();
+  const Icon = typeIcons[notification.type as NotificationType] ?? Bell;
+  const isUnread = !notification.readAt;
+
+  const handleClick = () => {
+    if (isUnread) {
+      markRead.mutate(notification);
+    }
+    if (notification.link) {
+      setLocation(notification.link);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      className={cn(
+        "flex w-full items-start gap-3 px-3 py-2 text-left rounded-md hover:bg-gray-50",
+        isUnread && "bg-primary/5",
+        className
+      )}
+    >
+      <Icon className="h-5 w-5 mt-0.5 shrink-0 text-gray-500" />
+      <div className="flex-1 min-w-0">
+        <p className={cn("text-sm text-gray-900 truncate", isUnread && "font-semibold")}>
+          {notification.title}
+        </p>
+        <p className="text-sm text-gray-600 line-clamp-2">{notification.body}</p>
+        {notification.createdAt && (
+          <p className="text-xs text-gray-400 mt-1">
+            {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+          </p>
+        )}
+      </div>
+      {isUnread && <span className="h-2 w-2 mt-2 shrink-0 rounded-full bg-primary" aria-label="Unread" />}
+    </button>
+  );
+}
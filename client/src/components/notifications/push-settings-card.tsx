@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { getPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from "@/lib/push";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+
+// Turn Web Push on or off for the browser the settings page is open in
+export function PushSettingsCard() {
+  const { toast } = useToast();
+  const isSupported = isPushSupported();
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [isChecking, setIsChecking] = useState(isSupported);
+
+  useEffect(() => {
+    if (!isSupported) return;
+
+    getPushSubscription()
+      .then((subscription) => setIsSubscribed(subscription !== null))
+      .finally(() => setIsChecking(false));
+  }, [isSupported]);
+
+  const toggleMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      if (enabled) {
+        await subscribeToPush();
+      } else {
+        await unsubscribeFromPush();
+      }
+      return enabled;
+    },
+    onSuccess: (enabled) => {
+      setIsSubscribed(enabled);
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't change push notifications",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Push notifications</CardTitle>
+        <CardDescription>
+          Get messages and offers on this device even when Student Swap isn't open
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isSupported ? (
+          <label className="flex items-center gap-2 text-sm">
+            <Switch
+              checked={isSubscribed}
+              disabled={isChecking || toggleMutation.isPending}
+              onCheckedChange={(enabled) => toggleMutation.mutate(enabled)}
+            />
+            Push notifications on this device
+          </label>
+        ) : (
+          <p className="text-sm text-gray-500">This browser doesn't support push notifications.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Stars } from "./star-rating";
+
+interface ReviewDialogProps {
+  transactionId: number;
+  revieweeName: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function ReviewDialog({ transactionId, revieweeName, isOpen, onClose }: ReviewDialogProps) {
+  const { toast } = useToast();
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+
+  const reviewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/transactions/${transactionId}/reviews`, {
+        rating,
+        comment,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Review submitted",
+        description: `Thanks for reviewing ${revieweeName}`,
+      });
+      setRating(0);
+      setComment("");
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to submit review",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Review {revieweeName}</DialogTitle>
+          <DialogDescription>How did the swap go? Reviews can't be changed later.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Stars value={rating} onChange={setRating} className="[&_svg]:h-6 [&_svg]:w-6" />
+          <Textarea
+            placeholder="Tell other students about your experience (optional)"
+            className="min-h-[100px]"
+            maxLength={1000}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button disabled={rating === 0 || reviewMutation.isPending} onClick={() => reviewMutation.mutate()}>
+            {reviewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Submit Review
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
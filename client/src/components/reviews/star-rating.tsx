@@ -0,0 +1,57 @@
+import { Star } from "lucide-react";
+import { UserRating } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+interface StarsProps {
+  value: number;
+  onChange?: (value: number) => void;
+  className?: string;
+}
+
+// Five stars filled up to the rounded value; clickable when onChange is given
+export function Stars({ value, onChange, className }: StarsProps) {
+  const rounded = Math.round(value);
+
+  return (
+    <div className={cn("flex items-center gap-0.5", className)}>
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button
+          key={star}
+          type="button"
+          disabled={!onChange}
+          onClick={() => onChange?.(star)}
+          className={onChange ? "cursor-pointer" : "cursor-default"}
+          aria-label={`${star} star${star === 1 ? "" : "s"}`}
+        >
+          <Star
+            className={cn(
+              "h-4 w-4",
+              star <= rounded ? "fill-yellow-400 text-yellow-400" : "text-gray-300"
+            )}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface StarRatingProps {
+  rating?: UserRating;
+  className?: string;
+}
+
+// A user's average rating with the number of reviews it's based on
+export function StarRating({ rating, className }: StarRatingProps) {
+  if (!rating || rating.average === null) {
+    return <p className={cn("text-sm text-gray-500", className)}>No reviews yet</p>;
+  }
+
+  return (
+    <div className={cn("flex items-center gap-2 text-sm text-gray-600", className)}>
+      <Stars value={rating.average} />
+      <span>
+        {rating.average.toFixed(1)} ({rating.count} review{rating.count === 1 ? "" : "s"})
+      </span>
+    </div>
+  );
+}
@@ -3,14 +3,16 @@ import {
   ListingCategory, 
   ListingCondition, 
   ListingType,
+  ListingSortOption,
+  CampusScope,
+  DistanceOption,
   itemCategories, 
   serviceCategories, 
   experienceCategories 
 } from "@shared/schema";
 
 type ViewMode = "grid" | "list";
-type SortOption = "newest" | "price_asc" | "price_desc";
-type DistanceOption = "less_than_1" | "1_to_3" | "3_to_5" | "any";
+type SortOption = ListingSortOption;
 
 interface FilterContextType {
   // View and sort options
@@ -19,6 +21,10 @@ interface FilterContextType {
   sortBy: SortOption;
   setSortBy: (option: SortOption) => void;
   
+  // Which schools' listings to show
+  campus: CampusScope;
+  setCampus: (campus: CampusScope) => void;
+  
   // Listing type and category filters
   activeListingType: ListingType;
   setActiveListingType: (type: ListingType) => void;
@@ -41,6 +47,8 @@ export const FilterContext = createContext<FilterContextType>({
   setViewMode: () => {},
   sortBy: "newest",
   setSortBy: () => {},
+  campus: "mine",
+  setCampus: () => {},
   activeListingType: "item",
   setActiveListingType: () => {},
   activeCategory: "All",
@@ -62,6 +70,7 @@ interface FilterProviderProps {
 export function FilterProvider({ children }: FilterProviderProps) {
   const [viewMode, setViewMode] = useState<ViewMode>("grid");
   const [sortBy, setSortBy] = useState<SortOption>("newest");
+  const [campus, setCampus] = useState<CampusScope>("mine");
   const [activeListingType, setActiveListingType] = useState<ListingType>("item");
   const [activeCategory, setActiveCategory] = useState<string>("All");
   const [filters, setFilters] = useState({
@@ -79,6 +88,8 @@ export function FilterProvider({ children }: FilterProviderProps) {
         setViewMode,
         sortBy,
         setSortBy,
+        campus,
+        setCampus,
         activeListingType,
         setActiveListingType,
         activeCategory,
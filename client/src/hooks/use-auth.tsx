@@ -6,6 +6,7 @@ import {
 } from "@tanstack/react-query";
 import { User, InsertUser } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { unsubscribeFromPush } from "@/lib/push";
 import { useToast } from "@/hooks/use-toast";
 
 type AuthContextType = {
@@ -77,6 +78,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const logoutMutation = useMutation({
     mutationFn: async () => {
+      // Stop this device getting the user's pushes once they've logged out
+      await unsubscribeFromPush().catch(() => {});
       await apiRequest("POST", "/api/logout");
     },
     onSuccess: () => {
@@ -0,0 +1,83 @@
+import { useMemo } from "react";
+import { useInfiniteQuery, useMutation } from "@tanstack/react-query";
+import { Conversation, MessageAttachment, Page, UpdateConversation } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+// A conversation as the current user sees it in their inbox
+export interface ConversationSummary {
+  id: number;
+  otherUser: {
+    id: number;
+    username: string;
+    email: string;
+    university: string;
+    verified?: boolean | null;
+    createdAt?: Date | null;
+  };
+  listing: {
+    id: number;
+    title: string;
+    price: number;
+    images?: string[];
+    userId: number | null;
+    status: string | null;
+  };
+  lastMessage: {
+    id: number;
+    content: string;
+    attachments: MessageAttachment[];
+    createdAt: string;
+    read: boolean;
+    senderId: number;
+    receiverId: number;
+  };
+  unreadCount: number;
+  lastReadMessageId: number | null;
+  archived: boolean;
+  muted: boolean;
+}
+
+// The current user's conversations, most recent first, loaded a page at a
+// time; either the inbox or the ones they archived
+export function useConversations(archived = false) {
+  const { user } = useAuth();
+
+  const query = useInfiniteQuery<Page<ConversationSummary>>({
+    queryKey: ["/api/messages", { archived }],
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!user,
+    refetchInterval: 10000, // Refresh every 10 seconds as fallback
+  });
+
+  const conversations = useMemo(
+    () => query.data?.pages.flatMap((page) => page.items) ?? [],
+    [query.data]
+  );
+
+  return { ...query, conversations };
+}
+
+// Archive or mute a conversation for the current user
+export function useUpdateConversation() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, ...changes }: UpdateConversation & { id: number }) => {
+      const res = await apiRequest("PATCH", `/api/conversations/${id}`, changes);
+      return await res.json() as Conversation;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't update conversation",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,35 @@
+import { useEffect, useRef } from "react";
+
+interface InfiniteScrollOptions {
+  hasNextPage: boolean | undefined;
+  isFetchingNextPage: boolean;
+  fetchNextPage: () => unknown;
+}
+
+// Returns a ref for a sentinel element; the next page is fetched when it scrolls into view
+export function useInfiniteScroll<T extends HTMLElement = HTMLDivElement>({
+  hasNextPage,
+  isFetchingNextPage,
+  fetchNextPage,
+}: InfiniteScrollOptions) {
+  const sentinelRef = useRef<T>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return sentinelRef;
+}
@@ -1,136 +1,100 @@
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { useContext, useMemo } from "react";
 import { FilterContext } from "@/contexts/filter-context";
-import { Listing, Favorite } from "@shared/schema";
+import { Listing, ListingQuery, Page } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
 
-export function useListings() {
+// The server-side listing query for the active filters and search text
+export function useListingQuery(): ListingQuery {
   const [location] = useLocation();
   const searchParams = new URLSearchParams(location.split("?")[1]);
   const searchQuery = searchParams.get("search");
-  const { user } = useAuth();
   const { 
     activeCategory,
     activeListingType,
     sortBy, 
+    campus,
     filters 
   } = useContext(FilterContext);
 
-  // Get all listings with search if available
-  const { data: allListings, isLoading: isListingsLoading, error: listingsError } = useQuery<Listing[]>({
-    queryKey: searchQuery ? ["/api/listings", { search: searchQuery }] : ["/api/listings"],
-  });
-
-  // Get user's favorites if logged in
-  const { data: favorites, isLoading: isFavoritesLoading } = useQuery<(Favorite & { listing?: Listing })[]>({
-    queryKey: ["/api/favorites"],
-    enabled: !!user,
-  });
-
-  // Filter and sort listings based on search, category, and filters
-  const listings = useMemo(() => {
-    if (!allListings) return [];
-
-    // Start with all listings
-    let filteredListings = [...allListings];
-    
-    // First filter by listing type
-    filteredListings = filteredListings.filter(
-      listing => listing.type === activeListingType
-    );
+  return useMemo(() => {
+    const query: ListingQuery = {
+      type: activeListingType,
+      sort: sortBy,
+      campus,
+    };
 
-    // Then filter by category if not "All"
+    // A selected category chip takes precedence over the modal's categories
     if (activeCategory !== "All") {
-      filteredListings = filteredListings.filter(
-        listing => listing.category === activeCategory
-      );
+      query.categories = [activeCategory];
+    } else if (filters.categories.length > 0) {
+      query.categories = filters.categories;
     }
 
-    // Enhanced search query filtering
-    if (searchQuery) {
-      const searchTerms = searchQuery.toLowerCase().split(/\s+/).filter(term => term.length > 0);
-      
-      // If there are search terms, filter listings
-      if (searchTerms.length > 0) {
-        filteredListings = filteredListings.filter(listing => {
-          // Combine all searchable fields
-          const searchableText = [
-            listing.title.toLowerCase(),
-            listing.description ? listing.description.toLowerCase() : '',
-            listing.category ? listing.category.toLowerCase() : '',
-            listing.condition ? listing.condition.toLowerCase() : '',
-            listing.type.toLowerCase()
-          ].join(' ');
-          
-          // A listing matches if any of the search terms is found
-          return searchTerms.some(term => searchableText.includes(term));
-        });
-      }
+    if (filters.conditions.length > 0) {
+      query.conditions = filters.conditions;
     }
 
-    // Apply price filters
-    if (filters.minPrice && filters.maxPrice) {
-      const min = parseInt(filters.minPrice);
-      const max = parseInt(filters.maxPrice);
-      
-      if (!isNaN(min) && !isNaN(max)) {
-        filteredListings = filteredListings.filter(
-          listing => listing.price >= min && listing.price <= max
-        );
-      }
-    } else if (filters.minPrice) {
-      const min = parseInt(filters.minPrice);
-      
-      if (!isNaN(min)) {
-        filteredListings = filteredListings.filter(
-          listing => listing.price >= min
-        );
-      }
-    } else if (filters.maxPrice) {
-      const max = parseInt(filters.maxPrice);
-      
-      if (!isNaN(max)) {
-        filteredListings = filteredListings.filter(
-          listing => listing.price <= max
-        );
-      }
+    const min = parseInt(filters.minPrice);
+    if (!isNaN(min)) {
+      query.minPrice = min;
     }
 
-    // Filter by conditions
-    if (filters.conditions.length > 0) {
-      filteredListings = filteredListings.filter(
-        listing => listing.condition && filters.conditions.includes(listing.condition)
-      );
+    const max = parseInt(filters.maxPrice);
+    if (!isNaN(max)) {
+      query.maxPrice = max;
     }
 
-    // Filter by categories
-    if (filters.categories.length > 0) {
-      filteredListings = filteredListings.filter(
-        listing => listing.category && filters.categories.includes(listing.category)
-      );
+    if (filters.distance !== "any") {
+      query.distance = filters.distance;
     }
 
-    // Sort listings
-    switch (sortBy) {
-      case "price_asc":
-        return filteredListings.sort((a, b) => a.price - b.price);
-      case "price_desc":
-        return filteredListings.sort((a, b) => b.price - a.price);
-      case "newest":
-      default:
-        return filteredListings.sort((a, b) => {
-          const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-          const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-          return dateB - dateA;
-        });
+    if (searchQuery) {
+      query.search = searchQuery;
     }
-  }, [allListings, activeListingType, activeCategory, searchQuery, filters, sortBy]);
+
+    return query;
+  }, [activeListingType, activeCategory, searchQuery, filters, sortBy, campus]);
+}
+
+export function useListings() {
+  const { user } = useAuth();
+  const listingQuery = useListingQuery();
+
+  // Filtering, search and sorting all happen on the server; pages are
+  // fetched with the cursor returned by the previous page
+  const {
+    data,
+    isLoading: isListingsLoading,
+    error: listingsError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<Page<Listing>>({
+    queryKey: ["/api/listings", listingQuery],
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const listings = useMemo(
+    () => data?.pages.flatMap((page) => page.items) ?? [],
+    [data]
+  );
+
+  // Get the ids of the user's favorites if logged in
+  const { data: favoriteIds, isLoading: isFavoritesLoading } = useQuery<number[]>({
+    queryKey: ["/api/favorites/ids"],
+    enabled: !!user,
+  });
 
   return {
     listings,
     isLoading: isListingsLoading || isFavoritesLoading,
     error: listingsError,
-    favorites: favorites || [],
+    favoriteIds: favoriteIds || [],
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
   };
 }
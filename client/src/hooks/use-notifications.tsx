@@ -0,0 +1,49 @@
+import { useMemo } from "react";
+import { useInfiniteQuery, useMutation } from "@tanstack/react-query";
+import { Notification, NotificationPage } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+
+// The current user's notifications, newest first, loaded a page at a time.
+// New notifications arrive over the WebSocket, which refetches this query.
+export function useNotifications() {
+  const { user } = useAuth();
+
+  const query = useInfiniteQuery<NotificationPage>({
+    queryKey: ["/api/notifications"],
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!user,
+  });
+
+  const notifications = useMemo(
+    () => query.data?.pages.flatMap((page) => page.items) ?? [],
+    [query.data]
+  );
+  const unreadCount = query.data?.pages[0]?.unreadCount ?? 0;
+
+  return { ...query, notifications, unreadCount };
+}
+
+export function useMarkNotificationRead() {
+  return useMutation({
+    mutationFn: async (notification: Notification) => {
+      const res = await apiRequest("POST", `/api/notifications/${notification.id}/read`);
+      return await res.json() as Notification;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+}
+
+export function useMarkAllNotificationsRead() {
+  return useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+}
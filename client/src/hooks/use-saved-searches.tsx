@@ -0,0 +1,73 @@
+import { useQuery } from "@tanstack/react-query";
+import { SavedSearch, SavedSearchFilters } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+
+// Saved searches as returned by the API, with how many matches are unseen
+export interface SavedSearchWithCount extends SavedSearch {
+  newMatchCount: number;
+}
+
+const campusLabels = {
+  mine: "My campus",
+  nearby: "Nearby schools",
+  all: "All schools",
+};
+
+const distanceLabels = {
+  less_than_1: "Under 1 mi",
+  "1_to_3": "1–3 mi",
+  "3_to_5": "3–5 mi",
+};
+
+export function useSavedSearches() {
+  const { user } = useAuth();
+
+  return useQuery<SavedSearchWithCount[]>({
+    queryKey: ["/api/saved-searches"],
+    enabled: !!user,
+  });
+}
+
+// One-line summary of a saved search's filters, e.g. "Desks · $20–$80 · My campus"
+export function describeSavedSearch(filters: SavedSearchFilters): string {
+  const parts: string[] = [];
+
+  if (filters.search) {
+    parts.push(`"${filters.search}"`);
+  }
+
+  if (filters.categories?.length) {
+    parts.push(filters.categories.join(", "));
+  } else if (filters.type) {
+    parts.push(`All ${filters.type}s`);
+  }
+
+  if (filters.minPrice !== undefined && filters.maxPrice !== undefined) {
+    parts.push(`$${filters.minPrice}–$${filters.maxPrice}`);
+  } else if (filters.minPrice !== undefined) {
+    parts.push(`$${filters.minPrice}+`);
+  } else if (filters.maxPrice !== undefined) {
+    parts.push(`Up to $${filters.maxPrice}`);
+  }
+
+  if (filters.conditions?.length) {
+    parts.push(filters.conditions.join(", "));
+  }
+
+  if (filters.distance && filters.distance !== "any") {
+    parts.push(distanceLabels[filters.distance]);
+  }
+
+  parts.push(campusLabels[filters.campus ?? "mine"]);
+
+  return parts.join(" · ");
+}
+
+// Home page URL that shows a saved search's results
+export function getSavedSearchUrl(search: SavedSearch): string {
+  const params = new URLSearchParams({ savedSearch: search.id.toString() });
+  if (search.filters.search) {
+    params.set("search", search.filters.search);
+  }
+  return `/?${params.toString()}`;
+}
@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { University, getEmailDomainCandidates } from "@shared/schema";
+
+// The university directory, with a lookup matching the server's registration check
+export function useUniversities() {
+  const { data: universities, isLoading } = useQuery<University[]>({
+    queryKey: ["/api/universities"],
+    staleTime: Infinity,
+  });
+
+  const findUniversity = (email: string): University | undefined => {
+    for (const domain of getEmailDomainCandidates(email)) {
+      const university = universities?.find((u) => u.domains.includes(domain));
+      if (university) {
+        return university;
+      }
+    }
+    return undefined;
+  };
+
+  return { universities, isLoading, findUniversity };
+}
@@ -1,5 +1,6 @@
 import { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
-import { Message } from '@shared/schema';
+import { InfiniteData } from '@tanstack/react-query';
+import { FavoriteAlert, Listing, Message, Notification, Offer, Page, ReadReceipt } from '@shared/schema';
 import { useAuth } from './use-auth';
 import { useToast } from './use-toast';
 import { queryClient } from '@/lib/queryClient';
@@ -13,6 +14,12 @@ export enum MessageType {
   USER_OFFLINE = 'user_offline',
   TYPING = 'typing',
   STOPPED_TYPING = 'stopped_typing',
+  OFFER = 'offer',
+  MEETUP = 'meetup',
+  LISTING_EXPIRED = 'listing_expired',
+  SAVED_SEARCH_MATCH = 'saved_search_match',
+  FAVORITE_ALERT = 'favorite_alert',
+  NOTIFICATION = 'notification',
   ERROR = 'error'
 }
 
@@ -32,8 +39,8 @@ interface TypingStatus {
 
 type WebSocketContextType = {
   connected: boolean;
-  sendMessage: (receiverId: number, listingId: number, content: string) => void;
-  markAsRead: (messageId: number) => void;
+  sendMessage: (receiverId: number, listingId: number, content: string, attachmentIds?: number[]) => void;
+  markAsRead: (conversationId: number, messageId: number) => void;
   setTyping: (receiverId: number, listingId: number, isTyping: boolean) => void;
   onlineUsers: OnlineUsers;
   typingUsers: TypingStatus;
@@ -57,51 +64,55 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
       return;
     }
     
-    // Create WebSocket connection
+    // The server authenticates the socket with the session cookie
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const wsUrl = `${protocol}//${window.location.host}/ws?userId=${user.id}`;
+    const wsUrl = `${protocol}//${window.location.host}/ws`;
+    let closedByClient = false;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
     
-    socket.current = new WebSocket(wsUrl);
-    
-    // Setup event handlers
-    socket.current.onopen = () => {
-      console.log('WebSocket connected');
-      setConnected(true);
-    };
-    
-    socket.current.onclose = (event) => {
-      console.log('WebSocket disconnected', event);
-      setConnected(false);
+    const connect = () => {
+      socket.current = new WebSocket(wsUrl);
       
-      // Reconnect after a delay if disconnected abnormally
-      if (event.code !== 1000) {
-        setTimeout(() => {
-          // Reconnect only if user is still authenticated
-          if (user) {
+      // Setup event handlers
+      socket.current.onopen = () => {
+        console.log('WebSocket connected');
+        setConnected(true);
+      };
+      
+      socket.current.onclose = (event) => {
+        console.log('WebSocket disconnected', event);
+        setConnected(false);
+        
+        // Reconnect after a delay if disconnected abnormally; 1008 means the
+        // server ended the session, so there is nothing to reconnect with
+        if (!closedByClient && event.code !== 1000 && event.code !== 1008) {
+          reconnectTimer = setTimeout(() => {
             console.log('Reconnecting WebSocket...');
-            const newProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-            const newWsUrl = `${newProtocol}//${window.location.host}/ws?userId=${user.id}`;
-            socket.current = new WebSocket(newWsUrl);
-          }
-        }, 5000);
-      }
-    };
-    
-    socket.current.onerror = (error) => {
-      console.error('WebSocket error:', error);
-      toast({
-        title: 'Connection Error',
-        description: 'Failed to connect to messaging service',
-        variant: 'destructive',
-      });
+            connect();
+          }, 5000);
+        }
+      };
+      
+      socket.current.onerror = (error) => {
+        console.error('WebSocket error:', error);
+        toast({
+          title: 'Connection Error',
+          description: 'Failed to connect to messaging service',
+          variant: 'destructive',
+        });
+      };
+      
+      socket.current.onmessage = (event) => {
+        handleIncomingMessage(event.data);
+      };
     };
     
-    socket.current.onmessage = (event) => {
-      handleIncomingMessage(event.data);
-    };
+    connect();
     
-    // Clean up on unmount
+    // Clean up on unmount or logout
     return () => {
+      closedByClient = true;
+      clearTimeout(reconnectTimer);
       if (socket.current) {
         socket.current.close();
       }
@@ -131,6 +142,24 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
         case MessageType.STOPPED_TYPING:
           handleTypingStatus(message.payload.senderId, message.payload.listingId, false);
           break;
+        case MessageType.OFFER:
+          handleOffer(message.payload);
+          break;
+        case MessageType.MEETUP:
+          handleMeetup();
+          break;
+        case MessageType.LISTING_EXPIRED:
+          handleListingExpired(message.payload);
+          break;
+        case MessageType.SAVED_SEARCH_MATCH:
+          handleSavedSearchMatch(message.payload);
+          break;
+        case MessageType.FAVORITE_ALERT:
+          handleFavoriteAlert(message.payload);
+          break;
+        case MessageType.NOTIFICATION:
+          handleNotification(message.payload);
+          break;
         case MessageType.ERROR:
           handleError(message.payload);
           break;
@@ -143,34 +172,105 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
   };
   
   const handleNewMessage = (message: Message) => {
-    // Play sound for new messages
-    const audio = new Audio('/message-notification.mp3');
-    audio.play().catch(e => console.log('Error playing sound:', e));
-    
-    // Show toast notification if message is from someone else
-    if (message.senderId !== user?.id) {
-      toast({
-        title: 'New Message',
-        description: 'You have received a new message',
-      });
-    }
+    // Invalidate cached messages to trigger a refetch; our own messages are
+    // echoed back too, and are filed under the receiver
+    const otherUserId = message.senderId === user?.id ? message.receiverId : message.senderId;
+    queryClient.invalidateQueries({
+      queryKey: ['/api/messages', otherUserId, message.listingId]
+    });
     
-    // Invalidate cached messages to trigger a refetch
+    // Also invalidate conversations lists, whose keys end in their filters
     queryClient.invalidateQueries({
-      queryKey: ['/api/messages', message.senderId, message.listingId]
+      queryKey: ['/api/messages', {}]
     });
+  };
+  
+  const handleReadReceipt = (receipt: ReadReceipt) => {
+    // Mark the reader's messages up to the pointer read in any loaded thread
+    queryClient.setQueriesData<InfiniteData<Page<Message>>>(
+      {
+        queryKey: ['/api/messages'],
+        predicate: (query) => query.queryKey.length === 3 && query.queryKey[2] === receipt.listingId,
+      },
+      (data) => data && {
+        ...data,
+        pages: data.pages.map((page) => ({
+          ...page,
+          items: page.items.map((message) =>
+            message.conversationId === receipt.conversationId &&
+            message.receiverId === receipt.readerId &&
+            message.id <= receipt.lastReadMessageId
+              ? { ...message, read: true }
+              : message
+          ),
+        })),
+      }
+    );
     
-    // Also invalidate conversations list
+    // Unread counts in the conversations lists
     queryClient.invalidateQueries({
-      queryKey: ['/api/messages']
+      queryKey: ['/api/messages', {}]
     });
   };
   
-  const handleReadReceipt = (payload: { messageId: number }) => {
-    // Update the UI to show message as read
-    // This will come from the invalidated queries
+  const handleOffer = (offer: Offer) => {
+    // Refresh the offers and the listing, whose status changes when an offer is accepted
+    queryClient.invalidateQueries({
+      queryKey: ['/api/offers']
+    });
+    queryClient.invalidateQueries({
+      queryKey: [`/api/listings/${offer.listingId}`]
+    });
+  };
+  
+  const handleMeetup = () => {
+    queryClient.invalidateQueries({
+      queryKey: ['/api/meetups']
+    });
+  };
+  
+  const handleListingExpired = (listing: Listing) => {
+    queryClient.invalidateQueries({
+      queryKey: [`/api/listings/${listing.id}`]
+    });
+    queryClient.invalidateQueries({
+      queryKey: [`/api/users/${listing.userId}`]
+    });
+  };
+  
+  const handleSavedSearchMatch = (payload: { savedSearch: { id: number; name: string }; listing: Listing }) => {
+    queryClient.invalidateQueries({
+      queryKey: ['/api/saved-searches']
+    });
+  };
+  
+  const handleFavoriteAlert = ({ listing }: FavoriteAlert) => {
+    queryClient.invalidateQueries({
+      queryKey: [`/api/listings/${listing.id}`]
+    });
+    queryClient.invalidateQueries({
+      queryKey: [`/api/listings/${listing.id}/price-history`]
+    });
+    queryClient.invalidateQueries({
+      queryKey: ['/api/favorites']
+    });
+  };
+  
+  // Alerts are toasted from notifications rather than the events behind them,
+  // so they follow the user's notification preferences and quiet hours
+  const handleNotification = (notification: Notification) => {
+    if (notification.type === 'message') {
+      const audio = new Audio('/message-notification.mp3');
+      audio.play().catch(e => console.log('Error playing sound:', e));
+    }
+    
+    toast({
+      title: notification.title,
+      description: notification.body,
+    });
+    
     queryClient.invalidateQueries({
-      queryKey: ['/api/messages']
+      queryKey: ['/api/notifications']
     });
   };
   
@@ -209,7 +309,8 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
   };
   
   // Send a message
-  const sendMessage = (receiverId: number, listingId: number, content: string) => {
+  // Attachments are uploaded first; their upload ids are sent with the message
+  const sendMessage = (receiverId: number, listingId: number, content: string, attachmentIds: number[] = []) => {
     if (!socket.current || socket.current.readyState !== WebSocket.OPEN) {
       toast({
         title: 'Connection Error',
@@ -224,20 +325,22 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
       payload: {
         receiverId,
         listingId,
-        content
+        content,
+        attachmentIds
       }
     };
     
     socket.current.send(JSON.stringify(message));
   };
   
-  // Mark message as read
-  const markAsRead = (messageId: number) => {
+  // Mark a conversation read up to and including a message
+  const markAsRead = (conversationId: number, messageId: number) => {
     if (!socket.current || socket.current.readyState !== WebSocket.OPEN) return;
     
     const message: WebSocketMessage = {
       type: MessageType.READ_RECEIPT,
       payload: {
+        conversationId,
         messageId
       }
     };
@@ -0,0 +1,64 @@
+import { apiRequest } from "@/lib/queryClient";
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+export function isPushSupported(): boolean {
+  return "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+// VAPID keys are base64url; the Push API wants the raw bytes
+function decodeBase64Url(value: string): Uint8Array {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+// This browser's current push subscription, if it has one
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+// Ask for permission, subscribe this browser and register it with the server
+export async function subscribeToPush(): Promise<PushSubscription> {
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Notifications are blocked for this site in your browser settings");
+  }
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+
+  const res = await apiRequest("GET", "/api/push/public-key");
+  const { publicKey } = await res.json() as { publicKey: string };
+
+  let subscription = await registration.pushManager.getSubscription();
+  // A subscription made with an old key can't receive pushes signed with the new one
+  if (subscription && subscription.options.applicationServerKey) {
+    const currentKey = new Uint8Array(subscription.options.applicationServerKey);
+    const expectedKey = decodeBase64Url(publicKey);
+    if (currentKey.length !== expectedKey.length || currentKey.some((byte, i) => byte !== expectedKey[i])) {
+      await subscription.unsubscribe();
+      subscription = null;
+    }
+  }
+
+  subscription ??= await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: decodeBase64Url(publicKey),
+  });
+
+  await apiRequest("POST", "/api/push/subscriptions", subscription.toJSON());
+  return subscription;
+}
+
+// Stop pushes to this browser. Server errors are ignored so that logging out
+// still unsubscribes the browser itself.
+export async function unsubscribeFromPush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  await apiRequest("DELETE", "/api/push/subscriptions", { endpoint: subscription.endpoint }).catch(() => {});
+  await subscription.unsubscribe();
+}
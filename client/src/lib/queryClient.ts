@@ -23,22 +23,45 @@ export async function apiRequest(
   return res;
 }
 
+// Multipart requests; the browser sets the Content-Type with its boundary
+export async function apiUpload(url: string, data: FormData): Promise<Response> {
+  const res = await fetch(url, {
+    method: "POST",
+    body: data,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
-  async ({ queryKey }) => {
-    // Extract the URL (first element) and params object (second element, if exists)
-    const url = queryKey[0] as string;
-    const params = queryKey.length > 1 && typeof queryKey[1] === 'object' ? queryKey[1] as Record<string, any> : null;
+  async ({ queryKey, pageParam }) => {
+    // Join the leading path segments into the URL, e.g. ['/api/offers', 2, 5]
+    // becomes /api/offers/2/5, and use a trailing object as query params
+    const segments = queryKey.filter((part) => typeof part === 'string' || typeof part === 'number');
+    const url = segments.join('/');
+    const lastPart = queryKey[queryKey.length - 1];
+    let params = queryKey.length > 1 && typeof lastPart === 'object' && lastPart !== null ? lastPart as Record<string, any> : null;
+    
+    // Infinite queries pass the page cursor as the page param
+    if (pageParam) {
+      params = { ...params, cursor: pageParam };
+    }
     
     // Construct the final URL with any query parameters
     let finalUrl = url;
     if (params) {
       const searchParams = new URLSearchParams();
       Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
+        if (Array.isArray(value)) {
+          // Repeat the key for each array element
+          value.forEach((item) => searchParams.append(key, item.toString()));
+        } else if (value !== undefined && value !== null) {
           searchParams.append(key, value.toString());
         }
       });
@@ -1,6 +1,7 @@
 import { useEffect } from "react";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { useUniversities } from "@/hooks/use-universities";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -42,12 +43,7 @@ const registerSchema = z.object({
     .min(3, "Username must be at least 3 characters")
     .max(50, "Username must be less than 50 characters"),
   email: z.string()
-    .email("Please enter a valid email address")
-    .refine(email => {
-      return email.endsWith('.edu') || email.includes('university') || email.includes('college');
-    }, {
-      message: "Please use a university email address"
-    }),
+    .email("Please enter a valid email address"),
   password: z.string()
     .min(8, "Password must be at least 8 characters")
     .regex(/[A-Z]/, "Password must contain at least one uppercase letter")
@@ -65,6 +61,7 @@ type RegisterFormData = z.infer<typeof registerSchema>;
 export default function AuthPage() {
   const [location, setLocation] = useLocation();
   const { user, isLoading, loginMutation, registerMutation } = useAuth();
+  const { universities, findUniversity } = useUniversities();
 
   // Redirect to home if already logged in
   useEffect(() => {
@@ -100,6 +97,13 @@ export default function AuthPage() {
   };
 
   const onRegisterSubmit = async (data: RegisterFormData) => {
+    if (universities && !findUniversity(data.email)) {
+      registerForm.setError("email", {
+        message: "We don't recognise this university email domain",
+      });
+      return;
+    }
+
     await registerMutation.mutateAsync({
       username: data.username,
       email: data.email,
@@ -228,6 +232,11 @@ export default function AuthPage() {
                           <FormControl>
                             <Input type="email" placeholder="your.name@university.edu" {...field} />
                           </FormControl>
+                          {findUniversity(field.value) && (
+                            <p className="text-xs text-gray-500">
+                              Registering with {findUniversity(field.value)?.name}
+                            </p>
+                          )}
                           <FormMessage />
                         </FormItem>
                       )}
@@ -1,7 +1,8 @@
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { Favorite, Listing } from "@shared/schema";
+import { useInfiniteQuery, useMutation } from "@tanstack/react-query";
+import { Favorite, Listing, Page } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
 import { useToast } from "@/hooks/use-toast";
 import Header from "@/components/layout/header";
 import MobileNav from "@/components/layout/mobile-nav";
@@ -16,7 +17,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Loader2, Heart } from "lucide-react";
 import { Link } from "wouter";
-import { useState } from "react";
+import { useMemo, useState } from "react";
 
 interface FavoriteWithListing extends Favorite {
   listing: Listing;
@@ -27,15 +28,25 @@ export default function FavoritesPage() {
   const { toast } = useToast();
   const [removingIds, setRemovingIds] = useState<number[]>([]);
 
-  // Fetch user's favorites
+  // Fetch user's favorites one page at a time
   const {
-    data: favorites,
+    data,
     isLoading,
     error,
-  } = useQuery<FavoriteWithListing[]>({
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<Page<FavoriteWithListing>>({
     queryKey: ["/api/favorites"],
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: !!user,
   });
+  const favorites = useMemo(
+    () => data?.pages.flatMap((page) => page.items) ?? [],
+    [data]
+  );
+  const sentinelRef = useInfiniteScroll({ hasNextPage, isFetchingNextPage, fetchNextPage });
 
   // Remove from favorites mutation
   const removeFavoriteMutation = useMutation({
@@ -44,8 +55,9 @@ export default function FavoritesPage() {
       await apiRequest("DELETE", `/api/favorites/${listingId}`);
     },
     onSuccess: () => {
-      // Invalidate favorites query to refresh the list
+      // Invalidate favorites queries to refresh the list
       queryClient.invalidateQueries({ queryKey: ["/api/favorites"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/favorites/ids"] });
       toast({
         title: "Removed from favorites",
         description: "The item has been removed from your favorites",
@@ -154,6 +166,11 @@ export default function FavoritesPage() {
               </div>
             ))}
           </div>
+          
+          {/* Sentinel that loads the next page when scrolled into view */}
+          <div ref={sentinelRef} className="flex justify-center py-6">
+            {isFetchingNextPage && <Loader2 className="h-6 w-6 animate-spin text-primary" />}
+          </div>
         </div>
       </main>
       <MobileNav />
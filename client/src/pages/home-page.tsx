@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useContext, useEffect, useRef, useState } from "react";
 import Header from "@/components/layout/header";
 import MobileNav from "@/components/layout/mobile-nav";
 import CategoryFilters from "@/components/filters/category-filters";
@@ -6,11 +6,49 @@ import FilterSortBar from "@/components/filters/filter-sort-bar";
 import ListingsGrid from "@/components/listings/listings-grid";
 import FloatingButton from "@/components/common/floating-button";
 import FilterModal from "@/components/filters/filter-modal";
-import { FilterProvider } from "@/contexts/filter-context";
-import { useLocation } from "wouter";
+import { FilterContext, FilterProvider } from "@/contexts/filter-context";
+import { useSavedSearches } from "@/hooks/use-saved-searches";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useLocation, useSearch } from "wouter";
 import { Search } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
+// Load the filters of a saved search opened from the profile page, linked
+// as /?savedSearch=<id>, and mark its matches as seen
+function ApplySavedSearch() {
+  const savedSearchId = parseInt(new URLSearchParams(useSearch()).get("savedSearch") ?? "");
+  const { data: savedSearches } = useSavedSearches();
+  const { setActiveListingType, setActiveCategory, setFilters, setCampus } = useContext(FilterContext);
+  const appliedId = useRef<number | null>(null);
+
+  const savedSearch = savedSearches?.find((search) => search.id === savedSearchId);
+
+  useEffect(() => {
+    if (!savedSearch || appliedId.current === savedSearch.id) return;
+    appliedId.current = savedSearch.id;
+
+    const { filters } = savedSearch;
+    if (filters.type) {
+      setActiveListingType(filters.type);
+    }
+    setActiveCategory("All");
+    setFilters({
+      minPrice: filters.minPrice?.toString() ?? "",
+      maxPrice: filters.maxPrice?.toString() ?? "",
+      conditions: filters.conditions ?? [],
+      categories: filters.categories ?? [],
+      distance: filters.distance ?? "any",
+    });
+    setCampus(filters.campus ?? "mine");
+
+    apiRequest("POST", `/api/saved-searches/${savedSearch.id}/viewed`)
+      .then(() => queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] }))
+      .catch((error) => console.error("Error marking saved search viewed:", error));
+  }, [savedSearch, setActiveListingType, setActiveCategory, setFilters, setCampus]);
+
+  return null;
+}
+
 export default function HomePage() {
   const [isFilterModalOpen, setIsFilterModalOpen] = useState(false);
   const [location] = useLocation();
@@ -19,6 +57,7 @@ export default function HomePage() {
 
   return (
     <FilterProvider>
+      <ApplySavedSearch />
       <div className="flex flex-col min-h-screen">
         <Header />
 
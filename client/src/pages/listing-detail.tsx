@@ -29,10 +29,11 @@ import {
   AlignLeft,
   Tag,
   Loader2,
+  Pencil,
 } from "lucide-react";
 import { useState, useEffect } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Listing, User } from "@shared/schema";
+import { ListingPrice, ListingWithImages, MeetupSpot, User, UserRating } from "@shared/schema";
 import {
   Dialog,
   DialogContent,
@@ -48,6 +49,13 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
+import { ListingStatusBadge } from "@/components/listings/listing-status-badge";
+import { ListingStatusControls } from "@/components/listings/listing-status-controls";
+import { StarRating } from "@/components/reviews/star-rating";
+import { ListingPhoto } from "@/components/listings/listing-photo";
+import { CreateListingModal } from "@/components/listings/create-listing-modal";
+import { PriceSparkline } from "@/components/listings/price-sparkline";
+import { MeetupSpotMap, meetupSpotKindLabels } from "@/components/listings/meetup-spot-map";
 
 const messageSchema = z.object({
   content: z.string().min(1, "Message cannot be empty"),
@@ -63,6 +71,7 @@ export default function ListingDetail() {
   const [isMessageModalOpen, setIsMessageModalOpen] = useState(false);
   const [isFavorite, setIsFavorite] = useState(false);
   const [isTogglingFavorite, setIsTogglingFavorite] = useState(false);
+  const [isEditModalOpen, setIsEditModalOpen] = useState(false);
 
   const form = useForm<MessageFormData>({
     resolver: zodResolver(messageSchema),
@@ -71,25 +80,29 @@ export default function ListingDetail() {
     },
   });
 
-  // Fetch listing data
-  const { data, isLoading, error } = useQuery<ListingDetailData>({
+  // Fetch listing data; the API returns the listing with its owner inlined
+  const { data, isLoading, error } = useQuery<ListingResponse, Error, ListingDetailData>({
     queryKey: [`/api/listings/${listingId}`],
-    queryFn: () => apiRequest("GET", `/api/listings/${listingId}`),
+    enabled: !!listingId,
+    select: ({ owner, ...listing }) => ({ listing, owner }),
+  });
+
+  const { data: priceHistory } = useQuery<ListingPrice[]>({
+    queryKey: [`/api/listings/${listingId}/price-history`],
     enabled: !!listingId,
   });
 
   // Check if listing is in user's favorites
-  const { data: favorites } = useQuery<any[]>({
-    queryKey: ["/api/favorites"],
+  const { data: favoriteIds } = useQuery<number[]>({
+    queryKey: ["/api/favorites/ids"],
     enabled: !!user,
   });
 
   useEffect(() => {
-    if (favorites) {
-      const isFav = favorites.some((fav) => fav.listingId === listingId);
-      setIsFavorite(isFav);
+    if (favoriteIds) {
+      setIsFavorite(favoriteIds.includes(listingId));
     }
-  }, [favorites, listingId]);
+  }, [favoriteIds, listingId]);
 
   const toggleFavorite = async () => {
     if (!user) {
@@ -118,6 +131,7 @@ export default function ListingDetail() {
       }
       setIsFavorite(!isFavorite);
       queryClient.invalidateQueries({ queryKey: ["/api/favorites"] }); //Restored query invalidation
+      queryClient.invalidateQueries({ queryKey: ["/api/favorites/ids"] });
     } catch (error) {
       toast({
         title: "Error",
@@ -225,6 +239,7 @@ export default function ListingDetail() {
       ? listing.images
       : [fallbackImage];
   const isOwner = user?.id === owner.id;
+  const isSold = listing.status === "sold";
 
   const formatDate = (date: string | Date | null) => {
     //Restored type
@@ -265,9 +280,11 @@ export default function ListingDetail() {
                 {images.map((image, index) => (
                   <CarouselItem key={index}>
                     <div className="relative aspect-video overflow-hidden rounded-lg">
-                      <img
+                      <ListingPhoto
+                        image={listing.imageDetails[index]}
                         src={image}
                         alt={`${listing.title} - image ${index + 1}`}
+                        sizes="(min-width: 1280px) 832px, (min-width: 1024px) 66vw, 100vw"
                         className="object-cover w-full h-full"
                       />
                     </div>
@@ -284,11 +301,19 @@ export default function ListingDetail() {
 
             {/* Listing title and price */}
             <div className="flex justify-between items-start mb-4">
-              <h1 className="text-2xl font-bold text-gray-900">
-                {listing.title}
-              </h1>
-              <div className="text-2xl font-bold text-primary">
-                {formatCurrency(listing.price)}
+              <div className="flex items-center gap-3">
+                <h1 className="text-2xl font-bold text-gray-900">
+                  {listing.title}
+                </h1>
+                {listing.status !== "active" && (
+                  <ListingStatusBadge status={listing.status} />
+                )}
+              </div>
+              <div className="flex flex-col items-end gap-1">
+                <div className="text-2xl font-bold text-primary">
+                  {formatCurrency(listing.price)}
+                </div>
+                {priceHistory && <PriceSparkline history={priceHistory} />}
               </div>
             </div>
 
@@ -335,6 +360,25 @@ export default function ListingDetail() {
                 {listing.category}
               </Badge>
             </div>
+
+            {/* Meetup spots the seller picked from their campus's list */}
+            {listing.meetupSpots.length > 0 && (
+              <div className="mb-8">
+                <h2 className="text-lg font-semibold flex items-center mb-2">
+                  <MapPin className="h-5 w-5 mr-2" />
+                  Safe Meetup Spots
+                </h2>
+                <MeetupSpotMap spots={listing.meetupSpots} className="mb-3 max-w-md" />
+                <ol className="space-y-1 text-sm text-gray-700">
+                  {listing.meetupSpots.map((spot, index) => (
+                    <li key={spot.id}>
+                      {index + 1}. {spot.name}{" "}
+                      <span className="text-gray-500">· {meetupSpotKindLabels[spot.kind]}</span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
           </div>
 
           {/* Right column - Seller info and actions */}
@@ -354,6 +398,7 @@ export default function ListingDetail() {
                   <div>
                     <p className="font-medium">{owner.username}</p>
                     <p className="text-sm text-gray-500">{owner.university}</p>
+                    <StarRating rating={owner.rating} className="mt-1" />
                   </div>
                 </div>
 
@@ -366,9 +411,17 @@ export default function ListingDetail() {
 
                 {!isOwner ? (
                   <div className="space-y-3">
+                    {listing.status !== "active" && (
+                      <p className="text-sm text-gray-600 text-center">
+                        {isSold
+                          ? "This item has been sold."
+                          : "This item is not currently available."}
+                      </p>
+                    )}
                     <Button
                       className="w-full"
                       onClick={() => setIsMessageModalOpen(true)}
+                      disabled={isSold}
                     >
                       <MessageCircle className="mr-2 h-4 w-4" />
                       Message Seller
@@ -390,9 +443,19 @@ export default function ListingDetail() {
                     </Button>
                   </div>
                 ) : (
-                  <Button variant="outline" className="w-full" disabled>
-                    This is your listing
-                  </Button>
+                  <div className="space-y-3">
+                    {!isSold && (
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => setIsEditModalOpen(true)}
+                      >
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Edit Listing
+                      </Button>
+                    )}
+                    <ListingStatusControls listing={listing} />
+                  </div>
                 )}
               </CardContent>
             </Card>
@@ -465,12 +528,26 @@ export default function ListingDetail() {
           </Form>
         </DialogContent>
       </Dialog>
+
+      {isOwner && (
+        <CreateListingModal
+          isOpen={isEditModalOpen}
+          onClose={() => setIsEditModalOpen(false)}
+          listing={listing}
+        />
+      )}
     </div>
   );
 }
 
+type ListingOwner = Omit<User, "password"> & { rating: UserRating };
+
+type ListingDetail = ListingWithImages & { meetupSpots: MeetupSpot[] };
+
 interface ListingDetailData {
   //Restored interface
-  listing: Listing;
-  owner: Omit<User, "password">;
+  listing: ListingDetail;
+  owner: ListingOwner;
 }
+
+type ListingResponse = ListingDetail & { owner: ListingOwner };
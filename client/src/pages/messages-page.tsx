@@ -1,66 +1,83 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { useWebSocket } from "@/hooks/use-websocket";
+import { ConversationSummary, useConversations } from "@/hooks/use-conversations";
 import Header from "@/components/layout/header";
 import MobileNav from "@/components/layout/mobile-nav";
 import { ChatInterface } from "@/components/messages/chat-interface";
+import { ConversationListItem } from "@/components/messages/conversation-list-item";
 import {
   Card,
-  CardContent,
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2 } from "lucide-react";
 
-// Types for conversation and message
-interface Conversation {
-  otherUser: {
-    id: number;
-    username: string;
-    email: string;
-    university: string;
-    verified?: boolean | null;
-    createdAt?: Date | null;
-  };
-  listing: {
-    id: number;
-    title: string;
-    price: number;
-    images?: string[];
-  };
-  lastMessage: {
-    id: number;
-    content: string;
-    createdAt: string;
-    read: boolean;
-    senderId: number;
-    receiverId: number;
-  };
-  unreadCount: number;
+interface ConversationListProps {
+  conversations: ConversationSummary[];
+  isLoading: boolean;
+  activeConversation: ConversationSummary | null;
+  onSelect: (conversation: ConversationSummary) => void;
+  empty: React.ReactNode;
+  hasNextPage?: boolean;
+  isFetchingNextPage?: boolean;
+  fetchNextPage?: () => void;
 }
 
-interface Message {
-  id: number;
-  content: string;
-  createdAt: string;
-  read: boolean;
-  senderId: number;
-  receiverId: number;
-  listingId: number;
+function ConversationList({
+  conversations,
+  isLoading,
+  activeConversation,
+  onSelect,
+  empty,
+  hasNextPage,
+  isFetchingNextPage,
+  fetchNextPage,
+}: ConversationListProps) {
+  return (
+    <ScrollArea className="h-[calc(100vh-340px)]">
+      {isLoading ? (
+        <div className="flex justify-center items-center h-32">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : conversations.length > 0 ? (
+        conversations.map((conversation) => (
+          <ConversationListItem
+            key={conversation.id}
+            conversation={conversation}
+            isActive={activeConversation?.id === conversation.id}
+            onSelect={onSelect}
+          />
+        ))
+      ) : (
+        empty
+      )}
+      {hasNextPage && fetchNextPage && (
+        <div className="p-4 flex justify-center">
+          <Button 
+            variant="outline" 
+            size="sm" 
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+          >
+            {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Load older conversations
+          </Button>
+        </div>
+      )}
+    </ScrollArea>
+  );
 }
 
 export default function MessagesPage() {
   const { user } = useAuth();
   const { onlineUsers } = useWebSocket();
-  const [activeConversation, setActiveConversation] = useState<Conversation | null>(null);
+  const [activeConversation, setActiveConversation] = useState<ConversationSummary | null>(null);
   const [isMobileView, setIsMobileView] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
 
@@ -78,37 +95,9 @@ export default function MessagesPage() {
     };
   }, []);
 
-  // Fetch conversations
-  const { data: conversations, isLoading: isLoadingConversations } = useQuery<Conversation[]>({
-    queryKey: ["/api/messages"],
-    enabled: !!user,
-    refetchInterval: 10000, // Refresh every 10 seconds as fallback
-  });
-
-  // Format date for conversation list
-  const formatConversationDate = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    
-    // If today, show time
-    if (date.toDateString() === now.toDateString()) {
-      return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-    }
-    
-    // If this week, show day
-    const daysDiff = Math.floor((now.getTime() - date.getTime()) / (1000 * 60 * 60 * 24));
-    if (daysDiff < 7) {
-      return date.toLocaleDateString([], { weekday: 'short' });
-    }
-    
-    // Otherwise show date
-    return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
-  };
-
-  const truncateText = (text: string, maxLength: number) => {
-    if (text.length <= maxLength) return text;
-    return text.substring(0, maxLength) + '...';
-  };
+  // Fetch conversations, most recent first, one page at a time
+  const inbox = useConversations();
+  const archive = useConversations(true);
 
   return (
     <div className="flex flex-col min-h-screen">
@@ -135,65 +124,20 @@ export default function MessagesPage() {
                   <TabsList className="w-full">
                     <TabsTrigger value="all" className="flex-1">All</TabsTrigger>
                     <TabsTrigger value="unread" className="flex-1">Unread</TabsTrigger>
+                    <TabsTrigger value="archived" className="flex-1">Archived</TabsTrigger>
                   </TabsList>
                 </div>
                 
                 <TabsContent value="all" className="m-0">
-                  <ScrollArea className="h-[calc(100vh-340px)]">
-                    {isLoadingConversations ? (
-                      <div className="flex justify-center items-center h-32">
-                        <Loader2 className="h-8 w-8 animate-spin text-primary" />
-                      </div>
-                    ) : conversations && conversations.length > 0 ? (
-                      conversations.map((conversation) => (
-                        <div 
-                          key={`${conversation.otherUser.id}-${conversation.listing.id}`}
-                          className={`p-4 border-b cursor-pointer hover:bg-gray-50 transition-colors ${
-                            activeConversation && 
-                            activeConversation.otherUser.id === conversation.otherUser.id && 
-                            activeConversation.listing.id === conversation.listing.id
-                              ? 'bg-gray-100'
-                              : ''
-                          }`}
-                          onClick={() => setActiveConversation(conversation)}
-                        >
-                          <div className="flex items-start gap-3">
-                            <Avatar className="h-10 w-10">
-                              <AvatarImage src="" alt={conversation.otherUser.username} />
-                              <AvatarFallback>
-                                {conversation.otherUser.username.substring(0, 2).toUpperCase()}
-                              </AvatarFallback>
-                            </Avatar>
-                            
-                            <div className="flex-1 min-w-0">
-                              <div className="flex justify-between items-start">
-                                <h3 className="font-medium truncate">{conversation.otherUser.username}</h3>
-                                <span className="text-xs text-gray-500 whitespace-nowrap">
-                                  {formatConversationDate(conversation.lastMessage.createdAt)}
-                                </span>
-                              </div>
-                              
-                              <p className="text-sm text-gray-600 truncate">
-                                {conversation.lastMessage.senderId === user?.id ? 'You: ' : ''}
-                                {truncateText(conversation.lastMessage.content, 30)}
-                              </p>
-                              
-                              <div className="flex items-center mt-1">
-                                <p className="text-xs text-gray-500 truncate mr-2">
-                                  {truncateText(conversation.listing.title, 20)}
-                                </p>
-                                
-                                {conversation.unreadCount > 0 && (
-                                  <Badge className="ml-auto bg-primary text-white">
-                                    {conversation.unreadCount}
-                                  </Badge>
-                                )}
-                              </div>
-                            </div>
-                          </div>
-                        </div>
-                      ))
-                    ) : (
+                  <ConversationList
+                    conversations={inbox.conversations}
+                    isLoading={inbox.isLoading}
+                    activeConversation={activeConversation}
+                    onSelect={setActiveConversation}
+                    hasNextPage={inbox.hasNextPage}
+                    isFetchingNextPage={inbox.isFetchingNextPage}
+                    fetchNextPage={inbox.fetchNextPage}
+                    empty={
                       <div className="p-8 text-center text-gray-500">
                         <p>No messages yet</p>
                         <p className="text-sm">Start browsing listings to connect with sellers</p>
@@ -201,70 +145,40 @@ export default function MessagesPage() {
                           <Button className="mt-4">Browse Listings</Button>
                         </Link>
                       </div>
-                    )}
-                  </ScrollArea>
+                    }
+                  />
                 </TabsContent>
                 
                 <TabsContent value="unread" className="m-0">
-                  <ScrollArea className="h-[calc(100vh-340px)]">
-                    {isLoadingConversations ? (
-                      <div className="flex justify-center items-center h-32">
-                        <Loader2 className="h-8 w-8 animate-spin text-primary" />
-                      </div>
-                    ) : conversations && conversations.filter(c => c.unreadCount > 0).length > 0 ? (
-                      conversations
-                        .filter(conversation => conversation.unreadCount > 0)
-                        .map((conversation) => (
-                          <div 
-                            key={`unread-${conversation.otherUser.id}-${conversation.listing.id}`}
-                            className={`p-4 border-b cursor-pointer hover:bg-gray-50 transition-colors ${
-                              activeConversation && 
-                              activeConversation.otherUser.id === conversation.otherUser.id && 
-                              activeConversation.listing.id === conversation.listing.id
-                                ? 'bg-gray-100'
-                                : ''
-                            }`}
-                            onClick={() => setActiveConversation(conversation)}
-                          >
-                            <div className="flex items-start gap-3">
-                              <Avatar className="h-10 w-10">
-                                <AvatarImage src="" alt={conversation.otherUser.username} />
-                                <AvatarFallback>
-                                  {conversation.otherUser.username.substring(0, 2).toUpperCase()}
-                                </AvatarFallback>
-                              </Avatar>
-                              
-                              <div className="flex-1 min-w-0">
-                                <div className="flex justify-between items-start">
-                                  <h3 className="font-medium truncate">{conversation.otherUser.username}</h3>
-                                  <span className="text-xs text-gray-500 whitespace-nowrap">
-                                    {formatConversationDate(conversation.lastMessage.createdAt)}
-                                  </span>
-                                </div>
-                                
-                                <p className="text-sm text-gray-600 truncate font-medium">
-                                  {truncateText(conversation.lastMessage.content, 30)}
-                                </p>
-                                
-                                <div className="flex items-center mt-1">
-                                  <p className="text-xs text-gray-500 truncate mr-2">
-                                    {truncateText(conversation.listing.title, 20)}
-                                  </p>
-                                  
-                                  <Badge className="ml-auto bg-primary text-white">
-                                    {conversation.unreadCount}
-                                  </Badge>
-                                </div>
-                              </div>
-                            </div>
-                          </div>
-                        ))
-                    ) : (
+                  <ConversationList
+                    conversations={inbox.conversations.filter(conversation => conversation.unreadCount > 0)}
+                    isLoading={inbox.isLoading}
+                    activeConversation={activeConversation}
+                    onSelect={setActiveConversation}
+                    empty={
                       <div className="p-8 text-center text-gray-500">
                         <p>No unread messages</p>
                       </div>
-                    )}
-                  </ScrollArea>
+                    }
+                  />
+                </TabsContent>
+                
+                <TabsContent value="archived" className="m-0">
+                  <ConversationList
+                    conversations={archive.conversations}
+                    isLoading={archive.isLoading}
+                    activeConversation={activeConversation}
+                    onSelect={setActiveConversation}
+                    hasNextPage={archive.hasNextPage}
+                    isFetchingNextPage={archive.isFetchingNextPage}
+                    fetchNextPage={archive.fetchNextPage}
+                    empty={
+                      <div className="p-8 text-center text-gray-500">
+                        <p>No archived conversations</p>
+                        <p className="text-sm">Archived conversations come back to your inbox when a new message arrives</p>
+                      </div>
+                    }
+                  />
                 </TabsContent>
               </Tabs>
             </div>
@@ -290,6 +204,7 @@ export default function MessagesPage() {
                   otherUser={activeConversation.otherUser}
                   listingId={activeConversation.listing.id}
                   listingTitle={activeConversation.listing.title}
+                  listingOwnerId={activeConversation.listing.userId}
                   onBack={() => setActiveConversation(null)} 
                 />
               ) : (
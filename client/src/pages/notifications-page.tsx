@@ -0,0 +1,85 @@
+import { Link } from "wouter";
+import { Loader2, Settings } from "lucide-react";
+import Header from "@/components/layout/header";
+import MobileNav from "@/components/layout/mobile-nav";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { NotificationItem } from "@/components/notifications/notification-item";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
+import { useMarkAllNotificationsRead, useNotifications } from "@/hooks/use-notifications";
+
+export default function NotificationsPage() {
+  const {
+    notifications,
+    unreadCount,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useNotifications();
+  const markAllRead = useMarkAllNotificationsRead();
+  const sentinelRef = useInfiniteScroll({ hasNextPage, isFetchingNextPage, fetchNextPage });
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header />
+      <main className="flex-1 pb-16 sm:pb-0">
+        <div className="max-w-2xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center mb-6">
+            <h1 className="text-2xl font-bold">Notifications</h1>
+            <div className="flex items-center gap-2">
+              {unreadCount > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => markAllRead.mutate()}
+                  disabled={markAllRead.isPending}
+                >
+                  Mark all as read
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" asChild>
+                <Link href="/settings" aria-label="Notification settings">
+                  <Settings className="h-4 w-4" />
+                </Link>
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center items-center h-64">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : error ? (
+            <Card>
+              <CardContent className="p-6 text-center">
+                <p className="text-red-500">Error loading notifications. Please try again later.</p>
+              </CardContent>
+            </Card>
+          ) : notifications.length === 0 ? (
+            <Card>
+              <CardContent className="p-6 text-center text-gray-500">
+                You're all caught up. Messages, offers and updates on listings you follow will show up here.
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="p-2">
+                {notifications.map((notification) => (
+                  <NotificationItem key={notification.id} notification={notification} className="py-3" />
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Sentinel that loads the next page when scrolled into view */}
+          <div ref={sentinelRef} className="flex justify-center py-6">
+            {isFetchingNextPage && <Loader2 className="h-6 w-6 animate-spin text-primary" />}
+          </div>
+        </div>
+      </main>
+      <MobileNav />
+    </div>
+  );
+}
@@ -23,11 +23,16 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
-import { Listing } from "@shared/schema";
+import { Listing, Review, Transaction, UserRating } from "@shared/schema";
 import ListingCard from "@/components/listings/listing-card";
+import { ListingStatusBadge } from "@/components/listings/listing-status-badge";
+import { ReviewDialog } from "@/components/reviews/review-dialog";
+import { Stars, StarRating } from "@/components/reviews/star-rating";
 import { CreateListingModal } from "@/components/listings/create-listing-modal";
 import { useModal } from "@/hooks/use-modal";
-import { LogOut, Mail, MapPin, Plus, School, User } from "lucide-react";
+import { describeSavedSearch, getSavedSearchUrl, useSavedSearches } from "@/hooks/use-saved-searches";
+import { Switch } from "@/components/ui/switch";
+import { Bookmark, LogOut, Mail, MapPin, Plus, School, User } from "lucide-react";
 import { Link } from "wouter";
 
 export default function ProfilePage() {
@@ -35,6 +40,8 @@ export default function ProfilePage() {
   const { toast } = useToast();
   const { isOpen, openModal, closeModal } = useModal();
   const [isDeleting, setIsDeleting] = useState<number | null>(null);
+  const [reviewing, setReviewing] = useState<TransactionHistoryItem | null>(null);
+  const [editingDraft, setEditingDraft] = useState<Listing | null>(null);
 
   // Fetch user's listings
   const {
@@ -48,6 +55,37 @@ export default function ProfilePage() {
     select: (data) => data.listings,
   });
 
+  // Fetch the user's aggregated rating from the same profile response
+  const { data: rating } = useQuery<{ rating: UserRating }, Error, UserRating>({
+    queryKey: [`/api/users/${user?.id}`],
+    enabled: !!user,
+    select: (data) => data.rating,
+  });
+
+  // Fetch reviews other students have left for the user
+  const { data: reviews } = useQuery<ReceivedReview[]>({
+    queryKey: [`/api/users/${user?.id}/reviews`],
+    enabled: !!user,
+  });
+
+  // Fetch the user's unpublished drafts
+  const { data: drafts } = useQuery<Listing[]>({
+    queryKey: ["/api/drafts"],
+    enabled: !!user,
+  });
+
+  // Fetch the user's saved searches
+  const { data: savedSearches } = useSavedSearches();
+
+  // Fetch the user's completed sales and purchases
+  const { data: transactions } = useQuery<TransactionHistoryItem[]>({
+    queryKey: ["/api/transactions"],
+    enabled: !!user,
+  });
+
+  const activeListingCount = listings?.filter((listing) => listing.status === "active").length || 0;
+  const sales = transactions?.filter((transaction) => transaction.role === "seller") || [];
+
   // Delete listing mutation
   const deleteListingMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -60,6 +98,7 @@ export default function ProfilePage() {
         description: "Your listing has been successfully deleted",
       });
       refetchListings();
+      queryClient.invalidateQueries({ queryKey: ["/api/drafts"] });
     },
     onError: (error) => {
       toast({
@@ -73,6 +112,38 @@ export default function ProfilePage() {
     },
   });
 
+  const updateSavedSearchMutation = useMutation({
+    mutationFn: async ({ id, emailAlerts }: { id: number; emailAlerts: boolean }) => {
+      await apiRequest("PATCH", `/api/saved-searches/${id}`, { emailAlerts });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update saved search",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteSavedSearchMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/saved-searches/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete saved search",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleLogout = async () => {
     try {
       await logoutMutation.mutateAsync();
@@ -149,6 +220,7 @@ export default function ProfilePage() {
                 </div>
                 <CardTitle className="text-2xl">{user.username}</CardTitle>
                 <CardDescription>Member since {formatDate(user.createdAt)}</CardDescription>
+                <StarRating rating={rating} className="justify-center" />
               </CardHeader>
               
               <CardContent className="space-y-4">
@@ -197,7 +269,12 @@ export default function ProfilePage() {
                 <div className="flex justify-between items-center mb-4">
                   <TabsList>
                     <TabsTrigger value="listings">My Listings</TabsTrigger>
+                    <TabsTrigger value="drafts">
+                      Drafts{drafts && drafts.length > 0 ? ` (${drafts.length})` : ""}
+                    </TabsTrigger>
+                    <TabsTrigger value="searches">Saved Searches</TabsTrigger>
                     <TabsTrigger value="stats">Stats</TabsTrigger>
+                    <TabsTrigger value="reviews">Reviews</TabsTrigger>
                   </TabsList>
                   
                   <Button onClick={openModal} className="bg-primary hover:bg-primary/90 text-white">
@@ -252,15 +329,10 @@ export default function ProfilePage() {
                               alt={listing.title} 
                               className="w-full h-full object-cover"
                             />
-                            <Badge 
-                              className={`absolute top-2 right-2 ${
-                                listing.status === "active" 
-                                  ? "bg-green-500" 
-                                  : "bg-gray-500"
-                              }`}
-                            >
-                              {listing.status === "active" ? "Active" : "Inactive"}
-                            </Badge>
+                            <ListingStatusBadge
+                              status={listing.status}
+                              className="absolute top-2 right-2"
+                            />
                           </div>
                           <CardHeader>
                             <CardTitle className="truncate">{listing.title}</CardTitle>
@@ -299,6 +371,126 @@ export default function ProfilePage() {
                   )}
                 </TabsContent>
                 
+                <TabsContent value="drafts">
+                  {!drafts || drafts.length === 0 ? (
+                    <Card>
+                      <CardContent className="p-6 text-center">
+                        <h3 className="text-lg font-medium mb-2">No drafts</h3>
+                        <p className="text-gray-500">
+                          Listings you start are saved here until you publish them
+                        </p>
+                      </CardContent>
+                    </Card>
+                  ) : (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                      {drafts.map((draft) => (
+                        <Card key={draft.id} className="overflow-hidden">
+                          <div className="relative aspect-video bg-gray-100">
+                            {draft.images && draft.images.length > 0 && (
+                              <img
+                                src={draft.images[0]}
+                                alt={draft.title}
+                                className="w-full h-full object-cover"
+                              />
+                            )}
+                            <ListingStatusBadge
+                              status={draft.status}
+                              className="absolute top-2 right-2"
+                            />
+                          </div>
+                          <CardHeader>
+                            <CardTitle className="truncate">{draft.title || "Untitled draft"}</CardTitle>
+                            <CardDescription>
+                              Last edited {formatDate(draft.updatedAt ?? undefined)}
+                            </CardDescription>
+                          </CardHeader>
+                          <CardFooter className="flex gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="flex-1"
+                              onClick={() => setEditingDraft(draft)}
+                            >
+                              Continue Editing
+                            </Button>
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              className="flex-1"
+                              onClick={() => handleDeleteListing(draft.id)}
+                              disabled={isDeleting === draft.id}
+                            >
+                              {isDeleting === draft.id ? (
+                                <Skeleton className="h-4 w-4 rounded-full mr-2" />
+                              ) : (
+                                "Delete"
+                              )}
+                            </Button>
+                          </CardFooter>
+                        </Card>
+                      ))}
+                    </div>
+                  )}
+                </TabsContent>
+
+                <TabsContent value="searches">
+                  {!savedSearches || savedSearches.length === 0 ? (
+                    <Card>
+                      <CardContent className="p-6 text-center">
+                        <Bookmark className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+                        <h3 className="text-lg font-medium mb-2">No saved searches</h3>
+                        <p className="text-gray-500 mb-4">
+                          Save your filters from the listings page to hear about new matches
+                        </p>
+                        <Button variant="outline" asChild>
+                          <Link href="/">Browse Listings</Link>
+                        </Button>
+                      </CardContent>
+                    </Card>
+                  ) : (
+                    <div className="space-y-4">
+                      {savedSearches.map((search) => (
+                        <Card key={search.id}>
+                          <CardHeader className="pb-2">
+                            <div className="flex items-start justify-between gap-2">
+                              <CardTitle className="truncate">{search.name}</CardTitle>
+                              {search.newMatchCount > 0 && (
+                                <Badge className="bg-primary text-white shrink-0">
+                                  {search.newMatchCount} new
+                                </Badge>
+                              )}
+                            </div>
+                            <CardDescription>{describeSavedSearch(search.filters)}</CardDescription>
+                          </CardHeader>
+                          <CardFooter className="flex flex-wrap items-center gap-3">
+                            <label className="flex items-center gap-2 text-sm text-gray-600 mr-auto">
+                              <Switch
+                                checked={search.emailAlerts}
+                                disabled={updateSavedSearchMutation.isPending}
+                                onCheckedChange={(emailAlerts) =>
+                                  updateSavedSearchMutation.mutate({ id: search.id, emailAlerts })
+                                }
+                              />
+                              In email digest
+                            </label>
+                            <Button variant="outline" size="sm" asChild>
+                              <Link href={getSavedSearchUrl(search)}>View Results</Link>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={deleteSavedSearchMutation.isPending}
+                              onClick={() => deleteSavedSearchMutation.mutate(search.id)}
+                            >
+                              Delete
+                            </Button>
+                          </CardFooter>
+                        </Card>
+                      ))}
+                    </div>
+                  )}
+                </TabsContent>
+
                 <TabsContent value="stats">
                   <Card>
                     <CardHeader>
@@ -311,12 +503,12 @@ export default function ProfilePage() {
                       <div className="grid grid-cols-2 gap-6">
                         <div className="border rounded-lg p-4 text-center">
                           <p className="text-3xl font-bold text-primary">
-                            {listings?.length || 0}
+                            {activeListingCount}
                           </p>
                           <p className="text-sm text-gray-500">Active Listings</p>
                         </div>
                         <div className="border rounded-lg p-4 text-center">
-                          <p className="text-3xl font-bold text-primary">0</p>
+                          <p className="text-3xl font-bold text-primary">{sales.length}</p>
                           <p className="text-sm text-gray-500">Completed Sales</p>
                         </div>
                         <div className="border rounded-lg p-4 text-center">
@@ -337,6 +529,71 @@ export default function ProfilePage() {
                           <p className="text-sm text-gray-500">Account Verified</p>
                         </div>
                       </div>
+
+                      <h3 className="text-lg font-medium mt-8 mb-4">Completed Transactions</h3>
+                      {!transactions || transactions.length === 0 ? (
+                        <p className="text-sm text-gray-500">No completed sales or purchases yet</p>
+                      ) : (
+                        <div className="divide-y border rounded-lg">
+                          {transactions.map((transaction) => (
+                            <div key={transaction.id} className="flex items-center justify-between p-4">
+                              <div>
+                                <Link href={`/listings/${transaction.listingId}`} className="font-medium hover:underline">
+                                  {transaction.listing?.title || "Deleted listing"}
+                                </Link>
+                                <p className="text-sm text-gray-500">
+                                  {transaction.role === "seller" ? "Sold to" : "Bought from"}{" "}
+                                  {transaction.otherUser?.username || "unknown user"} on{" "}
+                                  {formatDate(transaction.completedAt ?? undefined)}
+                                </p>
+                              </div>
+                              <div className="flex items-center gap-3">
+                                <p className="font-semibold text-primary">${transaction.price}</p>
+                                {!transaction.reviewed && (
+                                  <Button variant="outline" size="sm" onClick={() => setReviewing(transaction)}>
+                                    Leave a Review
+                                  </Button>
+                                )}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+                
+                <TabsContent value="reviews">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Reviews</CardTitle>
+                      <CardDescription>
+                        What other students say about swapping with you
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {!reviews || reviews.length === 0 ? (
+                        <p className="text-sm text-gray-500">No reviews yet</p>
+                      ) : (
+                        <div className="divide-y">
+                          {reviews.map((review) => (
+                            <div key={review.id} className="py-4 space-y-1">
+                              <div className="flex items-center justify-between">
+                                <span className="font-medium">
+                                  {review.reviewer?.username || "Unknown user"}
+                                </span>
+                                <span className="text-sm text-gray-500">
+                                  {formatDate(review.createdAt ?? undefined)}
+                                </span>
+                              </div>
+                              <Stars value={review.rating} />
+                              {review.comment && (
+                                <p className="text-gray-700 whitespace-pre-line">{review.comment}</p>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 </TabsContent>
@@ -347,6 +604,32 @@ export default function ProfilePage() {
       </main>
       <MobileNav />
       <CreateListingModal isOpen={isOpen} onClose={closeModal} />
+      {editingDraft && (
+        <CreateListingModal
+          isOpen={!!editingDraft}
+          onClose={() => setEditingDraft(null)}
+          listing={editingDraft}
+        />
+      )}
+      {reviewing && (
+        <ReviewDialog
+          transactionId={reviewing.id}
+          revieweeName={reviewing.otherUser?.username || "the other student"}
+          isOpen={!!reviewing}
+          onClose={() => setReviewing(null)}
+        />
+      )}
     </div>
   );
 }
+
+interface TransactionHistoryItem extends Transaction {
+  role: "seller" | "buyer";
+  reviewed: boolean;
+  listing?: Pick<Listing, "id" | "title" | "images">;
+  otherUser?: { id: number; username: string };
+}
+
+interface ReceivedReview extends Review {
+  reviewer?: { id: number; username: string };
+}
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import {
+  DigestFrequency,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationType,
+  notificationTypes,
+} from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import Header from "@/components/layout/header";
+import MobileNav from "@/components/layout/mobile-nav";
+import { PushSettingsCard } from "@/components/notifications/push-settings-card";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const notificationTypeLabels: Record<NotificationType, { label: string; description: string }> = {
+  message: { label: "Messages", description: "Someone sends you a message" },
+  offer: { label: "Offers", description: "Offers made, countered, accepted or declined" },
+  review: { label: "Reviews", description: "Someone reviews you after a sale" },
+  favorite_sold: { label: "Favorites sold", description: "A listing you saved is sold" },
+  favorite_update: { label: "Favorite updates", description: "Price drops and other changes to listings you saved" },
+  saved_search_match: { label: "Saved search matches", description: "A new listing matches one of your saved searches" },
+  listing_expiring: { label: "Listing expiring", description: "One of your listings expires in a few days" },
+  listing_expired: { label: "Listing expired", description: "One of your listings has expired" },
+  meetup: { label: "Meetups", description: "Meetup times accepted, declined or cancelled, and reminders an hour before" },
+};
+
+const channelLabels: Record<NotificationChannel, string> = {
+  in_app: "In app",
+  email: "In app and email",
+  none: "Off",
+};
+
+const digestFrequencyLabels: Record<DigestFrequency, string> = {
+  never: "Never",
+  daily: "Daily",
+  weekly: "Weekly",
+};
+
+// Used when quiet hours are first switched on
+const DEFAULT_QUIET_HOURS = { start: "22:00", end: "08:00" };
+
+export default function SettingsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: preferences, isLoading } = useQuery<NotificationPreferences>({
+    queryKey: ["/api/notification-preferences"],
+    enabled: !!user,
+  });
+
+  const [channels, setChannels] = useState<NotificationPreferences["channels"]>({});
+  const [quietHours, setQuietHours] = useState<{ start: string; end: string } | null>(null);
+  const [digestFrequency, setDigestFrequency] = useState<DigestFrequency>("daily");
+
+  useEffect(() => {
+    if (preferences) {
+      setChannels(preferences.channels);
+      setQuietHours(
+        preferences.quietHoursStart && preferences.quietHoursEnd
+          ? { start: preferences.quietHoursStart, end: preferences.quietHoursEnd }
+          : null
+      );
+      setDigestFrequency(preferences.digestFrequency as DigestFrequency);
+    }
+  }, [preferences]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PATCH", "/api/notification-preferences", {
+        channels,
+        quietHoursStart: quietHours?.start ?? null,
+        quietHoursEnd: quietHours?.end ?? null,
+        digestFrequency,
+      });
+      return await res.json() as NotificationPreferences;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/notification-preferences"], saved);
+      toast({
+        title: "Settings saved",
+        description: "Your notification preferences have been updated",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save settings",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header />
+      <main className="flex-1 pb-16 sm:pb-0">
+        <div className="max-w-2xl mx-auto px-4 py-8 sm:px-6 lg:px-8 space-y-6">
+          <h1 className="text-2xl font-bold">Notification Settings</h1>
+
+          {isLoading || !preferences ? (
+            <div className="flex justify-center items-center h-64">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Notifications</CardTitle>
+                  <CardDescription>Choose how you hear about each kind of event</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {notificationTypes.map((type) => (
+                    <div key={type} className="flex items-center justify-between gap-4">
+                      <div>
+                        <p className="font-medium text-sm">{notificationTypeLabels[type].label}</p>
+                        <p className="text-sm text-gray-500">{notificationTypeLabels[type].description}</p>
+                      </div>
+                      <Select
+                        value={channels[type] ?? "in_app"}
+                        onValueChange={(channel) =>
+                          setChannels((current) => ({ ...current, [type]: channel as NotificationChannel }))
+                        }
+                      >
+                        <SelectTrigger className="w-44 shrink-0" aria-label={notificationTypeLabels[type].label}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(channelLabels).map(([channel, label]) => (
+                            <SelectItem key={channel} value={channel}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              <PushSettingsCard />
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Quiet hours</CardTitle>
+                  <CardDescription>
+                    Notifications still collect in the app, but nothing pops up or lands in your inbox.
+                    Times are in your campus's time zone.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <label className="flex items-center gap-2 text-sm">
+                    <Switch
+                      checked={quietHours !== null}
+                      onCheckedChange={(enabled) => setQuietHours(enabled ? DEFAULT_QUIET_HOURS : null)}
+                    />
+                    Pause notifications overnight
+                  </label>
+                  {quietHours && (
+                    <div className="flex items-center gap-4">
+                      <div className="space-y-1">
+                        <Label htmlFor="quiet-hours-start">From</Label>
+                        <Input
+                          id="quiet-hours-start"
+                          type="time"
+                          value={quietHours.start}
+                          onChange={(e) => setQuietHours({ ...quietHours, start: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="quiet-hours-end">Until</Label>
+                        <Input
+                          id="quiet-hours-end"
+                          type="time"
+                          value={quietHours.end}
+                          onChange={(e) => setQuietHours({ ...quietHours, end: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Email digest</CardTitle>
+                  <CardDescription>
+                    A single email with your unread messages and new matches for saved searches that have
+                    email digests turned on
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Select
+                    value={digestFrequency}
+                    onValueChange={(frequency) => setDigestFrequency(frequency as DigestFrequency)}
+                  >
+                    <SelectTrigger className="w-44" aria-label="Digest frequency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(digestFrequencyLabels).map(([frequency, label]) => (
+                        <SelectItem key={frequency} value={frequency}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </CardContent>
+              </Card>
+
+              <div className="flex justify-end">
+                <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                  {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Settings
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+      <MobileNav />
+    </div>
+  );
+}
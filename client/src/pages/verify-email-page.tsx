@@ -0,0 +1,67 @@
+import { useEffect } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+
+export default function VerifyEmailPage() {
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("GET", `/api/verify-email?token=${encodeURIComponent(token)}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+  });
+
+  // Verify once when the page is opened from the email link
+  useEffect(() => {
+    verifyMutation.mutate();
+  }, [token]);
+
+  // Errors come back as "400: {json}"; show the server's message when there is one
+  const getErrorMessage = (error: Error) => {
+    try {
+      return JSON.parse(error.message.replace(/^\d+: /, "")).error;
+    } catch {
+      return error.message;
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6 text-center space-y-4">
+          {verifyMutation.isError ? (
+            <>
+              <AlertCircle className="h-12 w-12 mx-auto text-red-500" />
+              <h1 className="text-2xl font-bold text-gray-900">Verification failed</h1>
+              <p className="text-sm text-gray-600">{getErrorMessage(verifyMutation.error)}</p>
+            </>
+          ) : verifyMutation.isSuccess ? (
+            <>
+              <CheckCircle2 className="h-12 w-12 mx-auto text-green-500" />
+              <h1 className="text-2xl font-bold text-gray-900">Email verified</h1>
+              <p className="text-sm text-gray-600">
+                You can now create listings and message other students.
+              </p>
+            </>
+          ) : (
+            <>
+              <Loader2 className="h-12 w-12 mx-auto animate-spin text-primary" />
+              <h1 className="text-2xl font-bold text-gray-900">Verifying your email...</h1>
+            </>
+          )}
+          <Link href="/">
+            <Button className="w-full">Go to marketplace</Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
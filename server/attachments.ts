@@ -0,0 +1,159 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import multer from "multer";
+import { storage, ConversationError } from "./storage";
+import { sniffAttachmentType, storeAttachment, UnsupportedUploadError } from "./uploads";
+import { isVerifiedUser, VERIFICATION_REQUIRED_ERROR } from "./verification";
+import { CROSS_CAMPUS_MESSAGING_ERROR, isCrossCampusMessagingAllowed } from "./universities";
+import {
+  MAX_CONVERSATION_ATTACHMENT_BYTES,
+  MAX_MESSAGE_ATTACHMENTS,
+  MAX_UPLOAD_SIZE,
+  type InsertMessage,
+  type MessageAttachment,
+  type Upload,
+} from "@shared/schema";
+
+// Thrown when a message's attachments can't be sent, or it has nothing to send
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+const UNSUPPORTED_ATTACHMENT_ERROR = "Only images and PDFs can be attached";
+
+const attachmentTargetSchema = z.object({
+  listingId: z.coerce.number().int().positive(),
+  receiverId: z.coerce.number().int().positive(),
+});
+
+function toMessageAttachment(upload: Upload): MessageAttachment {
+  return {
+    uploadId: upload.id,
+    name: upload.name ?? "attachment",
+    contentType: upload.contentType,
+    size: upload.size,
+    width: upload.width,
+    height: upload.height,
+    blurhash: upload.blurhash,
+  };
+}
+
+// Fill in a message's attachments from the uploads sent with it. Only uploads
+// the sender made to the same conversation can be attached, and a message
+// needs text, attachments or both.
+export async function withAttachments(message: InsertMessage, attachmentIds: number[]): Promise<InsertMessage> {
+  if (attachmentIds.length === 0) {
+    if (!message.content.trim()) {
+      throw new AttachmentError("Message can't be empty");
+    }
+    return { ...message, kind: "text", attachments: [] };
+  }
+
+  const conversation = message.listingId && message.senderId && message.receiverId
+    ? await storage.getConversationBetween(message.listingId, message.senderId, message.receiverId)
+    : undefined;
+  const ids = Array.from(new Set(attachmentIds));
+  const uploads = await storage.getUploads(ids);
+  if (
+    !conversation ||
+    uploads.length !== ids.length ||
+    uploads.some(upload => upload.userId !== message.senderId || upload.conversationId !== conversation.id)
+  ) {
+    throw new AttachmentError("Attachments must be uploaded to this conversation first");
+  }
+
+  // Keep the order the sender attached them in
+  const attachments = ids.flatMap(id => uploads.filter(upload => upload.id === id)).map(toMessageAttachment);
+  return { ...message, kind: "attachment", attachments };
+}
+
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_UPLOAD_SIZE,
+    files: MAX_MESSAGE_ATTACHMENTS,
+  },
+});
+
+// Parse a multipart body with up to MAX_MESSAGE_ATTACHMENTS files in the "files" field
+function parseAttachments(req: Request, res: Response): Promise<Express.Multer.File[]> {
+  return new Promise((resolve, reject) => {
+    attachmentUpload.array("files", MAX_MESSAGE_ATTACHMENTS)(req, res, (error?: unknown) => {
+      if (error) reject(error);
+      else resolve((req.files as Express.Multer.File[] | undefined) ?? []);
+    });
+  });
+}
+
+export function setupAttachmentRoutes(app: Express) {
+  // Upload files to send in a conversation, as multipart/form-data with the
+  // listing and the other participant. The files are sent by passing the
+  // returned upload ids as a message's attachmentIds.
+  app.post("/api/messages/attachments", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      if (!isVerifiedUser(req.user)) {
+        return res.status(403).json({ error: VERIFICATION_REQUIRED_ERROR });
+      }
+
+      const files = await parseAttachments(req, res);
+      const { listingId, receiverId } = attachmentTargetSchema.parse(req.body);
+      if (files.length === 0) {
+        return res.status(400).json({ error: "No files were uploaded" });
+      }
+
+      const listing = await storage.getListing(listingId);
+      if (listing && !(await isCrossCampusMessagingAllowed(req.user, listing))) {
+        return res.status(403).json({ error: CROSS_CAMPUS_MESSAGING_ERROR });
+      }
+
+      // Reject the whole batch before storing anything if one file can't be sent
+      if (files.some(file => !sniffAttachmentType(file.buffer))) {
+        return res.status(415).json({ error: UNSUPPORTED_ATTACHMENT_ERROR });
+      }
+
+      const conversation = await storage.startConversation(listingId, req.user.id, receiverId);
+      const used = await storage.getConversationAttachmentSize(conversation.id);
+      const incoming = files.reduce((total, file) => total + file.size, 0);
+      if (used + incoming > MAX_CONVERSATION_ATTACHMENT_BYTES) {
+        return res.status(413).json({
+          error: `Conversations can hold up to ${MAX_CONVERSATION_ATTACHMENT_BYTES / (1024 * 1024)}MB of attachments`,
+        });
+      }
+
+      const attachments: MessageAttachment[] = [];
+      for (const file of files) {
+        attachments.push(toMessageAttachment(await storeAttachment(req.user.id, conversation.id, file)));
+      }
+
+      res.status(201).json(attachments);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof ConversationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof UnsupportedUploadError) {
+        return res.status(415).json({ error: UNSUPPORTED_ATTACHMENT_ERROR });
+      }
+      if (error instanceof multer.MulterError) {
+        if (error.code === "LIMIT_FILE_SIZE") {
+          return res.status(413).json({ error: `Files must be ${MAX_UPLOAD_SIZE / (1024 * 1024)}MB or smaller` });
+        }
+        if (error.code === "LIMIT_FILE_COUNT" || error.code === "LIMIT_UNEXPECTED_FILE") {
+          return res.status(400).json({ error: `You can send up to ${MAX_MESSAGE_ATTACHMENTS} files at a time` });
+        }
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error uploading attachments:", error);
+      res.status(500).json({ error: "Failed to upload attachments" });
+    }
+  });
+}
@@ -1,16 +1,19 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User, InsertUser, insertUserSchema } from "@shared/schema";
+import { User as SelectUser, InsertUser, insertUserSchema } from "@shared/schema";
 import { z } from "zod";
+import { sendVerificationEmail, setupVerificationRoutes } from "./verification";
+import { resolveUniversityByEmail } from "./universities";
+import { getWebSocketServer } from "./websocket";
 
 declare global {
   namespace Express {
-    interface User extends User {}
+    interface User extends SelectUser {}
   }
 }
 
@@ -29,7 +32,8 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+// Returns the session middleware so the WebSocket server can authenticate upgrades
+export function setupAuth(app: Express): RequestHandler {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "college-furniture-marketplace-secret",
     resave: false,
@@ -40,8 +44,10 @@ export function setupAuth(app: Express) {
     }
   };
 
+  const sessionMiddleware = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -106,10 +112,13 @@ export function setupAuth(app: Express) {
         return res.status(400).json({ error: "Invalid email address" });
       }
       
-      // Check if email looks like a university email
+      // Check the email belongs to a university in the directory
       const email = req.body.email.toLowerCase();
-      if (!email.endsWith('.edu') && !email.includes('university') && !email.includes('college')) {
-        return res.status(400).json({ error: "Please use a university email address" });
+      const university = await resolveUniversityByEmail(email);
+      if (!university) {
+        return res.status(400).json({
+          error: `${email.split('@')[1]} is not a recognised university email domain. Please use your university email address.`
+        });
       }
       
       // Check if username already exists
@@ -124,18 +133,6 @@ export function setupAuth(app: Express) {
         return res.status(400).json({ error: "Email already exists" });
       }
       
-      // Extract university domain from email
-      const emailParts = email.split('@');
-      let university = "Unknown University";
-      
-      if (emailParts.length > 1) {
-        const domain = emailParts[1];
-        const domainParts = domain.split('.');
-        if (domainParts.length > 0) {
-          university = domainParts[0].charAt(0).toUpperCase() + domainParts[0].slice(1) + " University";
-        }
-      }
-      
       // Create hashed password
       const hashedPassword = await hashPassword(req.body.password);
       
@@ -144,12 +141,20 @@ export function setupAuth(app: Express) {
         username: req.body.username,
         email: email,
         password: hashedPassword,
-        university: university
+        university: university.name,
+        universityId: university.id
       };
       
       const userSchema = insertUserSchema.parse(userData);
       const user = await storage.createUser(userSchema);
       
+      // A failed email shouldn't fail registration; the user can ask for a resend
+      try {
+        await sendVerificationEmail(user);
+      } catch (mailError) {
+        console.error("Failed to send verification email:", mailError);
+      }
+      
       // Log in the user after registration
       req.login(user, (err) => {
         if (err) return next(err);
@@ -203,9 +208,16 @@ export function setupAuth(app: Express) {
 
   // Logout endpoint
   app.post("/api/logout", (req, res, next) => {
+    const sessionId = req.sessionID;
     req.logout((err) => {
       if (err) return next(err);
-      res.status(200).json({ message: "Logged out successfully" });
+      req.session.destroy((err) => {
+        if (err) return next(err);
+        // Sockets authenticated with the old session must not outlive it
+        getWebSocketServer()?.closeSession(sessionId);
+        res.clearCookie("connect.sid");
+        res.status(200).json({ message: "Logged out successfully" });
+      });
     });
   });
 
@@ -219,4 +231,9 @@ export function setupAuth(app: Express) {
     const { password, ...safeUser } = req.user;
     res.json(safeUser);
   });
+
+  // Email verification endpoints
+  setupVerificationRoutes(app);
+
+  return sessionMiddleware;
 }
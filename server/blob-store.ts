@@ -0,0 +1,115 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { DeleteObjectCommand, GetObjectCommand, NoSuchKey, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+
+// Where uploaded file contents are kept, addressed by key like S3 objects;
+// swap implementations with setBlobStore
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Undefined if nothing is stored under the key
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+// Stores blobs as files under a directory, for development and single-server deployments
+export class LocalBlobStore implements BlobStore {
+  constructor(private directory: string) {}
+
+  // Keys are generated by the server, but never let one escape the directory
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.directory, key);
+    if (!filePath.startsWith(path.resolve(this.directory) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+// Stores blobs in an S3 bucket or any S3-compatible service (MinIO, R2, ...)
+export class S3BlobStore implements BlobStore {
+  private client: S3Client;
+
+  constructor(private bucket: string, endpoint?: string) {
+    // Credentials and region come from the standard AWS environment variables
+    this.client = new S3Client({
+      endpoint,
+      forcePathStyle: endpoint !== undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      if (!result.Body) {
+        return undefined;
+      }
+      return Buffer.from(await result.Body.transformToByteArray());
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+// Pick a store from the environment: BLOB_STORE=s3|local
+function createBlobStore(): BlobStore {
+  switch (process.env.BLOB_STORE) {
+    case "s3":
+      if (!process.env.S3_BUCKET) {
+        throw new Error("S3_BUCKET environment variable is not defined");
+      }
+      return new S3BlobStore(process.env.S3_BUCKET, process.env.S3_ENDPOINT);
+    case "local":
+    default:
+      return new LocalBlobStore(process.env.UPLOAD_DIR || path.resolve("uploads"));
+  }
+}
+
+let blobStore: BlobStore | null = null;
+
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    blobStore = createBlobStore();
+  }
+  return blobStore;
+}
+
+export function setBlobStore(store: BlobStore) {
+  blobStore = store;
+}
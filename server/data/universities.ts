@@ -0,0 +1,270 @@
+import type { InsertUniversity } from "@shared/schema";
+
+// Universities students can register with. Seeded into the universities table
+// on startup; entries are matched by name, so edits here update existing rows.
+// Meetup spots are staffed public places recommended for handoffs.
+export const universitySeed: InsertUniversity[] = [
+  {
+    name: "Massachusetts Institute of Technology",
+    domains: ["mit.edu"],
+    campusLocations: [
+      { name: "Stratton Student Center", latitude: 42.3591, longitude: -71.0947 },
+      { name: "Hayden Library", latitude: 42.3592, longitude: -71.0893 },
+    ],
+    meetupSpots: [
+      { id: "mit-hayden-library", name: "Hayden Library lobby", kind: "library", latitude: 42.3592, longitude: -71.0893 },
+      { id: "mit-stratton-student-center", name: "Stratton Student Center info desk", kind: "student_center", latitude: 42.3591, longitude: -71.0947 },
+      { id: "mit-police", name: "MIT Police, 301 Vassar St", kind: "police", latitude: 42.3563, longitude: -71.1021 },
+    ],
+    timezone: "America/New_York",
+  },
+  {
+    name: "Harvard University",
+    domains: ["harvard.edu"],
+    campusLocations: [
+      { name: "Harvard Yard", latitude: 42.3745, longitude: -71.1171 },
+      { name: "Smith Campus Center", latitude: 42.3731, longitude: -71.1183 },
+    ],
+    meetupSpots: [
+      { id: "harvard-widener-library", name: "Widener Library entrance", kind: "library", latitude: 42.3735, longitude: -71.1166 },
+      { id: "harvard-smith-campus-center", name: "Smith Campus Center lobby", kind: "student_center", latitude: 42.3731, longitude: -71.1183 },
+      { id: "harvard-police", name: "Harvard University Police, 1033 Mass Ave", kind: "police", latitude: 42.3710, longitude: -71.1137 },
+    ],
+    timezone: "America/New_York",
+  },
+  {
+    name: "Boston University",
+    domains: ["bu.edu"],
+    campusLocations: [
+      { name: "George Sherman Union", latitude: 42.3509, longitude: -71.1087 },
+    ],
+    meetupSpots: [
+      { id: "bu-mugar-library", name: "Mugar Memorial Library lobby", kind: "library", latitude: 42.3510, longitude: -71.1080 },
+      { id: "bu-george-sherman-union", name: "George Sherman Union lobby", kind: "student_center", latitude: 42.3509, longitude: -71.1087 },
+      { id: "bu-police", name: "BU Police, 32 Harry Agganis Way", kind: "police", latitude: 42.3527, longitude: -71.1175 },
+    ],
+    timezone: "America/New_York",
+  },
+  {
+    name: "Columbia University",
+    domains: ["columbia.edu", "barnard.edu"],
+    campusLocations: [
+      { name: "Lerner Hall", latitude: 40.8069, longitude: -73.9639 },
+      { name: "Butler Library", latitude: 40.8064, longitude: -73.9631 },
+    ],
+    meetupSpots: [
+      { id: "columbia-butler-library", name: "Butler Library lobby", kind: "library", latitude: 40.8064, longitude: -73.9631 },
+      { id: "columbia-lerner-hall", name: "Lerner Hall lobby", kind: "student_center", latitude: 40.8069, longitude: -73.9639 },
+      { id: "columbia-public-safety", name: "Public Safety, Low Library", kind: "police", latitude: 40.8080, longitude: -73.9621 },
+    ],
+    timezone: "America/New_York",
+  },
+  {
+    name: "New York University",
+    domains: ["nyu.edu"],
+    campusLocations: [
+      { name: "Kimmel Center", latitude: 40.7299, longitude: -73.9977 },
+      { name: "Bobst Library", latitude: 40.7295, longitude: -73.9972 },
+    ],
+    meetupSpots: [
+      { id: "nyu-bobst-library", name: "Bobst Library lobby", kind: "library", latitude: 40.7295, longitude: -73.9972 },
+      { id: "nyu-kimmel-center", name: "Kimmel Center lobby", kind: "student_center", latitude: 40.7299, longitude: -73.9977 },
+      { id: "nyu-campus-safety", name: "Campus Safety, 7 Washington Pl", kind: "police", latitude: 40.7296, longitude: -73.9946 },
+    ],
+    timezone: "America/New_York",
+  },
+  {
+    name: "Princeton University",
+    domains: ["princeton.edu"],
+    campusLocations: [
+      { name: "Frist Campus Center", latitude: 40.3468, longitude: -74.6551 },
+    ],
+    meetupSpots: [
+      { id: "princeton-firestone-library", name: "Firestone Library lobby", kind: "library", latitude: 40.3495, longitude: -74.6575 },
+      { id: "princeton-frist", name: "Frist Campus Center lobby", kind: "student_center", latitude: 40.3468, longitude: -74.6551 },
+      { id: "princeton-public-safety", name: "Public Safety, 200 Elm Dr", kind: "police", latitude: 40.3434, longitude: -74.6578 },
+    ],
+    timezone: "America/New_York",
+  },
+  {
+    name: "Yale University",
+    domains: ["yale.edu"],
+    campusLocations: [
+      { name: "Sterling Memorial Library", latitude: 41.3112, longitude: -72.9289 },
+    ],
+    meetupSpots: [
+      { id: "yale-sterling-library", name: "Sterling Memorial Library nave", kind: "library", latitude: 41.3112, longitude: -72.9289 },
+      { id: "yale-schwarzman-center", name: "Schwarzman Center lobby", kind: "student_center", latitude: 41.3115, longitude: -72.9260 },
+      { id: "yale-police", name: "Yale Police, 101 Ashmun St", kind: "police", latitude: 41.3131, longitude: -72.9313 },
+    ],
+    timezone: "America/New_York",
+  },
+  {
+    name: "University of Michigan",
+    domains: ["umich.edu"],
+    campusLocations: [
+      { name: "Michigan Union", latitude: 42.2752, longitude: -83.7416 },
+      { name: "Pierpont Commons", latitude: 42.2913, longitude: -83.7174 },
+    ],
+    meetupSpots: [
+      { id: "umich-shapiro-library", name: "Shapiro Library lobby", kind: "library", latitude: 42.2756, longitude: -83.7372 },
+      { id: "umich-michigan-union", name: "Michigan Union lobby", kind: "student_center", latitude: 42.2752, longitude: -83.7416 },
+      { id: "umich-dpss", name: "Division of Public Safety, 1239 Kipke Dr", kind: "police", latitude: 42.2663, longitude: -83.7449 },
+    ],
+    timezone: "America/Detroit",
+  },
+  {
+    name: "University of Chicago",
+    domains: ["uchicago.edu"],
+    campusLocations: [
+      { name: "Reynolds Club", latitude: 41.7910, longitude: -87.5985 },
+    ],
+    meetupSpots: [
+      { id: "uchicago-regenstein-library", name: "Regenstein Library lobby", kind: "library", latitude: 41.7920, longitude: -87.5999 },
+      { id: "uchicago-reynolds-club", name: "Reynolds Club lobby", kind: "student_center", latitude: 41.7910, longitude: -87.5985 },
+      { id: "uchicago-police", name: "UChicago Police, 850 E 61st St", kind: "police", latitude: 41.7845, longitude: -87.6046 },
+    ],
+    timezone: "America/Chicago",
+  },
+  {
+    name: "University of Texas at Austin",
+    domains: ["utexas.edu"],
+    campusLocations: [
+      { name: "Texas Union", latitude: 30.2866, longitude: -97.7411 },
+    ],
+    meetupSpots: [
+      { id: "utexas-pcl", name: "Perry-Castañeda Library lobby", kind: "library", latitude: 30.2827, longitude: -97.7381 },
+      { id: "utexas-texas-union", name: "Texas Union lobby", kind: "student_center", latitude: 30.2866, longitude: -97.7411 },
+      { id: "utexas-police", name: "UT Police, 2201 Robert Dedman Dr", kind: "police", latitude: 30.2857, longitude: -97.7291 },
+    ],
+    timezone: "America/Chicago",
+  },
+  {
+    name: "Stanford University",
+    domains: ["stanford.edu"],
+    campusLocations: [
+      { name: "Tresidder Memorial Union", latitude: 37.4241, longitude: -122.1710 },
+      { name: "Green Library", latitude: 37.4267, longitude: -122.1673 },
+    ],
+    meetupSpots: [
+      { id: "stanford-green-library", name: "Green Library lobby", kind: "library", latitude: 37.4267, longitude: -122.1673 },
+      { id: "stanford-tresidder", name: "Tresidder Union lobby", kind: "student_center", latitude: 37.4241, longitude: -122.1710 },
+      { id: "stanford-public-safety", name: "Public Safety, 711 Serra St", kind: "police", latitude: 37.4234, longitude: -122.1643 },
+    ],
+    timezone: "America/Los_Angeles",
+  },
+  {
+    name: "University of California, Berkeley",
+    domains: ["berkeley.edu"],
+    campusLocations: [
+      { name: "Martin Luther King Jr. Student Union", latitude: 37.8691, longitude: -122.2597 },
+      { name: "Doe Library", latitude: 37.8722, longitude: -122.2593 },
+    ],
+    meetupSpots: [
+      { id: "berkeley-doe-library", name: "Doe Library entrance", kind: "library", latitude: 37.8722, longitude: -122.2593 },
+      { id: "berkeley-mlk-union", name: "MLK Student Union lobby", kind: "student_center", latitude: 37.8691, longitude: -122.2597 },
+      { id: "berkeley-police", name: "UC Police, Sproul Hall", kind: "police", latitude: 37.8695, longitude: -122.2588 },
+    ],
+    timezone: "America/Los_Angeles",
+  },
+  {
+    name: "University of California, Los Angeles",
+    domains: ["ucla.edu"],
+    campusLocations: [
+      { name: "Ackerman Union", latitude: 34.0705, longitude: -118.4443 },
+    ],
+    meetupSpots: [
+      { id: "ucla-powell-library", name: "Powell Library rotunda", kind: "library", latitude: 34.0716, longitude: -118.4422 },
+      { id: "ucla-ackerman-union", name: "Ackerman Union lobby", kind: "student_center", latitude: 34.0705, longitude: -118.4443 },
+      { id: "ucla-police", name: "UCLA Police, 601 Westwood Plaza", kind: "police", latitude: 34.0681, longitude: -118.4453 },
+    ],
+    timezone: "America/Los_Angeles",
+  },
+  {
+    name: "University of Washington",
+    domains: ["uw.edu", "washington.edu"],
+    campusLocations: [
+      { name: "Husky Union Building", latitude: 47.6555, longitude: -122.3050 },
+    ],
+    meetupSpots: [
+      { id: "uw-suzzallo-library", name: "Suzzallo Library entrance", kind: "library", latitude: 47.6557, longitude: -122.3080 },
+      { id: "uw-hub", name: "Husky Union Building lobby", kind: "student_center", latitude: 47.6555, longitude: -122.3050 },
+      { id: "uw-police", name: "UW Police, 3939 15th Ave NE", kind: "police", latitude: 47.6547, longitude: -122.3119 },
+    ],
+    timezone: "America/Los_Angeles",
+  },
+  {
+    name: "University of Toronto",
+    domains: ["utoronto.ca"],
+    campusLocations: [
+      { name: "Hart House", latitude: 43.6641, longitude: -79.3947 },
+    ],
+    meetupSpots: [
+      { id: "utoronto-robarts-library", name: "Robarts Library lobby", kind: "library", latitude: 43.6644, longitude: -79.3996 },
+      { id: "utoronto-hart-house", name: "Hart House front desk", kind: "student_center", latitude: 43.6641, longitude: -79.3947 },
+      { id: "utoronto-campus-safety", name: "Campus Safety, 21 Sussex Ave", kind: "police", latitude: 43.6651, longitude: -79.3990 },
+    ],
+    timezone: "America/Toronto",
+  },
+  {
+    name: "University of Oxford",
+    domains: ["ox.ac.uk"],
+    campusLocations: [
+      { name: "Radcliffe Camera", latitude: 51.7534, longitude: -1.2540 },
+    ],
+    meetupSpots: [
+      { id: "oxford-weston-library", name: "Weston Library café", kind: "library", latitude: 51.7545, longitude: -1.2553 },
+      { id: "oxford-st-aldates-police", name: "St Aldates Police Station", kind: "police", latitude: 51.7505, longitude: -1.2575 },
+    ],
+    timezone: "Europe/London",
+  },
+  {
+    name: "University of Cambridge",
+    domains: ["cam.ac.uk"],
+    campusLocations: [
+      { name: "University Library", latitude: 52.2049, longitude: 0.1086 },
+    ],
+    meetupSpots: [
+      { id: "cambridge-university-library", name: "University Library entrance", kind: "library", latitude: 52.2049, longitude: 0.1086 },
+      { id: "cambridge-parkside-police", name: "Parkside Police Station", kind: "police", latitude: 52.2030, longitude: 0.1306 },
+    ],
+    timezone: "Europe/London",
+  },
+  {
+    name: "Imperial College London",
+    domains: ["imperial.ac.uk", "ic.ac.uk"],
+    campusLocations: [
+      { name: "Sherfield Building", latitude: 51.4988, longitude: -0.1749 },
+    ],
+    meetupSpots: [
+      { id: "imperial-central-library", name: "Abdus Salam Library entrance", kind: "library", latitude: 51.4985, longitude: -0.1779 },
+      { id: "imperial-sherfield", name: "Sherfield Building reception", kind: "student_center", latitude: 51.4988, longitude: -0.1749 },
+    ],
+    timezone: "Europe/London",
+  },
+  {
+    name: "University College London",
+    domains: ["ucl.ac.uk"],
+    campusLocations: [
+      { name: "Student Centre", latitude: 51.5246, longitude: -0.1326 },
+    ],
+    meetupSpots: [
+      { id: "ucl-student-centre", name: "Student Centre entrance", kind: "student_center", latitude: 51.5246, longitude: -0.1326 },
+      { id: "ucl-main-library", name: "Main Library, Wilkins Building", kind: "library", latitude: 51.5246, longitude: -0.1340 },
+    ],
+    timezone: "Europe/London",
+  },
+  {
+    name: "University of Melbourne",
+    domains: ["unimelb.edu.au"],
+    campusLocations: [
+      { name: "Union House", latitude: -37.7969, longitude: 144.9616 },
+    ],
+    meetupSpots: [
+      { id: "unimelb-baillieu-library", name: "Baillieu Library entrance", kind: "library", latitude: -37.7983, longitude: 144.9594 },
+      { id: "unimelb-union-house", name: "Union House lobby", kind: "student_center", latitude: -37.7969, longitude: 144.9616 },
+      { id: "unimelb-campus-security", name: "Campus Security, Gate 3 Swanston St", kind: "police", latitude: -37.7999, longitude: 144.9625 },
+    ],
+    timezone: "Australia/Melbourne",
+  },
+];
@@ -0,0 +1,149 @@
+import { storage, type IStorage } from "./storage";
+import { sendMail } from "./mail";
+import { digestEmail, type DigestMessage, type DigestSearch } from "./email-templates";
+import { getNotificationPreferences, getUserTimezone, isQuietHours } from "./notifications";
+import type { Clock } from "./expiry";
+import { getMessagePreview, type DigestFrequency, type SavedSearch } from "@shared/schema";
+
+// How often the digest checks for users due an email
+const DIGEST_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Minimum time between digests at each frequency
+const digestPeriodMs: Record<Exclude<DigestFrequency, "never">, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+// Emails each user a digest of their unread messages and new matches for
+// saved searches with email alerts on, as often as their preferences ask.
+// Runs in-process on a timer like the expiry sweeper.
+export class NotificationDigest {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private clock: Clock = () => new Date(),
+    private store: IStorage = storage,
+    private intervalMs: number = DIGEST_INTERVAL_MS
+  ) {}
+
+  start() {
+    if (this.timer) return;
+
+    const run = () => {
+      this.send().catch((error) => console.error("Error sending digests:", error));
+    };
+    this.timer = setInterval(run, this.intervalMs);
+    // Don't keep the process alive just for the digest
+    this.timer.unref();
+    run();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Send the digests that are due, returning how many emails went out
+  async send(): Promise<number> {
+    const now = this.clock();
+
+    // Only users with something that could go in a digest are checked
+    const userIds = new Set(await this.store.getUserIdsWithUnreadMessages());
+    for (const search of await this.store.getSavedSearchesWithEmailAlerts()) {
+      userIds.add(search.userId);
+    }
+
+    let sent = 0;
+    for (const userId of Array.from(userIds)) {
+      try {
+        if (await this.sendDigest(userId, now)) {
+          sent++;
+        }
+      } catch (error) {
+        console.error(`Error sending digest to user ${userId}:`, error);
+      }
+    }
+    return sent;
+  }
+
+  // Email one user their digest if one is due; nothing is sent if there's
+  // nothing new since the last one
+  private async sendDigest(userId: number, now: Date): Promise<boolean> {
+    const user = await this.store.getUser(userId);
+    if (!user) return false;
+
+    const preferences = await getNotificationPreferences(userId, this.store);
+    if (preferences.digestFrequency === "never") return false;
+
+    // New users get their first digest a period after signing up
+    const since = preferences.lastDigestAt ?? user.createdAt;
+    const period = digestPeriodMs[preferences.digestFrequency as Exclude<DigestFrequency, "never">] ?? DAY_MS;
+    if (since && now.getTime() - since.getTime() < period) return false;
+
+    if (isQuietHours(preferences, await getUserTimezone(user, this.store), now)) return false;
+
+    const messages = await this.getUnreadMessages(userId, preferences.lastDigestAt);
+    const alertSearches = (await this.store.getSavedSearchesByUserId(userId)).filter(search => search.emailAlerts);
+    const searches = await this.getSearchMatches(alertSearches);
+
+    if (messages.length === 0 && searches.length === 0) {
+      return false;
+    }
+
+    await sendMail({ to: user.email, ...digestEmail(user, { messages, searches }) });
+
+    await this.store.saveNotificationPreferences(userId, { lastDigestAt: now });
+    for (const search of alertSearches) {
+      await this.store.updateSavedSearch(search.id, { lastEmailedAt: now });
+    }
+    return true;
+  }
+
+  private async getUnreadMessages(userId: number, since: Date | null): Promise<DigestMessage[]> {
+    const messages: DigestMessage[] = [];
+    for (const message of await this.store.getUnreadMessages(userId, since)) {
+      const sender = message.senderId ? await this.store.getUser(message.senderId) : undefined;
+      const listing = message.listingId ? await this.store.getListing(message.listingId) : undefined;
+      messages.push({
+        senderName: sender?.username ?? "Someone",
+        listingTitle: listing?.title ?? null,
+        content: getMessagePreview(message),
+      });
+    }
+    return messages;
+  }
+
+  // New matches for each search since it was last emailed
+  private async getSearchMatches(searches: SavedSearch[]): Promise<DigestSearch[]> {
+    const sections: DigestSearch[] = [];
+    for (const search of searches) {
+      const matches = await this.store.getSavedSearchMatches(search.id, search.lastEmailedAt ?? search.createdAt);
+      const section: DigestSearch = { name: search.name, listings: [] };
+      for (const match of matches) {
+        const listing = await this.store.getListing(match.listingId);
+        // Skip listings that have since been sold, withdrawn or deleted
+        if (listing && (listing.status ?? "active") === "active") {
+          section.listings.push(listing);
+        }
+      }
+      if (section.listings.length > 0) {
+        sections.push(section);
+      }
+    }
+    return sections;
+  }
+}
+
+let digest: NotificationDigest | null = null;
+
+export function startNotificationDigest(clock?: Clock): NotificationDigest {
+  if (!digest) {
+    digest = new NotificationDigest(clock);
+    digest.start();
+  }
+  return digest;
+}
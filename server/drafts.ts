@@ -0,0 +1,120 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { ownsUploads, withImageDetails } from "./uploads";
+import { matchSavedSearches } from "./saved-searches";
+import { isVerifiedUser, VERIFICATION_REQUIRED_ERROR } from "./verification";
+import { areUniversityMeetupSpots, INVALID_MEETUP_SPOTS_ERROR } from "./universities";
+import { PAST_EXPERIENCE_ERROR } from "./expiry";
+import { draftListingSchema, getListingExpiry, publishListingSchema } from "@shared/schema";
+
+export function setupDraftRoutes(app: Express) {
+  // The current user's unpublished drafts, most recently edited first
+  app.get("/api/drafts", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const drafts = (await storage.getListingsByUserId(req.user.id))
+        .filter(listing => listing.status === "draft")
+        .sort((a, b) => (b.updatedAt?.getTime() || 0) - (a.updatedAt?.getTime() || 0));
+
+      res.json(await withImageDetails(drafts));
+    } catch (error) {
+      console.error("Error fetching drafts:", error);
+      res.status(500).json({ error: "Failed to fetch drafts" });
+    }
+  });
+
+  // Start a draft from a partially filled listing form; later saves go
+  // through PATCH /api/listings/:id
+  app.post("/api/drafts", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const fields = draftListingSchema.parse(req.body);
+
+      if (!(await ownsUploads(req.user.id, fields.images ?? []))) {
+        return res.status(400).json({ error: "Listing images must be your own uploads" });
+      }
+
+      if (!(await areUniversityMeetupSpots(req.user.universityId, fields.meetupSpotIds ?? []))) {
+        return res.status(400).json({ error: INVALID_MEETUP_SPOTS_ERROR });
+      }
+
+      // Required columns get blank values until the seller fills them in
+      const draft = await storage.createListing({
+        title: "",
+        price: 0,
+        category: "",
+        ...fields,
+        userId: req.user.id,
+        universityId: req.user.universityId,
+      }, "draft");
+
+      res.status(201).json(draft);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error creating draft:", error);
+      res.status(500).json({ error: "Failed to save draft" });
+    }
+  });
+
+  // Validate a draft in full and make it live
+  app.post("/api/listings/:id/publish", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      if (!isVerifiedUser(req.user)) {
+        return res.status(403).json({ error: VERIFICATION_REQUIRED_ERROR });
+      }
+
+      const listing = await storage.getListing(parseInt(req.params.id));
+
+      if (!listing) {
+        return res.status(404).json({ error: "Listing not found" });
+      }
+
+      if (listing.userId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to publish this listing" });
+      }
+
+      if (listing.status !== "draft") {
+        return res.status(400).json({ error: "Only drafts can be published" });
+      }
+
+      publishListingSchema.parse(listing);
+
+      // A published draft is listed as new rather than from when it was started
+      const now = new Date();
+      const expiresAt = getListingExpiry(listing, now);
+      if (expiresAt <= now) {
+        return res.status(400).json({ error: PAST_EXPERIENCE_ERROR });
+      }
+
+      const publishedListing = await storage.updateListing(listing.id, {
+        status: "active",
+        createdAt: now,
+        expiresAt,
+      });
+      res.json(publishedListing);
+
+      if (publishedListing) {
+        matchSavedSearches(publishedListing).catch((error) => console.error("Error matching saved searches:", error));
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error publishing draft:", error);
+      res.status(500).json({ error: "Failed to publish draft" });
+    }
+  });
+}
@@ -0,0 +1,111 @@
+import { escapeHtml, getAppUrl, type MailMessage } from "./mail";
+import type { Listing, Notification, User } from "@shared/schema";
+
+// Everything in an email but the recipient
+export type EmailContent = Omit<MailMessage, "to">;
+
+// Shared frame for every templated email, with a footer pointing at the
+// settings page so people can turn emails off
+function renderHtml(body: string): string {
+  const settingsUrl = `${getAppUrl()}/settings`;
+  return [
+    `<div style="font-family: Arial, sans-serif; max-width: 560px; margin: 0 auto; color: #111827;">`,
+    body,
+    `<hr style="border: none; border-top: 1px solid #e5e7eb; margin: 24px 0;" />`,
+    `<p style="font-size: 12px; color: #6b7280;">You can choose which emails you get from Student Swap in your <a href="${settingsUrl}">notification settings</a>.</p>`,
+    `</div>`,
+  ].join("");
+}
+
+function renderText(paragraphs: string[]): string {
+  return [...paragraphs, `--\nChoose which emails you get: ${getAppUrl()}/settings`].join("\n\n");
+}
+
+// A single notification sent to someone who chose email for its type
+export function notificationEmail(user: User, notification: Notification): EmailContent {
+  const link = notification.link ? `${getAppUrl()}${notification.link}` : null;
+
+  return {
+    subject: notification.title,
+    text: renderText([
+      `Hi ${user.username},`,
+      notification.body,
+      ...(link ? [link] : []),
+    ]),
+    html: renderHtml([
+      `<p>Hi ${escapeHtml(user.username)},</p>`,
+      `<p>${escapeHtml(notification.body)}</p>`,
+      link ? `<p><a href="${link}">Open Student Swap</a></p>` : "",
+    ].join("")),
+  };
+}
+
+export interface DigestMessage {
+  senderName: string;
+  listingTitle: string | null;
+  content: string;
+}
+
+export interface DigestSearch {
+  name: string;
+  listings: Listing[];
+}
+
+export interface DigestContent {
+  messages: DigestMessage[];
+  searches: DigestSearch[];
+}
+
+// Unread messages and new saved search matches batched into one email
+export function digestEmail(user: User, { messages, searches }: DigestContent): EmailContent {
+  const appUrl = getAppUrl();
+  const matchCount = searches.reduce((sum, search) => sum + search.listings.length, 0);
+
+  const summary: string[] = [];
+  if (messages.length > 0) {
+    summary.push(`${messages.length} unread ${messages.length === 1 ? "message" : "messages"}`);
+  }
+  if (matchCount > 0) {
+    summary.push(`${matchCount} new ${matchCount === 1 ? "match" : "matches"} for your saved searches`);
+  }
+
+  const messageLine = (message: DigestMessage) =>
+    message.listingTitle ? `${message.senderName} about "${message.listingTitle}"` : message.senderName;
+
+  const text: string[] = [`Hi ${user.username},`, `You have ${summary.join(" and ")}.`];
+  const html: string[] = [
+    `<p>Hi ${escapeHtml(user.username)},</p>`,
+    `<p>You have ${escapeHtml(summary.join(" and "))}.</p>`,
+  ];
+
+  if (messages.length > 0) {
+    text.push([
+      "Unread messages:",
+      ...messages.map(message => `- ${messageLine(message)}: ${message.content}`),
+      `Reply at ${appUrl}/messages`,
+    ].join("\n"));
+    html.push(
+      `<h3>Unread messages</h3><ul>${messages
+        .map(message => `<li><strong>${escapeHtml(messageLine(message))}</strong>: ${escapeHtml(message.content)}</li>`)
+        .join("")}</ul><p><a href="${appUrl}/messages">Reply to your messages</a></p>`
+    );
+  }
+
+  for (const search of searches) {
+    text.push([
+      `${search.name}:`,
+      ...search.listings.map(listing => `- ${listing.title} ($${listing.price}): ${appUrl}/listings/${listing.id}`),
+    ].join("\n"));
+    html.push(
+      `<h3>${escapeHtml(search.name)}</h3><ul>${search.listings
+        .map(listing => `<li><a href="${appUrl}/listings/${listing.id}">${escapeHtml(listing.title)}</a> ($${listing.price})</li>`)
+        .join("")}</ul>`
+    );
+  }
+
+  return {
+    subject: `Your Student Swap digest: ${summary.join(", ")}`,
+    text: renderText(text),
+    html: renderHtml(html.join("")),
+  };
+}
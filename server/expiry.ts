@@ -0,0 +1,222 @@
+import type { Express } from "express";
+import { storage, ListingStatusError, type IStorage } from "./storage";
+import { getWebSocketServer, MessageType } from "./websocket";
+import { notify } from "./notifications";
+import { isVerifiedUser, VERIFICATION_REQUIRED_ERROR } from "./verification";
+import { getListingExpiry, LISTING_BUMP_COOLDOWN_MS, type Listing } from "@shared/schema";
+
+// How often the sweeper looks for expired listings
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+// How long before a listing expires its seller is reminded
+const EXPIRY_REMINDER_MS = 3 * 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Source of the current time, so tests can move it forward
+export type Clock = () => Date;
+
+// Statuses a listing can be renewed from
+const RENEWABLE_STATUSES = ["active", "expired"];
+
+// Error returned when an experience would go live already expired
+export const PAST_EXPERIENCE_ERROR = "Experiences must be dated in the future";
+
+// Tell a seller their listing expired. Whether that includes an email is up
+// to their notification preferences.
+async function notifyListingExpired(store: IStorage, listing: Listing) {
+  const seller = listing.userId ? await store.getUser(listing.userId) : undefined;
+  if (!seller) return;
+
+  getWebSocketServer()?.sendToUser(seller.id, {
+    type: MessageType.LISTING_EXPIRED,
+    payload: listing,
+  });
+  await notify({
+    userId: seller.id,
+    type: "listing_expired",
+    title: `"${listing.title}" has expired`,
+    body: "It's no longer shown to other students. If it's still available, renew it in one click from the listing page.",
+    link: `/listings/${listing.id}`,
+    listingId: listing.id,
+  }, store);
+}
+
+// Remind a seller their listing expires soon. Each expiry date gets one
+// reminder; renewing moves the date and so earns a new one.
+async function remindListingExpiring(store: IStorage, listing: Listing, now: Date) {
+  if (!listing.userId || !listing.expiresAt) return;
+
+  const reminderDue = listing.expiresAt.getTime() - EXPIRY_REMINDER_MS;
+  const latest = await store.getLatestNotification(listing.userId, "listing_expiring", listing.id);
+  if (latest?.createdAt && latest.createdAt.getTime() >= reminderDue) return;
+
+  const days = Math.ceil((listing.expiresAt.getTime() - now.getTime()) / DAY_MS);
+  await notify({
+    userId: listing.userId,
+    type: "listing_expiring",
+    title: `"${listing.title}" expires in ${days} ${days === 1 ? "day" : "days"}`,
+    body: "Renew it to keep it in front of other students.",
+    link: `/listings/${listing.id}`,
+    listingId: listing.id,
+  }, store);
+}
+
+// Expires listings in the background. Runs in-process on a timer; sweep() can
+// also be called directly, with the clock deciding what counts as expired.
+export class ListingExpirySweeper {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private clock: Clock = () => new Date(),
+    private store: IStorage = storage,
+    private intervalMs: number = SWEEP_INTERVAL_MS
+  ) {}
+
+  start() {
+    if (this.timer) return;
+
+    const run = () => {
+      this.sweep().catch((error) => console.error("Error expiring listings:", error));
+    };
+    this.timer = setInterval(run, this.intervalMs);
+    // Don't keep the process alive just for the sweeper
+    this.timer.unref();
+    run();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Remind sellers of listings about to expire, then expire every active
+  // listing past its expiry and notify the sellers
+  async sweep(): Promise<Listing[]> {
+    const now = this.clock();
+
+    // Listings from before expiry existed age out from when they were listed
+    for (const listing of await this.store.getListingsWithoutExpiry()) {
+      await this.store.updateListing(listing.id, { expiresAt: getListingExpiry(listing, listing.createdAt ?? now) });
+    }
+
+    for (const listing of await this.store.getListingsExpiringBefore(new Date(now.getTime() + EXPIRY_REMINDER_MS))) {
+      if (listing.expiresAt && listing.expiresAt > now) {
+        await remindListingExpiring(this.store, listing, now);
+      }
+    }
+
+    const expired = await this.store.expireListings(now);
+    for (const listing of expired) {
+      try {
+        await notifyListingExpired(this.store, listing);
+      } catch (error) {
+        console.error(`Error notifying seller of expired listing ${listing.id}:`, error);
+      }
+    }
+    return expired;
+  }
+}
+
+let sweeper: ListingExpirySweeper | null = null;
+
+export function startListingExpirySweeper(clock?: Clock): ListingExpirySweeper {
+  if (!sweeper) {
+    sweeper = new ListingExpirySweeper(clock);
+    sweeper.start();
+  }
+  return sweeper;
+}
+
+export function setupListingExpiryRoutes(app: Express) {
+  // Relist an expired listing, or push back the expiry of an active one
+  app.post("/api/listings/:id/renew", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      if (!isVerifiedUser(req.user)) {
+        return res.status(403).json({ error: VERIFICATION_REQUIRED_ERROR });
+      }
+
+      const listing = await storage.getListing(parseInt(req.params.id));
+
+      if (!listing) {
+        return res.status(404).json({ error: "Listing not found" });
+      }
+
+      if (listing.userId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to renew this listing" });
+      }
+
+      if (!RENEWABLE_STATUSES.includes(listing.status ?? "active")) {
+        return res.status(400).json({ error: "Only active or expired listings can be renewed" });
+      }
+
+      const now = new Date();
+      const expiresAt = getListingExpiry(listing, now);
+      if (expiresAt <= now) {
+        return res.status(400).json({ error: "Change the date of this experience before renewing it" });
+      }
+
+      const renewedListing = await storage.updateListing(listing.id, { status: "active", expiresAt });
+      res.json(renewedListing);
+    } catch (error) {
+      if (error instanceof ListingStatusError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error renewing listing:", error);
+      res.status(500).json({ error: "Failed to renew listing" });
+    }
+  });
+
+  // Move an active listing back to the top of the newest listings, at most
+  // once per LISTING_BUMP_COOLDOWN_MS
+  app.post("/api/listings/:id/bump", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      if (!isVerifiedUser(req.user)) {
+        return res.status(403).json({ error: VERIFICATION_REQUIRED_ERROR });
+      }
+
+      const listing = await storage.getListing(parseInt(req.params.id));
+
+      if (!listing) {
+        return res.status(404).json({ error: "Listing not found" });
+      }
+
+      if (listing.userId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to bump this listing" });
+      }
+
+      if ((listing.status ?? "active") !== "active") {
+        return res.status(400).json({ error: "Only active listings can be bumped" });
+      }
+
+      const waitMs = listing.bumpedAt
+        ? listing.bumpedAt.getTime() + LISTING_BUMP_COOLDOWN_MS - Date.now()
+        : 0;
+      if (waitMs > 0) {
+        const retryAfter = Math.ceil(waitMs / 1000);
+        res.set("Retry-After", retryAfter.toString());
+        return res.status(429).json({
+          error: `You can bump this listing again in ${Math.ceil(waitMs / (60 * 60 * 1000))} hours`,
+        });
+      }
+
+      // The newest sort orders bumped listings by when they were bumped; the
+      // listing keeps its real creation date
+      const bumpedListing = await storage.updateListing(listing.id, { bumpedAt: new Date() });
+      res.json(bumpedListing);
+    } catch (error) {
+      console.error("Error bumping listing:", error);
+      res.status(500).json({ error: "Failed to bump listing" });
+    }
+  });
+}
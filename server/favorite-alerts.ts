@@ -0,0 +1,122 @@
+import type { Express } from "express";
+import { storage, listingEvents } from "./storage";
+import { getWebSocketServer, MessageType } from "./websocket";
+import { notify } from "./notifications";
+import type { FavoriteAlert, InsertNotification, Listing, ListingStatus } from "@shared/schema";
+
+// Status changes favoriters are told about
+const ALERT_STATUSES: readonly ListingStatus[] = ["reserved", "sold"];
+
+function isLive(listing: Listing): boolean {
+  return listing.status !== "draft";
+}
+
+// What a favoriter's notification center shows for an alert
+function toNotification(alert: FavoriteAlert): Omit<InsertNotification, "userId"> {
+  const { listing } = alert;
+  const link = `/listings/${listing.id}`;
+
+  switch (alert.kind) {
+    case "price_drop":
+      return {
+        type: "favorite_update",
+        title: `Price drop on "${listing.title}"`,
+        body: `Now $${listing.price}, down from $${alert.previousPrice}`,
+        link,
+        listingId: listing.id,
+      };
+    case "status":
+      return alert.status === "sold"
+        ? { type: "favorite_sold", title: `"${listing.title}" has sold`, body: "A listing you saved has been sold.", link, listingId: listing.id }
+        : { type: "favorite_update", title: `"${listing.title}" is ${alert.status}`, body: "The seller has set this listing aside for a buyer.", link, listingId: listing.id };
+    case "deleted":
+      // The listing is gone, so there's nothing to link to
+      return { type: "favorite_update", title: `"${listing.title}" was removed`, body: "The seller deleted a listing you saved." };
+  }
+}
+
+// Send an alert to everyone who favorited the listing apart from its seller
+async function sendFavoriteAlert(userIds: number[], alert: FavoriteAlert) {
+  const wsServer = getWebSocketServer();
+  for (const userId of userIds) {
+    if (userId !== alert.listing.userId) {
+      wsServer?.sendToUser(userId, { type: MessageType.FAVORITE_ALERT, payload: alert });
+      await notify({ ...toNotification(alert), userId });
+    }
+  }
+}
+
+// Record the listing's new price. Listings from before price history existed
+// get their previous price recorded first, so the change shows.
+async function recordPriceChange(before: Listing, after: Listing) {
+  if (isLive(before) && (await storage.getListingPriceHistory(after.id)).length === 0) {
+    await storage.addListingPrice(after.id, before.price);
+  }
+  await storage.addListingPrice(after.id, after.price);
+}
+
+async function onListingUpdated(before: Listing, after: Listing) {
+  if (!isLive(after)) return;
+
+  // Publishing a draft starts its history; edits to live listings extend it
+  if (!isLive(before)) {
+    await storage.addListingPrice(after.id, after.price);
+    return;
+  }
+  if (after.price !== before.price) {
+    await recordPriceChange(before, after);
+  }
+
+  const alerts: FavoriteAlert[] = [];
+  if (after.price < before.price) {
+    alerts.push({ kind: "price_drop", listing: after, previousPrice: before.price });
+  }
+  const status = (after.status ?? "active") as ListingStatus;
+  if (status !== before.status && ALERT_STATUSES.includes(status)) {
+    alerts.push({ kind: "status", listing: after, status });
+  }
+
+  if (alerts.length > 0) {
+    const userIds = await storage.getFavoriteUserIds(after.id);
+    for (const alert of alerts) {
+      await sendFavoriteAlert(userIds, alert);
+    }
+  }
+}
+
+// Record price history and alert favoriters as listings change. Hooked onto
+// storage events so it applies whichever route made the change.
+export function setupFavoriteAlerts(app: Express) {
+  listingEvents.on("created", (listing) => {
+    if (!isLive(listing)) return;
+    storage.addListingPrice(listing.id, listing.price)
+      .catch((error) => console.error(`Error recording price of listing ${listing.id}:`, error));
+  });
+
+  listingEvents.on("updated", (before, after) => {
+    onListingUpdated(before, after)
+      .catch((error) => console.error(`Error handling update of listing ${after.id}:`, error));
+  });
+
+  listingEvents.on("deleted", (listing, favoritedBy) => {
+    sendFavoriteAlert(favoritedBy, { kind: "deleted", listing })
+      .catch((error) => console.error(`Error alerting favoriters of deleted listing ${listing.id}:`, error));
+  });
+
+  // Prices a listing has had, oldest first, for the price history chart
+  app.get("/api/listings/:id/price-history", async (req, res) => {
+    try {
+      const listing = await storage.getListing(parseInt(req.params.id));
+
+      // Drafts are private to their seller
+      if (!listing || (listing.status === "draft" && listing.userId !== req.user?.id)) {
+        return res.status(404).json({ error: "Listing not found" });
+      }
+
+      res.json(await storage.getListingPriceHistory(listing.id));
+    } catch (error) {
+      console.error("Error fetching price history:", error);
+      res.status(500).json({ error: "Failed to fetch price history" });
+    }
+  });
+}
@@ -0,0 +1,77 @@
+import sharp, { type Sharp } from "sharp";
+import { encode } from "blurhash";
+import { imageVariants, imageVariantWidths, type ImageVariant } from "@shared/schema";
+
+// Longest side of the full-size copy kept for each upload
+const MAX_IMAGE_DIMENSION = 2048;
+
+const WEBP_QUALITY = 80;
+
+// Blurhash is computed from a tiny copy; more components means more detail
+const BLURHASH_SIZE = 32;
+const BLURHASH_COMPONENTS_X = 4;
+const BLURHASH_COMPONENTS_Y = 3;
+
+export interface ProcessedImageFile {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+// An upload ready for the blob store: a full-size WebP, its resized variants
+// and a blurhash placeholder
+export interface ProcessedImage extends ProcessedImageFile {
+  blurhash: string;
+  variants: (ProcessedImageFile & { name: ImageVariant })[];
+}
+
+async function toWebp(image: Sharp): Promise<ProcessedImageFile> {
+  const { data, info } = await image.webp({ quality: WEBP_QUALITY }).toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+// Normalise an uploaded image for serving. rotate() bakes the EXIF orientation
+// into the pixels, and sharp drops all metadata from its output, GPS
+// coordinates included, since withMetadata() is never called.
+export async function processImage(input: Buffer): Promise<ProcessedImage> {
+  const oriented = sharp(input).rotate();
+
+  const full = await toWebp(
+    oriented.clone().resize({
+      width: MAX_IMAGE_DIMENSION,
+      height: MAX_IMAGE_DIMENSION,
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+  );
+
+  const variants = await Promise.all(
+    imageVariants.map(async (name) => ({
+      name,
+      ...await toWebp(
+        oriented.clone().resize({
+          width: imageVariantWidths[name],
+          height: MAX_IMAGE_DIMENSION,
+          fit: "inside",
+          withoutEnlargement: true,
+        })
+      ),
+    }))
+  );
+
+  const { data: pixels, info } = await oriented
+    .clone()
+    .resize(BLURHASH_SIZE, BLURHASH_SIZE, { fit: "inside" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const blurhash = encode(
+    new Uint8ClampedArray(pixels),
+    info.width,
+    info.height,
+    BLURHASH_COMPONENTS_X,
+    BLURHASH_COMPONENTS_Y
+  );
+
+  return { ...full, blurhash, variants };
+}
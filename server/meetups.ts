@@ -0,0 +1,424 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { storage, ConversationError, type IStorage } from "./storage";
+import { getWebSocketServer, MessageType } from "./websocket";
+import { getUserTimezone, notify, notifyNewMessage } from "./notifications";
+import { isVerifiedUser, VERIFICATION_REQUIRED_ERROR } from "./verification";
+import {
+  CROSS_CAMPUS_MESSAGING_ERROR,
+  getListingMeetupSpots,
+  getMeetupSpots,
+  isCrossCampusMessagingAllowed,
+} from "./universities";
+import type { Clock } from "./expiry";
+import {
+  getConversationRole,
+  meetupDetailsSchema,
+  MEETUP_DURATION_MS,
+  type Conversation,
+  type Listing,
+  type Meetup,
+  type MeetupDetails,
+  type MeetupSpot,
+  type Message,
+  type User,
+} from "@shared/schema";
+
+// How often the reminder sweeper looks for upcoming meetups
+const REMINDER_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// How long before a meetup both sides are reminded
+const MEETUP_REMINDER_MS = 60 * 60 * 1000;
+
+const proposeMeetupSchema = meetupDetailsSchema.extend({
+  listingId: z.coerce.number().int().positive(),
+  receiverId: z.coerce.number().int().positive(),
+});
+
+// Meetups at one of the listing's safe spots are held at that spot; the
+// location is filled in from it. Undefined if the spot isn't the listing's.
+async function resolveMeetupSpot(details: MeetupDetails, listing: Listing | undefined): Promise<MeetupDetails | undefined> {
+  if (!details.meetupSpotId) {
+    return { ...details, meetupSpotId: null };
+  }
+
+  const spot = listing && (await getListingMeetupSpots(listing)).find(spot => spot.id === details.meetupSpotId);
+  return spot && { ...details, location: spot.name };
+}
+
+const INVALID_MEETUP_SPOT_ERROR = "Pick one of the listing's meetup spots";
+
+// e.g. "Fri, Oct 24, 3:30 PM" in the user's campus time zone
+async function formatMeetupTime(meetup: Meetup, user: User | undefined, store: IStorage = storage): Promise<string> {
+  const timeZone = user ? await getUserTimezone(user, store) : "UTC";
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(meetup.startsAt);
+}
+
+// Push a meetup change to both sides of the conversation
+function broadcastMeetup(meetup: Meetup, conversation: Conversation) {
+  const wsServer = getWebSocketServer();
+  if (!wsServer) return;
+
+  const message = { type: MessageType.MEETUP, payload: meetup };
+  wsServer.sendToUser(conversation.buyerId, message);
+  wsServer.sendToUser(conversation.sellerId, message);
+}
+
+// Post a proposal's meetup message to both sides, like a chat message
+async function broadcastProposal(meetup: Meetup, message: Message, conversation: Conversation, proposer: User) {
+  const wsServer = getWebSocketServer();
+  for (const userId of [meetup.proposerId, meetup.recipientId]) {
+    wsServer?.sendToUser(userId, { type: MessageType.MESSAGE, payload: message });
+  }
+  broadcastMeetup(meetup, conversation);
+  await notifyNewMessage(message, proposer);
+}
+
+// Tell one side of the conversation about a meetup change
+async function notifyMeetup(userId: number, title: string, meetup: Meetup, listingId: number, store: IStorage = storage) {
+  const user = await store.getUser(userId);
+  await notify({
+    userId,
+    type: "meetup",
+    title,
+    body: `${await formatMeetupTime(meetup, user, store)} at ${meetup.location}`,
+    link: "/messages",
+    listingId,
+  }, store);
+}
+
+// Escape text for an iCalendar property value
+function escapeICalText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// e.g. 20261024T153000Z
+function formatICalDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Lines longer than 75 characters continue on the next line after a space
+function foldICalLine(line: string): string {
+  const parts: string[] = [];
+  for (let start = 0; start < line.length; start += 74) {
+    parts.push(line.slice(start, start + 74));
+  }
+  return parts.join("\r\n ");
+}
+
+// A calendar event for an accepted meetup, with an alarm an hour before
+export function toICalendar(
+  meetup: Meetup,
+  listing: Pick<Listing, "title">,
+  otherUser: Pick<User, "username">,
+  spot?: MeetupSpot
+): string {
+  const description = [`Meeting ${otherUser.username} about "${listing.title}".`, meetup.notes]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//StudentSwap//Meetups//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:meetup-${meetup.id}@studentswap`,
+    `DTSTAMP:${formatICalDate(meetup.createdAt ?? new Date())}`,
+    `DTSTART:${formatICalDate(meetup.startsAt)}`,
+    `DTEND:${formatICalDate(new Date(meetup.startsAt.getTime() + MEETUP_DURATION_MS))}`,
+    `SUMMARY:${escapeICalText(`StudentSwap meetup: ${listing.title}`)}`,
+    `LOCATION:${escapeICalText(meetup.location)}`,
+    ...(spot ? [`GEO:${spot.latitude};${spot.longitude}`] : []),
+    `DESCRIPTION:${escapeICalText(description)}`,
+    `STATUS:${meetup.status === "cancelled" ? "CANCELLED" : "CONFIRMED"}`,
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    "DESCRIPTION:StudentSwap meetup in one hour",
+    "TRIGGER:-PT1H",
+    "END:VALARM",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldICalLine).join("\r\n") + "\r\n";
+}
+
+// Reminds both sides of accepted meetups an hour before they start. Runs
+// in-process on a timer like the listing expiry sweeper.
+export class MeetupReminderSweeper {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private clock: Clock = () => new Date(),
+    private store: IStorage = storage,
+    private intervalMs: number = REMINDER_SWEEP_INTERVAL_MS
+  ) {}
+
+  start() {
+    if (this.timer) return;
+
+    const run = () => {
+      this.sweep().catch((error) => console.error("Error sending meetup reminders:", error));
+    };
+    this.timer = setInterval(run, this.intervalMs);
+    // Don't keep the process alive just for the sweeper
+    this.timer.unref();
+    run();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Send the reminders that are due; each meetup is only reminded about once
+  async sweep(): Promise<Meetup[]> {
+    const now = this.clock();
+    const reminded: Meetup[] = [];
+
+    for (const meetup of await this.store.getMeetupsDueForReminder(new Date(now.getTime() + MEETUP_REMINDER_MS), now)) {
+      const claimed = await this.store.markMeetupReminded(meetup.id);
+      const conversation = claimed && await this.store.getConversation(claimed.conversationId);
+      if (!claimed || !conversation) {
+        continue;
+      }
+
+      try {
+        for (const userId of [claimed.proposerId, claimed.recipientId]) {
+          await notifyMeetup(userId, "Your meetup starts in an hour", claimed, conversation.listingId, this.store);
+        }
+        reminded.push(claimed);
+      } catch (error) {
+        console.error(`Error reminding about meetup ${claimed.id}:`, error);
+      }
+    }
+    return reminded;
+  }
+}
+
+let reminderSweeper: MeetupReminderSweeper | null = null;
+
+export function startMeetupReminders(clock?: Clock): MeetupReminderSweeper {
+  if (!reminderSweeper) {
+    reminderSweeper = new MeetupReminderSweeper(clock);
+    reminderSweeper.start();
+  }
+  return reminderSweeper;
+}
+
+type MeetupAction = (meetup: Meetup, conversation: Conversation, req: Request, res: Response) => Promise<unknown>;
+
+// Wrap a response to a meetup with the shared lookup and permission checks.
+// Answering is done by the recipient; either side can cancel.
+function meetupAction(actor: "recipient" | "participant", action: MeetupAction) {
+  return async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const meetup = await storage.getMeetup(parseInt(req.params.id));
+      const conversation = meetup && await storage.getConversation(meetup.conversationId);
+
+      if (!meetup || !conversation || !getConversationRole(conversation, req.user.id)) {
+        return res.status(404).json({ error: "Meetup not found" });
+      }
+
+      if (actor === "recipient" && meetup.recipientId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to respond to this meetup" });
+      }
+
+      await action(meetup, conversation, req, res);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error updating meetup:", error);
+      res.status(500).json({ error: "Failed to update meetup" });
+    }
+  };
+}
+
+export function setupMeetupRoutes(app: Express) {
+  // Get the meetups proposed between the current user and another user on a listing
+  app.get("/api/meetups/:userId/:listingId", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const conversation = await storage.getConversationBetween(
+        parseInt(req.params.listingId),
+        req.user.id,
+        parseInt(req.params.userId)
+      );
+
+      res.json(conversation ? await storage.getMeetupsByConversation(conversation.id) : []);
+    } catch (error) {
+      console.error("Error fetching meetups:", error);
+      res.status(500).json({ error: "Failed to fetch meetups" });
+    }
+  });
+
+  // Propose a time and place to hand a listing over
+  app.post("/api/meetups", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      if (!isVerifiedUser(req.user)) {
+        return res.status(403).json({ error: VERIFICATION_REQUIRED_ERROR });
+      }
+
+      const { listingId, receiverId, ...fields } = proposeMeetupSchema.parse(req.body);
+      const listing = await storage.getListing(listingId);
+
+      if (!listing) {
+        return res.status(404).json({ error: "Listing not found" });
+      }
+
+      const details = await resolveMeetupSpot(fields, listing);
+      if (!details) {
+        return res.status(400).json({ error: INVALID_MEETUP_SPOT_ERROR });
+      }
+
+      if (!(await isCrossCampusMessagingAllowed(req.user, listing))) {
+        return res.status(403).json({ error: CROSS_CAMPUS_MESSAGING_ERROR });
+      }
+
+      const conversation = await storage.startConversation(listing.id, req.user.id, receiverId);
+      const proposal = await storage.proposeMeetup({
+        ...details,
+        conversationId: conversation.id,
+        proposerId: req.user.id,
+        recipientId: receiverId,
+      });
+
+      if (!proposal) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      await broadcastProposal(proposal.meetup, proposal.message, conversation, req.user);
+      res.status(201).json(proposal.meetup);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof ConversationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error proposing meetup:", error);
+      res.status(500).json({ error: "Failed to propose meetup" });
+    }
+  });
+
+  // Suggest a different time or place for a pending meetup
+  app.post("/api/meetups/:id/counter", meetupAction("recipient", async (meetup, conversation, req, res) => {
+    const details = await resolveMeetupSpot(
+      meetupDetailsSchema.parse(req.body),
+      await storage.getListing(conversation.listingId)
+    );
+    if (!details) {
+      return res.status(400).json({ error: INVALID_MEETUP_SPOT_ERROR });
+    }
+
+    const proposal = await storage.proposeMeetup({
+      ...details,
+      conversationId: conversation.id,
+      proposerId: req.user!.id,
+      recipientId: meetup.proposerId,
+      parentMeetupId: meetup.id,
+    });
+
+    if (!proposal) {
+      return res.status(409).json({ error: "Meetup is no longer pending" });
+    }
+
+    broadcastMeetup({ ...meetup, status: "countered" }, conversation);
+    await broadcastProposal(proposal.meetup, proposal.message, conversation, req.user!);
+    res.status(201).json(proposal.meetup);
+  }));
+
+  // Accept a pending meetup
+  app.post("/api/meetups/:id/accept", meetupAction("recipient", async (meetup, conversation, req, res) => {
+    if (meetup.startsAt <= new Date()) {
+      return res.status(400).json({ error: "This meetup time has already passed" });
+    }
+
+    const accepted = await storage.updateMeetupStatus(meetup.id, "accepted");
+
+    if (!accepted) {
+      return res.status(409).json({ error: "Meetup is no longer pending" });
+    }
+
+    broadcastMeetup(accepted, conversation);
+    await notifyMeetup(accepted.proposerId, `${req.user!.username} accepted your meetup`, accepted, conversation.listingId);
+    res.json(accepted);
+  }));
+
+  // Decline a pending meetup
+  app.post("/api/meetups/:id/decline", meetupAction("recipient", async (meetup, conversation, req, res) => {
+    const declined = await storage.updateMeetupStatus(meetup.id, "declined");
+
+    if (!declined) {
+      return res.status(409).json({ error: "Meetup is no longer pending" });
+    }
+
+    broadcastMeetup(declined, conversation);
+    await notifyMeetup(declined.proposerId, `${req.user!.username} declined your meetup`, declined, conversation.listingId);
+    res.json(declined);
+  }));
+
+  // Call off a pending or accepted meetup
+  app.post("/api/meetups/:id/cancel", meetupAction("participant", async (meetup, conversation, req, res) => {
+    const cancelled = await storage.updateMeetupStatus(meetup.id, "cancelled");
+
+    if (!cancelled) {
+      return res.status(409).json({ error: `Meetup is already ${meetup.status}` });
+    }
+
+    const otherUserId = cancelled.proposerId === req.user!.id ? cancelled.recipientId : cancelled.proposerId;
+    broadcastMeetup(cancelled, conversation);
+    await notifyMeetup(otherUserId, `${req.user!.username} cancelled your meetup`, cancelled, conversation.listingId);
+    res.json(cancelled);
+  }));
+
+  // Download an accepted meetup as a calendar event
+  app.get("/api/meetups/:id/calendar.ics", meetupAction("participant", async (meetup, conversation, req, res) => {
+    if (meetup.status !== "accepted") {
+      return res.status(400).json({ error: "Only accepted meetups can be added to a calendar" });
+    }
+
+    const otherUserId = getConversationRole(conversation, req.user!.id) === "buyer" ? conversation.sellerId : conversation.buyerId;
+    const [listing, otherUser] = await Promise.all([
+      storage.getListing(conversation.listingId),
+      storage.getUser(otherUserId),
+    ]);
+
+    const spots = meetup.meetupSpotId ? await getMeetupSpots(listing?.universityId ?? null) : [];
+
+    res.set("Content-Type", "text/calendar; charset=utf-8");
+    res.attachment(`meetup-${meetup.id}.ics`);
+    res.send(toICalendar(
+      meetup,
+      { title: listing?.title ?? "your listing" },
+      { username: otherUser?.username ?? "the other student" },
+      spots.find(spot => spot.id === meetup.meetupSpotId)
+    ));
+  }));
+}
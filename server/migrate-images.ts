@@ -0,0 +1,19 @@
+import { migrateInlineImages, processExistingUploads } from "./uploads";
+
+// Moves base64 images stored on listings before uploads existed into the blob
+// store, then processes uploads stored before image processing existed. Run
+// with `npm run uploads:migrate` after `npm run db:push`.
+async function migrate() {
+  const { listings, images } = await migrateInlineImages();
+  console.log(`Migrated ${images} images on ${listings} listings`);
+
+  const processed = await processExistingUploads();
+  console.log(`Processed ${processed} existing uploads`);
+}
+
+migrate()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Failed to migrate images:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isQuietHours } from "./notifications";
+import type { NotificationPreferences } from "@shared/schema";
+
+function quietHours(quietHoursStart: string | null, quietHoursEnd: string | null): NotificationPreferences {
+  return {
+    userId: 1,
+    channels: {},
+    quietHoursStart,
+    quietHoursEnd,
+    digestFrequency: "daily",
+    lastDigestAt: null,
+    updatedAt: null,
+  };
+}
+
+const at = (time: string) => new Date(`2026-10-18T${time}:00Z`);
+
+test("isQuietHours is off without both ends or with an empty window", () => {
+  assert.equal(isQuietHours(quietHours(null, null), "UTC", at("03:00")), false);
+  assert.equal(isQuietHours(quietHours("22:00", null), "UTC", at("23:00")), false);
+  assert.equal(isQuietHours(quietHours("22:00", "22:00"), "UTC", at("22:00")), false);
+});
+
+test("isQuietHours covers a same-day window, end exclusive", () => {
+  const preferences = quietHours("13:00", "15:30");
+  assert.equal(isQuietHours(preferences, "UTC", at("12:59")), false);
+  assert.equal(isQuietHours(preferences, "UTC", at("13:00")), true);
+  assert.equal(isQuietHours(preferences, "UTC", at("15:29")), true);
+  assert.equal(isQuietHours(preferences, "UTC", at("15:30")), false);
+});
+
+test("isQuietHours wraps past midnight when the end is earlier than the start", () => {
+  const preferences = quietHours("22:00", "07:00");
+  assert.equal(isQuietHours(preferences, "UTC", at("21:59")), false);
+  assert.equal(isQuietHours(preferences, "UTC", at("22:00")), true);
+  assert.equal(isQuietHours(preferences, "UTC", at("00:00")), true);
+  assert.equal(isQuietHours(preferences, "UTC", at("06:59")), true);
+  assert.equal(isQuietHours(preferences, "UTC", at("07:00")), false);
+});
+
+test("isQuietHours uses the campus time zone", () => {
+  const preferences = quietHours("22:00", "07:00");
+  // 04:00 UTC is midnight in New York during daylight saving time
+  assert.equal(isQuietHours(preferences, "America/New_York", at("04:00")), true);
+  // 23:00 UTC is 4pm in Los Angeles
+  assert.equal(isQuietHours(preferences, "America/Los_Angeles", at("23:00")), false);
+});
@@ -0,0 +1,314 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage, type IStorage } from "./storage";
+import { getWebSocketServer, MessageType } from "./websocket";
+import { sendMail } from "./mail";
+import { notificationEmail } from "./email-templates";
+import type { Clock } from "./expiry";
+import {
+  defaultNotificationChannels,
+  getConversationRole,
+  getMessagePreview,
+  pageQuerySchema,
+  updateNotificationPreferencesSchema,
+  type InsertNotification,
+  type Message,
+  type Notification,
+  type NotificationChannel,
+  type NotificationPage,
+  type NotificationPreferences,
+  type NotificationType,
+  type User,
+} from "@shared/schema";
+
+// Longest message preview shown in a notification
+const MESSAGE_PREVIEW_LENGTH = 140;
+
+// How often emails held back for quiet hours are checked
+const QUEUED_EMAIL_INTERVAL_MS = 5 * 60 * 1000;
+
+// A user's notification preferences, with the defaults for users who have
+// never changed them
+export async function getNotificationPreferences(userId: number, store: IStorage = storage): Promise<NotificationPreferences> {
+  return (await store.getNotificationPreferences(userId)) ?? {
+    userId,
+    channels: {},
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    digestFrequency: "daily",
+    lastDigestAt: null,
+    updatedAt: null,
+  };
+}
+
+export function getNotificationChannel(preferences: NotificationPreferences, type: NotificationType): NotificationChannel {
+  return preferences.channels[type] ?? defaultNotificationChannels[type];
+}
+
+// Quiet hours are kept in the time zone of the user's campus
+export async function getUserTimezone(user: User, store: IStorage = storage): Promise<string> {
+  const university = user.universityId ? await store.getUniversity(user.universityId) : undefined;
+  return university?.timezone ?? "UTC";
+}
+
+// Whether the time falls in the user's quiet hours, which wrap past midnight
+// when they end earlier than they start
+export function isQuietHours(preferences: NotificationPreferences, timeZone: string, now: Date): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = preferences;
+  if (!start || !end || start === end) return false;
+
+  const time = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(now);
+  return start < end ? time >= start && time < end : time >= start || time < end;
+}
+
+// Add a notification to a user's notification center, push it to them live
+// (or by Web Push if they're offline) and email it if they asked for email,
+// following their preferences. During quiet hours it is only stored, and its
+// email is queued until they end; see QueuedEmailSender. Notifications are
+// best effort: a failure is logged rather than failing whatever caused it.
+export async function notify(notification: InsertNotification, store: IStorage = storage): Promise<void> {
+  try {
+    const preferences = await getNotificationPreferences(notification.userId, store);
+    const channel = getNotificationChannel(preferences, notification.type);
+    if (channel === "none") return;
+
+    const created = await store.createNotification(notification);
+
+    const user = await store.getUser(created.userId);
+    if (!user) return;
+
+    if (isQuietHours(preferences, await getUserTimezone(user, store), new Date())) {
+      if (channel === "email") {
+        await store.queueNotificationEmail(created.id);
+      }
+      return;
+    }
+
+    getWebSocketServer()?.sendToUser(created.userId, {
+      type: MessageType.NOTIFICATION,
+      payload: created,
+    });
+
+    if (channel === "email") {
+      await sendMail({ to: user.email, ...notificationEmail(user, created) });
+    }
+  } catch (error) {
+    console.error(`Error notifying user ${notification.userId}:`, error);
+  }
+}
+
+// Emails the notifications held back during quiet hours once each user's
+// quiet hours are over. Emails for notifications read in the meantime, or
+// whose type the user stopped wanting emails for, are dropped. Runs
+// in-process on a timer like the digest.
+export class QueuedEmailSender {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private clock: Clock = () => new Date(),
+    private store: IStorage = storage,
+    private intervalMs: number = QUEUED_EMAIL_INTERVAL_MS
+  ) {}
+
+  start() {
+    if (this.timer) return;
+
+    const run = () => {
+      this.send().catch((error) => console.error("Error sending queued notification emails:", error));
+    };
+    this.timer = setInterval(run, this.intervalMs);
+    // Don't keep the process alive just for the queue
+    this.timer.unref();
+    run();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Send the queued emails of users outside their quiet hours, returning how
+  // many went out
+  async send(): Promise<number> {
+    const now = this.clock();
+
+    const queuedByUser = new Map<number, Notification[]>();
+    for (const notification of await this.store.getQueuedNotificationEmails()) {
+      queuedByUser.set(notification.userId, [...(queuedByUser.get(notification.userId) ?? []), notification]);
+    }
+
+    let sent = 0;
+    for (const [userId, queued] of Array.from(queuedByUser.entries())) {
+      try {
+        sent += await this.sendQueued(userId, queued, now);
+      } catch (error) {
+        console.error(`Error sending queued emails to user ${userId}:`, error);
+      }
+    }
+    return sent;
+  }
+
+  private async sendQueued(userId: number, queued: Notification[], now: Date): Promise<number> {
+    const user = await this.store.getUser(userId);
+    const preferences = await getNotificationPreferences(userId, this.store);
+    if (user && isQuietHours(preferences, await getUserTimezone(user, this.store), now)) return 0;
+
+    let sent = 0;
+    for (const notification of queued) {
+      const claimed = await this.store.claimQueuedNotificationEmail(notification.id);
+      if (
+        !user ||
+        !claimed ||
+        claimed.readAt ||
+        getNotificationChannel(preferences, claimed.type as NotificationType) !== "email"
+      ) {
+        continue;
+      }
+
+      await sendMail({ to: user.email, ...notificationEmail(user, claimed) });
+      sent++;
+    }
+    return sent;
+  }
+}
+
+let queuedEmailSender: QueuedEmailSender | null = null;
+
+export function startQueuedNotificationEmails(clock?: Clock): QueuedEmailSender {
+  if (!queuedEmailSender) {
+    queuedEmailSender = new QueuedEmailSender(clock);
+    queuedEmailSender.start();
+  }
+  return queuedEmailSender;
+}
+
+// Tell a message's recipient about it, however it was sent, unless they
+// muted the conversation
+export async function notifyNewMessage(message: Message, sender: User): Promise<void> {
+  if (!message.receiverId) return;
+
+  const conversation = message.conversationId !== null ? await storage.getConversation(message.conversationId) : undefined;
+  const role = conversation && getConversationRole(conversation, message.receiverId);
+  if (conversation && (role === "buyer" ? conversation.buyerMuted : role === "seller" && conversation.sellerMuted)) return;
+
+  const content = getMessagePreview(message);
+  const preview = content.length > MESSAGE_PREVIEW_LENGTH
+    ? `${content.slice(0, MESSAGE_PREVIEW_LENGTH - 1)}…`
+    : content;
+
+  await notify({
+    userId: message.receiverId,
+    type: "message",
+    title: `New message from ${sender.username}`,
+    body: preview,
+    link: "/messages",
+    listingId: message.listingId,
+  });
+}
+
+// Preferences as sent to clients, with every event type's channel filled in
+function withAllChannels(preferences: NotificationPreferences): NotificationPreferences {
+  return { ...preferences, channels: { ...defaultNotificationChannels, ...preferences.channels } };
+}
+
+export function setupNotificationRoutes(app: Express) {
+  // The current user's notifications, newest first, with their unread count
+  app.get("/api/notifications", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const page = pageQuerySchema.parse(req.query);
+      const notifications = await storage.getNotificationsByUserId(req.user.id, page);
+      const unreadCount = await storage.getUnreadNotificationCount(req.user.id);
+
+      const result: NotificationPage = { ...notifications, unreadCount };
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const notification = await storage.getNotification(parseInt(req.params.id));
+
+      if (!notification || notification.userId !== req.user.id) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+
+      const readNotification = await storage.markNotificationRead(notification.id);
+      res.json(readNotification);
+    } catch (error) {
+      console.error("Error marking notification as read:", error);
+      res.status(500).json({ error: "Failed to update notification" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const marked = await storage.markAllNotificationsRead(req.user.id);
+      res.json({ marked });
+    } catch (error) {
+      console.error("Error marking notifications as read:", error);
+      res.status(500).json({ error: "Failed to update notifications" });
+    }
+  });
+
+  app.get("/api/notification-preferences", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      res.json(withAllChannels(await getNotificationPreferences(req.user.id)));
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ error: "Failed to fetch notification preferences" });
+    }
+  });
+
+  // Change some preferences; channels are merged into the ones already chosen
+  app.patch("/api/notification-preferences", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const changes = updateNotificationPreferencesSchema.parse(req.body);
+      const current = await getNotificationPreferences(req.user.id);
+
+      const preferences = await storage.saveNotificationPreferences(req.user.id, {
+        ...changes,
+        channels: { ...current.channels, ...changes.channels },
+      });
+      res.json(withAllChannels(preferences));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error updating notification preferences:", error);
+      res.status(500).json({ error: "Failed to update notification preferences" });
+    }
+  });
+}
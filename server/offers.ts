@@ -0,0 +1,249 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { getWebSocketServer, MessageType } from "./websocket";
+import { notify } from "./notifications";
+import { isVerifiedUser, VERIFICATION_REQUIRED_ERROR } from "./verification";
+import { CROSS_CAMPUS_MESSAGING_ERROR, isCrossCampusMessagingAllowed } from "./universities";
+import { insertOfferSchema, type Listing, type Offer } from "@shared/schema";
+
+// How long an offer stays open before it expires
+const OFFER_TTL_MS = 48 * 60 * 60 * 1000;
+
+const counterSchema = z.object({
+  amount: z.coerce.number().int().positive("Offer amount must be greater than zero"),
+});
+
+// The party who has to respond: the seller for a buyer's offer, the buyer for a counter
+function getRecipientId(offer: Offer, listing: Listing): number | null {
+  return offer.senderId === offer.buyerId ? listing.userId : offer.buyerId;
+}
+
+// Push an offer change to both sides of the negotiation
+function broadcastOffer(offer: Offer, listing: Listing) {
+  const wsServer = getWebSocketServer();
+  if (!wsServer) return;
+
+  const message = { type: MessageType.OFFER, payload: offer };
+  wsServer.sendToUser(offer.buyerId, message);
+  if (listing.userId) {
+    wsServer.sendToUser(listing.userId, message);
+  }
+}
+
+// Tell one side of the negotiation about a change it needs to know about
+async function notifyOffer(userId: number | null, title: string, offer: Offer, listing: Listing) {
+  if (!userId) return;
+
+  await notify({
+    userId,
+    type: "offer",
+    title,
+    body: `$${offer.amount} for "${listing.title}"`,
+    link: "/messages",
+    listingId: listing.id,
+  });
+}
+
+// Offers expire lazily whenever offers are read or acted on
+async function expireStaleOffers() {
+  const expired = await storage.expireOffers();
+  for (const offer of expired) {
+    const listing = await storage.getListing(offer.listingId);
+    if (listing) {
+      broadcastOffer(offer, listing);
+    }
+  }
+}
+
+type OfferAction = (offer: Offer, listing: Listing, req: Request, res: Response) => Promise<unknown>;
+
+// Wrap a response to a pending offer with the shared lookup and permission checks.
+// Withdrawing is done by the sender; everything else by the recipient.
+function offerAction(actor: "sender" | "recipient", action: OfferAction) {
+  return async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      await expireStaleOffers();
+
+      const offer = await storage.getOffer(parseInt(req.params.id));
+      const listing = offer && await storage.getListing(offer.listingId);
+
+      if (!offer || !listing) {
+        return res.status(404).json({ error: "Offer not found" });
+      }
+
+      const allowedUserId = actor === "sender" ? offer.senderId : getRecipientId(offer, listing);
+      if (allowedUserId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to respond to this offer" });
+      }
+
+      if (offer.status !== "pending") {
+        return res.status(400).json({ error: `Offer is already ${offer.status}` });
+      }
+
+      await action(offer, listing, req, res);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error updating offer:", error);
+      res.status(500).json({ error: "Failed to update offer" });
+    }
+  };
+}
+
+export function setupOfferRoutes(app: Express) {
+  // Get the offers between the current user and another user on a listing
+  app.get("/api/offers/:userId/:listingId", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const currentUserId = req.user.id;
+      const otherUserId = parseInt(req.params.userId);
+      const listing = await storage.getListing(parseInt(req.params.listingId));
+
+      if (!listing) {
+        return res.status(404).json({ error: "Listing not found" });
+      }
+
+      // Offers are keyed by buyer: whichever participant doesn't own the listing
+      const buyerId = listing.userId === currentUserId ? otherUserId : currentUserId;
+
+      await expireStaleOffers();
+      const offers = await storage.getOffersByConversation(listing.id, buyerId);
+      res.json(offers);
+    } catch (error) {
+      console.error("Error fetching offers:", error);
+      res.status(500).json({ error: "Failed to fetch offers" });
+    }
+  });
+
+  // Make an offer on a listing
+  app.post("/api/offers", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      if (!isVerifiedUser(req.user)) {
+        return res.status(403).json({ error: VERIFICATION_REQUIRED_ERROR });
+      }
+
+      const buyerId = req.user.id;
+      const offerData = insertOfferSchema.parse({
+        listingId: req.body.listingId,
+        buyerId,
+        senderId: buyerId,
+        amount: req.body.amount,
+        expiresAt: new Date(Date.now() + OFFER_TTL_MS),
+      });
+
+      const listing = await storage.getListing(offerData.listingId);
+
+      if (!listing) {
+        return res.status(404).json({ error: "Listing not found" });
+      }
+
+      if (listing.userId === buyerId) {
+        return res.status(400).json({ error: "You cannot make an offer on your own listing" });
+      }
+
+      if (!(await isCrossCampusMessagingAllowed(req.user, listing))) {
+        return res.status(403).json({ error: CROSS_CAMPUS_MESSAGING_ERROR });
+      }
+
+      if (listing.status !== "active") {
+        return res.status(400).json({ error: "This listing is no longer accepting offers" });
+      }
+
+      // Only one open offer per buyer and listing
+      await expireStaleOffers();
+      const existingOffers = await storage.getOffersByConversation(listing.id, buyerId);
+      if (existingOffers.some((offer) => offer.status === "pending")) {
+        return res.status(400).json({ error: "There is already a pending offer on this listing" });
+      }
+
+      const offer = await storage.createOffer(offerData);
+      broadcastOffer(offer, listing);
+      await notifyOffer(listing.userId, `New offer from ${req.user.username}`, offer, listing);
+      res.status(201).json(offer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error creating offer:", error);
+      res.status(500).json({ error: "Failed to create offer" });
+    }
+  });
+
+  // Counter a pending offer with a new amount
+  app.post("/api/offers/:id/counter", offerAction("recipient", async (offer, listing, req, res) => {
+    const { amount } = counterSchema.parse(req.body);
+
+    const counter = await storage.counterOffer(offer.id, {
+      listingId: offer.listingId,
+      buyerId: offer.buyerId,
+      senderId: req.user!.id,
+      amount,
+      expiresAt: new Date(Date.now() + OFFER_TTL_MS),
+    });
+
+    if (!counter) {
+      return res.status(409).json({ error: "Offer is no longer pending" });
+    }
+
+    broadcastOffer({ ...offer, status: "countered" }, listing);
+    broadcastOffer(counter, listing);
+    await notifyOffer(getRecipientId(counter, listing), `${req.user!.username} countered your offer`, counter, listing);
+    res.status(201).json(counter);
+  }));
+
+  // Accept a pending offer; the listing moves from active to pending
+  app.post("/api/offers/:id/accept", offerAction("recipient", async (offer, listing, _req, res) => {
+    if (listing.status !== "active") {
+      return res.status(400).json({ error: "This listing is no longer accepting offers" });
+    }
+
+    const result = await storage.acceptOffer(offer.id);
+
+    if (!result) {
+      return res.status(409).json({ error: "Offer is no longer pending" });
+    }
+
+    broadcastOffer(result.offer, result.listing);
+    await notifyOffer(result.offer.senderId, "Your offer was accepted", result.offer, result.listing);
+    res.json(result.offer);
+  }));
+
+  // Decline a pending offer
+  app.post("/api/offers/:id/decline", offerAction("recipient", async (offer, listing, _req, res) => {
+    const declined = await storage.updateOfferStatus(offer.id, "declined");
+
+    if (!declined) {
+      return res.status(409).json({ error: "Offer is no longer pending" });
+    }
+
+    broadcastOffer(declined, listing);
+    await notifyOffer(declined.senderId, "Your offer was declined", declined, listing);
+    res.json(declined);
+  }));
+
+  // Withdraw an offer the current user made
+  app.post("/api/offers/:id/withdraw", offerAction("sender", async (offer, listing, _req, res) => {
+    const withdrawn = await storage.updateOfferStatus(offer.id, "withdrawn");
+
+    if (!withdrawn) {
+      return res.status(409).json({ error: "Offer is no longer pending" });
+    }
+
+    broadcastOffer(withdrawn, listing);
+    await notifyOffer(getRecipientId(withdrawn, listing), "An offer was withdrawn", withdrawn, listing);
+    res.json(withdrawn);
+  }));
+}
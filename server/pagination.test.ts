@@ -0,0 +1,32 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { decodeCursor, encodeCursor, toPage } from "./pagination";
+
+test("cursors round-trip through their encoding", () => {
+  const cursor = { createdAt: new Date("2026-03-01T12:34:56.789Z"), id: 42, price: 15, rank: 0.25 };
+  assert.deepEqual(decodeCursor(encodeCursor(cursor)), cursor);
+});
+
+test("cursors are opaque url-safe strings", () => {
+  const encoded = encodeCursor({ createdAt: new Date(0), id: 1 });
+  assert.match(encoded, /^[A-Za-z0-9_-]+$/);
+});
+
+test("malformed cursors raise a ZodError", () => {
+  assert.throws(() => decodeCursor("not a cursor"), z.ZodError);
+  const missingId = Buffer.from(JSON.stringify({ createdAt: new Date().toISOString() })).toString("base64url");
+  assert.throws(() => decodeCursor(missingId), z.ZodError);
+});
+
+test("toPage only returns a cursor when there are more rows", () => {
+  const rows = [3, 2, 1].map(id => ({ id, createdAt: new Date(id * 1000) }));
+
+  const full = toPage(rows, 2, row => row);
+  assert.deepEqual(full.items.map(row => row.id), [3, 2]);
+  assert.deepEqual(decodeCursor(full.nextCursor!), { createdAt: new Date(2000), id: 2 });
+
+  const last = toPage(rows, 3, row => row);
+  assert.equal(last.items.length, 3);
+  assert.equal(last.nextCursor, null);
+});
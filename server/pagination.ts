@@ -0,0 +1,60 @@
+import { z } from "zod";
+import type { Page } from "@shared/schema";
+
+// Page size used when a request does not ask for one
+export const DEFAULT_PAGE_SIZE = 20;
+
+// Position of the last row on a page; price and rank are only set for listings
+// sorted by price or search relevance
+export interface Cursor {
+  createdAt: Date;
+  id: number;
+  price?: number;
+  rank?: number;
+}
+
+const cursorFieldsSchema = z.object({
+  createdAt: z.coerce.date(),
+  id: z.number().int(),
+  price: z.number().int().optional(),
+  rank: z.number().optional(),
+});
+
+// Cursors are base64url-encoded JSON so clients treat them as opaque strings.
+// Malformed cursors raise a ZodError, which routes already turn into a 400.
+const cursorSchema = z
+  .string()
+  .transform((value, ctx) => {
+    try {
+      return JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+      return z.NEVER;
+    }
+  })
+  .pipe(cursorFieldsSchema);
+
+export function encodeCursor(cursor: Cursor): string {
+  const value = {
+    createdAt: cursor.createdAt.toISOString(),
+    id: cursor.id,
+    price: cursor.price,
+    rank: cursor.rank,
+  };
+  return Buffer.from(JSON.stringify(value), "utf8").toString("base64url");
+}
+
+export function decodeCursor(value: string): Cursor {
+  return cursorSchema.parse(value);
+}
+
+// Build a page from rows fetched with one extra row beyond the limit
+export function toPage<T>(rows: T[], limit: number, getCursor: (row: T) => Cursor): Page<T> {
+  const items = rows.slice(0, limit);
+  const hasMore = rows.length > limit;
+
+  return {
+    items,
+    nextCursor: hasMore ? encodeCursor(getCursor(items[items.length - 1])) : null,
+  };
+}
@@ -0,0 +1,138 @@
+import type { Express } from "express";
+import { z } from "zod";
+import webpush, { WebPushError } from "web-push";
+import { storage } from "./storage";
+import { log } from "./vite";
+import { pushSubscriptionSchema, type Notification } from "@shared/schema";
+
+// How long a push service holds a notification for an unreachable device
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+// Notification types worth waking a device for
+const PUSH_NOTIFICATION_TYPES = ["message", "offer"];
+
+// What the service worker needs to show a notification
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string; // App path opened when the notification is clicked
+  tag: string; // Notifications with the same tag replace each other
+}
+
+const unsubscribeSchema = z.object({
+  endpoint: z.string().url(),
+});
+
+let vapidPublicKey: string | null = null;
+
+// Configure web-push from VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT.
+// Without them a key pair is generated for this run only, which is enough for
+// development but invalidates every subscription on restart.
+function getVapidPublicKey(): string {
+  if (!vapidPublicKey) {
+    let publicKey = process.env.VAPID_PUBLIC_KEY;
+    let privateKey = process.env.VAPID_PRIVATE_KEY;
+    if (!publicKey || !privateKey) {
+      ({ publicKey, privateKey } = webpush.generateVAPIDKeys());
+      log("VAPID keys not configured; generated temporary keys for Web Push", "push");
+    }
+    webpush.setVapidDetails(process.env.VAPID_SUBJECT || "mailto:no-reply@studentswap.local", publicKey, privateKey);
+    vapidPublicKey = publicKey;
+  }
+  return vapidPublicKey;
+}
+
+// Push payload for a notification, or null if it shouldn't be pushed
+export function toPushPayload(notification: Notification): PushPayload | null {
+  if (!PUSH_NOTIFICATION_TYPES.includes(notification.type)) {
+    return null;
+  }
+
+  return {
+    title: notification.title,
+    body: notification.body,
+    url: notification.link ?? "/messages",
+    tag: `${notification.type}-${notification.listingId ?? notification.id}`,
+  };
+}
+
+// Send a push to every device the user subscribed, dropping subscriptions the
+// push service reports as gone
+export async function sendPushToUser(userId: number, payload: PushPayload): Promise<void> {
+  const subscriptions = await storage.getPushSubscriptionsByUserId(userId);
+  if (subscriptions.length === 0) return;
+
+  getVapidPublicKey();
+  for (const subscription of subscriptions) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        JSON.stringify(payload),
+        { TTL: PUSH_TTL_SECONDS }
+      );
+    } catch (error) {
+      if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+        await storage.deletePushSubscription(subscription.endpoint);
+      } else {
+        console.error(`Error sending push to user ${userId}:`, error);
+      }
+    }
+  }
+}
+
+export function setupPushRoutes(app: Express) {
+  // Public key browsers need to subscribe to pushes from this server
+  app.get("/api/push/public-key", (_req, res) => {
+    res.json({ publicKey: getVapidPublicKey() });
+  });
+
+  // Register this device for push notifications
+  app.post("/api/push/subscriptions", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const { endpoint, keys } = pushSubscriptionSchema.parse(req.body);
+      const subscription = await storage.savePushSubscription({
+        userId: req.user.id,
+        endpoint,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+      });
+
+      res.status(201).json({ id: subscription.id, endpoint: subscription.endpoint });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error saving push subscription:", error);
+      res.status(500).json({ error: "Failed to save push subscription" });
+    }
+  });
+
+  // Stop pushing to a device, e.g. when push is turned off or on logout
+  app.delete("/api/push/subscriptions", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const { endpoint } = unsubscribeSchema.parse(req.body);
+      const subscriptions = await storage.getPushSubscriptionsByUserId(req.user.id);
+
+      if (!subscriptions.some(subscription => subscription.endpoint === endpoint)) {
+        return res.status(404).json({ error: "Push subscription not found" });
+      }
+
+      await storage.deletePushSubscription(endpoint);
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error deleting push subscription:", error);
+      res.status(500).json({ error: "Failed to delete push subscription" });
+    }
+  });
+}
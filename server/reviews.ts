@@ -0,0 +1,79 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { notify } from "./notifications";
+import { insertReviewSchema } from "@shared/schema";
+
+export function setupReviewRoutes(app: Express) {
+  // Review the other side of a completed sale
+  app.post("/api/transactions/:id/reviews", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const reviewerId = req.user.id;
+      const transaction = await storage.getTransaction(parseInt(req.params.id));
+
+      if (!transaction) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+
+      if (transaction.sellerId !== reviewerId && transaction.buyerId !== reviewerId) {
+        return res.status(403).json({ error: "Only the buyer and seller can review this transaction" });
+      }
+
+      const reviewData = insertReviewSchema.parse({
+        transactionId: transaction.id,
+        reviewerId,
+        revieweeId: transaction.sellerId === reviewerId ? transaction.buyerId : transaction.sellerId,
+        rating: req.body.rating,
+        comment: req.body.comment || null,
+      });
+
+      const review = await storage.createReview(reviewData);
+
+      if (!review) {
+        return res.status(400).json({ error: "You have already reviewed this transaction" });
+      }
+
+      await notify({
+        userId: review.revieweeId,
+        type: "review",
+        title: `${req.user.username} left you a ${review.rating}-star review`,
+        body: review.comment || "No comment",
+        link: "/profile",
+        listingId: transaction.listingId,
+      });
+
+      res.status(201).json(review);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error creating review:", error);
+      res.status(500).json({ error: "Failed to create review" });
+    }
+  });
+
+  // Reviews a user has received, newest first
+  app.get("/api/users/:id/reviews", async (req, res) => {
+    try {
+      const reviews = await storage.getReviewsByRevieweeId(parseInt(req.params.id));
+
+      const result = [];
+      for (const review of reviews) {
+        const reviewer = await storage.getUser(review.reviewerId);
+        result.push({
+          ...review,
+          reviewer: reviewer && { id: reviewer.id, username: reviewer.username },
+        });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+      res.status(500).json({ error: "Failed to fetch reviews" });
+    }
+  });
+}
@@ -1,79 +1,75 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertListingSchema, insertFavoriteSchema, insertMessageSchema } from "@shared/schema";
+import { storage, ConversationError } from "./storage";
+import { getListingExpiry, publishListingSchema, updateListingSchema, draftListingSchema, insertFavoriteSchema, insertMessageSchema, messageAttachmentIdsSchema, listingQuerySchema, pageQuerySchema, conversationQuerySchema, readConversationSchema, updateConversationSchema } from "@shared/schema";
 import { z } from "zod";
 import { setupAuth } from "./auth";
+import { setupOfferRoutes } from "./offers";
+import { setupTransactionRoutes } from "./transactions";
+import { setupReviewRoutes } from "./reviews";
+import { ownsUploads, setupUploadRoutes, withImageDetails } from "./uploads";
+import { AttachmentError, setupAttachmentRoutes, withAttachments } from "./attachments";
+import { setupDraftRoutes } from "./drafts";
+import { PAST_EXPERIENCE_ERROR, setupListingExpiryRoutes, startListingExpirySweeper } from "./expiry";
+import { setupMeetupRoutes, startMeetupReminders } from "./meetups";
+import { matchSavedSearches, setupSavedSearchRoutes } from "./saved-searches";
+import { setupFavoriteAlerts } from "./favorite-alerts";
+import { notifyNewMessage, setupNotificationRoutes, startQueuedNotificationEmails } from "./notifications";
+import { startNotificationDigest } from "./digest";
+import { setupPushRoutes } from "./push";
+import { isVerifiedUser, VERIFICATION_REQUIRED_ERROR } from "./verification";
+import {
+  areUniversityMeetupSpots,
+  backfillUniversities,
+  CROSS_CAMPUS_MESSAGING_ERROR,
+  getCampusUniversityIds,
+  getListingMeetupSpots,
+  getMeetupArea,
+  INVALID_MEETUP_SPOTS_ERROR,
+  isCrossCampusMessagingAllowed,
+  seedUniversities,
+  setupUniversityRoutes,
+} from "./universities";
 import { setupWebSocketServer, getWebSocketServer } from "./websocket";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Make sure the university directory is loaded before anyone registers
+  await seedUniversities();
+
+  // Users and listings from before universities were tracked would otherwise
+  // fall outside every campus scope
+  backfillUniversities()
+    .then(({ users, listings }) => (users > 0 || listings > 0) &&
+      console.log(`Assigned universities to ${users} users and ${listings} listings`))
+    .catch((error) => console.error("Error backfilling universities:", error));
+
   // Set up authentication routes
-  setupAuth(app);
+  const sessionParser = setupAuth(app);
+
+  // University directory endpoints
+  setupUniversityRoutes(app);
 
   // Get all listings with optional filters
   app.get("/api/listings", async (req, res) => {
     try {
-      const filter: Record<string, any> = {};
-
-      // Parse query parameters for filtering
-      if (req.query.category) {
-        filter.category = Array.isArray(req.query.category) 
-          ? req.query.category 
-          : [req.query.category];
-      }
-      
-      if (req.query.condition) {
-        filter.condition = Array.isArray(req.query.condition) 
-          ? req.query.condition 
-          : [req.query.condition];
-      }
-      
-      if (req.query.minPrice && req.query.maxPrice) {
-        const minPrice = parseInt(req.query.minPrice as string);
-        const maxPrice = parseInt(req.query.maxPrice as string);
-        
-        // Custom filter to handle price range
-        const listings = await storage.getListings();
-        const filteredListings = listings.filter(listing => 
-          listing.price >= minPrice && listing.price <= maxPrice
-        );
-        
-        return res.json(filteredListings);
-      }
-      
-      // Enhanced search by title, description, category, or condition
-      if (req.query.search) {
-        const searchInput = (req.query.search as string).toLowerCase();
-        // Split search input into individual terms for better matching
-        const searchTerms = searchInput.split(/\s+/).filter(term => term.length > 0);
-        
-        const listings = await storage.getListings();
-        
-        // If no search terms after filtering, return all listings
-        if (searchTerms.length === 0) {
-          return res.json(listings);
-        }
-        
-        const filteredListings = listings.filter(listing => {
-          // Fields to search in
-          const searchableText = [
-            listing.title.toLowerCase(),
-            listing.description ? listing.description.toLowerCase() : '',
-            listing.category ? listing.category.toLowerCase() : '',
-            listing.condition ? listing.condition.toLowerCase() : '',
-            listing.type.toLowerCase() // Also search in listing type
-          ].join(' ');
-          
-          // Check if any of the search terms are found in the combined text
-          return searchTerms.some(term => searchableText.includes(term));
-        });
-        
-        return res.json(filteredListings);
-      }
-
-      const listings = await storage.getListings(filter);
-      res.json(listings);
+      // Validate and coerce query parameters into a listing query
+      const query = listingQuerySchema.parse(req.query);
+
+      // Default to the viewer's own campus; a seller's listings are shown from every school
+      const universityIds = query.userId
+        ? undefined
+        : await getCampusUniversityIds(req.user, query.campus);
+      // Distances are measured from the viewer's campus too
+      const meetupArea = query.userId
+        ? undefined
+        : await getMeetupArea(req.user, query.distance);
+
+      const listings = await storage.getListings({ ...query, universityIds, meetupArea });
+      res.json({ items: await withImageDetails(listings.items), nextCursor: listings.nextCursor });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
       console.error("Error fetching listings:", error);
       res.status(500).json({ error: "Failed to fetch listings" });
     }
@@ -83,19 +79,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/listings/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const listing = await storage.getListing(id);
+      const found = await storage.getListing(id);
       
-      if (!listing) {
+      // Drafts are only visible to their seller
+      if (!found || (found.status === "draft" && found.userId !== req.user?.id)) {
         return res.status(404).json({ error: "Listing not found" });
       }
       
+      const [withImages] = await withImageDetails([found]);
+      const listing = { ...withImages, meetupSpots: await getListingMeetupSpots(found) };
+      
       // Get the owner details for the listing
       const owner = await storage.getUser(listing.userId ?? 0);
       
       // Remove password from the response
       if (owner) {
         const { password, ...safeOwner } = owner;
-        return res.json({ ...listing, owner: safeOwner });
+        const rating = await storage.getUserRating(owner.id);
+        return res.json({ ...listing, owner: { ...safeOwner, rating } });
       }
       
       res.json(listing);
@@ -112,16 +113,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ error: "Not authenticated" });
       }
       
+      if (!isVerifiedUser(req.user)) {
+        return res.status(403).json({ error: VERIFICATION_REQUIRED_ERROR });
+      }
+      
       const userId = req.user?.id;
       
-      // Validate listing data
-      const listingData = insertListingSchema.parse({
+      // Validate listing data; listings belong to the seller's university
+      const listingData = publishListingSchema.parse({
         ...req.body,
-        userId
+        userId,
+        universityId: req.user.universityId
       });
       
+      if (!(await ownsUploads(req.user.id, listingData.images ?? []))) {
+        return res.status(400).json({ error: "Listing images must be your own uploads" });
+      }
+      
+      if (!(await areUniversityMeetupSpots(listingData.universityId ?? null, listingData.meetupSpotIds ?? []))) {
+        return res.status(400).json({ error: INVALID_MEETUP_SPOTS_ERROR });
+      }
+      
+      // Experiences expire on their date, so one in the past would go live expired
+      const now = new Date();
+      if (getListingExpiry(listingData, now) <= now) {
+        return res.status(400).json({ error: PAST_EXPERIENCE_ERROR });
+      }
+      
       const newListing = await storage.createListing(listingData);
       res.status(201).json(newListing);
+      
+      // Alert students whose saved searches the listing matches
+      matchSavedSearches(newListing).catch((error) => console.error("Error matching saved searches:", error));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
@@ -131,8 +154,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update a listing
-  app.put("/api/listings/:id", async (req, res) => {
+  // Edit a listing; only the fields in updateListingSchema can change, and
+  // status changes go through POST /api/listings/:id/status
+  const updateListing = async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ error: "Not authenticated" });
@@ -149,14 +173,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Not authorized to update this listing" });
       }
       
-      // Validate and update listing
-      const updatedListing = await storage.updateListing(id, req.body);
+      const changes = listing.status === "draft"
+        ? draftListingSchema.parse(req.body)
+        : updateListingSchema.parse(req.body);
+      
+      // Images already on the listing can be kept or reordered; new ones must be the seller's uploads
+      if (changes.images) {
+        const addedImages = changes.images.filter(image => !listing.images?.includes(image));
+        if (!(await ownsUploads(req.user.id, addedImages))) {
+          return res.status(400).json({ error: "Listing images must be your own uploads" });
+        }
+      }
+      
+      if (changes.meetupSpotIds && !(await areUniversityMeetupSpots(listing.universityId, changes.meetupSpotIds))) {
+        return res.status(400).json({ error: INVALID_MEETUP_SPOTS_ERROR });
+      }
+      
+      // Live experiences expire when they take place, so follow date changes
+      const type = changes.type ?? listing.type;
+      const date = changes.date === undefined ? listing.date : changes.date;
+      const expiry = listing.status !== "draft" && type === "experience" && date && ("date" in changes || "type" in changes)
+        ? { expiresAt: getListingExpiry({ type, date }, new Date()) }
+        : {};
+      
+      const updatedListing = await storage.updateListing(id, { ...changes, ...expiry });
       res.json(updatedListing);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
       console.error("Error updating listing:", error);
       res.status(500).json({ error: "Failed to update listing" });
     }
-  });
+  };
+  
+  app.patch("/api/listings/:id", updateListing);
+  app.put("/api/listings/:id", updateListing);
 
   // Delete a listing
   app.delete("/api/listings/:id", async (req, res) => {
@@ -176,6 +228,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Not authorized to delete this listing" });
       }
       
+      // Sold listings keep the sale and its reviews, so they can't be deleted
+      if (listing.status === "sold" || await storage.getTransactionByListingId(id)) {
+        return res.status(409).json({ error: "Sold listings can't be deleted" });
+      }
+      
       const deleted = await storage.deleteListing(id);
       
       if (deleted) {
@@ -199,23 +256,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const userId = req.user.id;
-      const favorites = await storage.getFavoritesByUserId(userId);
+      const page = pageQuerySchema.parse(req.query);
+      const favorites = await storage.getFavoritesByUserId(userId, page);
       
       // Get the full listing details for each favorite
       const favoritesWithListings = await Promise.all(
-        favorites.map(async (favorite) => {
+        favorites.items.map(async (favorite) => {
           const listing = await storage.getListing(favorite.listingId);
-          return { ...favorite, listing };
+          return { ...favorite, listing: listing && (await withImageDetails([listing]))[0] };
         })
       );
       
-      res.json(favoritesWithListings);
+      res.json({ items: favoritesWithListings, nextCursor: favorites.nextCursor });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
       console.error("Error fetching favorites:", error);
       res.status(500).json({ error: "Failed to fetch favorites" });
     }
   });
 
+  // Get the ids of all listings the current user has favorited
+  app.get("/api/favorites/ids", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      const listingIds = await storage.getFavoriteListingIds(req.user.id);
+      res.json(listingIds);
+    } catch (error) {
+      console.error("Error fetching favorite ids:", error);
+      res.status(500).json({ error: "Failed to fetch favorites" });
+    }
+  });
+
   // Add a listing to favorites
   app.post("/api/favorites", async (req, res) => {
     try {
@@ -274,84 +350,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Messages endpoints
   
-  // Get all conversations for the current user
+  // Get the current user's conversations, most recent first; archived ones with ?archived=true
   app.get("/api/messages", async (req, res) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ error: "Not authenticated" });
       }
       
-      const userId = req.user.id;
-      const messages = await storage.getMessagesByUserId(userId);
-      
-      // Get unique conversations by grouping messages by the other user
-      const conversations = new Map();
-      
-      for (const message of messages) {
-        const otherUserId = message.senderId === userId ? message.receiverId : message.senderId;
-        const listingId = message.listingId;
-        const key = `${otherUserId}-${listingId}`;
-        
-        if (!conversations.has(key)) {
-          const otherUser = await storage.getUser(otherUserId);
-          const listing = await storage.getListing(listingId);
-          
-          if (otherUser && listing) {
-            const { password, ...safeUser } = otherUser;
-            conversations.set(key, {
-              otherUser: safeUser,
-              listing,
-              lastMessage: message,
-              unreadCount: message.receiverId === userId && !message.read ? 1 : 0
-            });
-          }
-        } else {
-          const conversation = conversations.get(key);
-          // Update last message if this one is newer
-          if (message.createdAt > conversation.lastMessage.createdAt) {
-            conversation.lastMessage = message;
-          }
-          // Count unread messages
-          if (message.receiverId === userId && !message.read) {
-            conversation.unreadCount++;
-          }
-        }
-      }
-      
-      res.json(Array.from(conversations.values()));
+      const query = conversationQuerySchema.parse(req.query);
+      const conversations = await storage.getConversationsByUserId(req.user.id, query);
+      res.json(conversations);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
       console.error("Error fetching conversations:", error);
       res.status(500).json({ error: "Failed to fetch conversations" });
     }
   });
 
-  // Get messages between users for a specific listing
-  app.get("/api/messages/:userId/:listingId", async (req, res) => {
+  // Archive or mute a conversation for the current user only
+  app.patch("/api/conversations/:id", async (req, res) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ error: "Not authenticated" });
       }
       
-      const currentUserId = req.user.id;
-      const otherUserId = parseInt(req.params.userId);
-      const listingId = parseInt(req.params.listingId);
+      const changes = updateConversationSchema.parse(req.body);
+      const conversation = await storage.updateConversation(parseInt(req.params.id), req.user.id, changes);
       
-      const messages = await storage.getMessagesBetweenUsers(currentUserId, otherUserId, listingId);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
       
-      // Mark received messages as read
-      for (const message of messages) {
-        if (message.receiverId === currentUserId && !message.read) {
-          await storage.markMessageAsRead(message.id);
-        }
+      res.json(conversation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
       }
+      console.error("Error updating conversation:", error);
+      res.status(500).json({ error: "Failed to update conversation" });
+    }
+  });
+
+  // Get messages between users for a specific listing, newest first, one
+  // page at a time. Reading them is a separate request, made once they are shown.
+  app.get("/api/messages/:userId/:listingId", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      const page = pageQuerySchema.parse(req.query);
+      const conversation = await storage.getConversationBetween(
+        parseInt(req.params.listingId),
+        req.user.id,
+        parseInt(req.params.userId)
+      );
       
-      res.json(messages);
+      if (!conversation) {
+        return res.json({ items: [], nextCursor: null });
+      }
+      
+      res.json(await storage.getConversationMessages(conversation.id, page));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
       console.error("Error fetching messages:", error);
       res.status(500).json({ error: "Failed to fetch messages" });
     }
   });
 
+  // Mark a conversation read up to and including a message
+  app.post("/api/conversations/:id/read", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      const { messageId } = readConversationSchema.parse(req.body);
+      const conversation = await storage.markConversationRead(parseInt(req.params.id), req.user.id, messageId);
+      
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      
+      getWebSocketServer()?.sendReadReceipt(conversation, req.user.id);
+      res.json(conversation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error marking conversation read:", error);
+      res.status(500).json({ error: "Failed to mark conversation read" });
+    }
+  });
+
   // Send a message
   app.post("/api/messages", async (req, res) => {
     try {
@@ -359,27 +454,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ error: "Not authenticated" });
       }
       
+      if (!isVerifiedUser(req.user)) {
+        return res.status(403).json({ error: VERIFICATION_REQUIRED_ERROR });
+      }
+      
       const senderId = req.user.id;
       
       // Validate message data
-      const messageData = insertMessageSchema.parse({
-        senderId,
-        receiverId: req.body.receiverId,
-        listingId: req.body.listingId,
-        content: req.body.content
-      });
+      const messageData = await withAttachments(
+        insertMessageSchema.parse({
+          senderId,
+          receiverId: req.body.receiverId,
+          listingId: req.body.listingId,
+          content: req.body.content ?? ""
+        }),
+        messageAttachmentIdsSchema.parse(req.body.attachmentIds)
+      );
+      
+      const listing = messageData.listingId ? await storage.getListing(messageData.listingId) : undefined;
+      if (listing && !(await isCrossCampusMessagingAllowed(req.user, listing))) {
+        return res.status(403).json({ error: CROSS_CAMPUS_MESSAGING_ERROR });
+      }
       
       const newMessage = await storage.createMessage(messageData);
+      await notifyNewMessage(newMessage, req.user);
       res.status(201).json(newMessage);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
+      if (error instanceof ConversationError || error instanceof AttachmentError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error("Error sending message:", error);
       res.status(500).json({ error: "Failed to send message" });
     }
   });
 
+  // Offers endpoints
+  setupOfferRoutes(app);
+
+  // Listing status and sales endpoints
+  setupTransactionRoutes(app);
+
+  // Review endpoints
+  setupReviewRoutes(app);
+
+  // Image upload endpoints
+  setupUploadRoutes(app);
+
+  // Chat attachment endpoints
+  setupAttachmentRoutes(app);
+
+  // Meetup scheduling endpoints
+  setupMeetupRoutes(app);
+
+  // Draft listing endpoints
+  setupDraftRoutes(app);
+
+  // Listing renewal and bumping
+  setupListingExpiryRoutes(app);
+
+  // Saved search endpoints
+  setupSavedSearchRoutes(app);
+
+  // Price history and alerts for favorited listings
+  setupFavoriteAlerts(app);
+
+  // Notification center endpoints
+  setupNotificationRoutes(app);
+
+  // Web Push subscription endpoints
+  setupPushRoutes(app);
+
   // User profile endpoint
   app.get("/api/users/:id", async (req, res) => {
     try {
@@ -393,10 +540,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Remove password from the response
       const { password, ...safeUser } = user;
       
-      // Get user's listings
-      const listings = await storage.getListingsByUserId(id);
+      // Get user's listings; drafts are listed separately at /api/drafts
+      const listings = await withImageDetails(
+        (await storage.getListingsByUserId(id)).filter(listing => listing.status !== "draft")
+      );
       
-      res.json({ ...safeUser, listings });
+      // Get the user's aggregated review rating
+      const rating = await storage.getUserRating(id);
+      
+      res.json({ ...safeUser, listings, rating });
     } catch (error) {
       console.error("Error fetching user profile:", error);
       res.status(500).json({ error: "Failed to fetch user profile" });
@@ -406,7 +558,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
   // Initialize WebSocket server
-  setupWebSocketServer(httpServer);
+  setupWebSocketServer(httpServer, sessionParser);
+  
+  // Expire stale listings, send digest and held-back emails and remind users of
+  // meetups in the background
+  startListingExpirySweeper();
+  startNotificationDigest();
+  startQueuedNotificationEmails();
+  startMeetupReminders();
+  
+  // Messages sent before conversations existed get threaded once
+  storage.backfillConversations()
+    .then((threaded) => threaded > 0 && console.log(`Threaded ${threaded} messages into conversations`))
+    .catch((error) => console.error("Error backfilling conversations:", error));
   
   return httpServer;
 }
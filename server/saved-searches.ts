@@ -0,0 +1,194 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage, matchesListingQuery, type MeetupArea } from "./storage";
+import { getSearchTerms, scoreListing } from "./search";
+import { getCampusUniversityIds, getMeetupArea } from "./universities";
+import { getWebSocketServer, MessageType } from "./websocket";
+import { notify } from "./notifications";
+import {
+  insertSavedSearchSchema,
+  MAX_SAVED_SEARCHES,
+  updateSavedSearchSchema,
+  type Listing,
+  type SavedSearch,
+  type User,
+} from "@shared/schema";
+
+// Whether a listing meets a saved search's filters, text search included
+function matchesSavedSearch(listing: Listing, search: SavedSearch, universityIds?: number[], meetupArea?: MeetupArea): boolean {
+  if (!matchesListingQuery(listing, { ...search.filters, universityIds, meetupArea })) {
+    return false;
+  }
+
+  const terms = getSearchTerms(search.filters.search);
+  return terms.length === 0 || scoreListing(listing, terms, search.filters.search ?? "") !== null;
+}
+
+// Record a listing that just went live against every saved search it matches
+// and tell the searchers about it. Sellers aren't alerted to their own listings.
+export async function matchSavedSearches(listing: Listing): Promise<void> {
+  const searchers = new Map<number, User | undefined>();
+  const matched: SavedSearch[] = [];
+
+  for (const search of await storage.getSavedSearchesForListingType(listing.type)) {
+    if (search.userId === listing.userId) {
+      continue;
+    }
+
+    if (!searchers.has(search.userId)) {
+      searchers.set(search.userId, await storage.getUser(search.userId));
+    }
+    const searcher = searchers.get(search.userId);
+    if (!searcher) {
+      continue;
+    }
+
+    // Campus scopes and distances are resolved against the searcher's school
+    const universityIds = await getCampusUniversityIds(searcher, search.filters.campus);
+    const meetupArea = await getMeetupArea(searcher, search.filters.distance);
+    if (matchesSavedSearch(listing, search, universityIds, meetupArea)) {
+      matched.push(search);
+    }
+  }
+
+  const matches = await storage.createSavedSearchMatches(
+    matched.map(search => ({ savedSearchId: search.id, listingId: listing.id }))
+  );
+
+  const wsServer = getWebSocketServer();
+  for (const match of matches) {
+    const search = matched.find(search => search.id === match.savedSearchId);
+    if (search) {
+      wsServer?.sendToUser(search.userId, {
+        type: MessageType.SAVED_SEARCH_MATCH,
+        payload: { savedSearch: { id: search.id, name: search.name }, listing },
+      });
+      await notify({
+        userId: search.userId,
+        type: "saved_search_match",
+        title: `New match for "${search.name}"`,
+        body: `${listing.title} — $${listing.price}`,
+        link: `/listings/${listing.id}`,
+        listingId: listing.id,
+      });
+    }
+  }
+}
+
+export function setupSavedSearchRoutes(app: Express) {
+  // The current user's saved searches with how many matches they haven't seen
+  app.get("/api/saved-searches", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const searches = await storage.getSavedSearchesByUserId(req.user.id);
+      const searchesWithCounts = await Promise.all(
+        searches.map(async (search) => ({
+          ...search,
+          newMatchCount: (await storage.getSavedSearchMatches(search.id, search.lastViewedAt)).length,
+        }))
+      );
+
+      res.json(searchesWithCounts);
+    } catch (error) {
+      console.error("Error fetching saved searches:", error);
+      res.status(500).json({ error: "Failed to fetch saved searches" });
+    }
+  });
+
+  // Save the current listing filters under a name
+  app.post("/api/saved-searches", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const searchData = insertSavedSearchSchema.parse({
+        ...req.body,
+        userId: req.user.id,
+      });
+
+      const existing = await storage.getSavedSearchesByUserId(req.user.id);
+      if (existing.length >= MAX_SAVED_SEARCHES) {
+        return res.status(400).json({ error: `You can save up to ${MAX_SAVED_SEARCHES} searches` });
+      }
+
+      const search = await storage.createSavedSearch(searchData);
+      res.status(201).json({ ...search, newMatchCount: 0 });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error saving search:", error);
+      res.status(500).json({ error: "Failed to save search" });
+    }
+  });
+
+  // Rename a saved search or turn its email alerts on or off
+  app.patch("/api/saved-searches/:id", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const search = await storage.getSavedSearch(parseInt(req.params.id));
+
+      if (!search || search.userId !== req.user.id) {
+        return res.status(404).json({ error: "Saved search not found" });
+      }
+
+      const changes = updateSavedSearchSchema.parse(req.body);
+      const updatedSearch = await storage.updateSavedSearch(search.id, changes);
+      res.json(updatedSearch);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error updating saved search:", error);
+      res.status(500).json({ error: "Failed to update saved search" });
+    }
+  });
+
+  // Mark a saved search's matches as seen, once its results have been opened
+  app.post("/api/saved-searches/:id/viewed", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const search = await storage.getSavedSearch(parseInt(req.params.id));
+
+      if (!search || search.userId !== req.user.id) {
+        return res.status(404).json({ error: "Saved search not found" });
+      }
+
+      const updatedSearch = await storage.updateSavedSearch(search.id, { lastViewedAt: new Date() });
+      res.json({ ...updatedSearch, newMatchCount: 0 });
+    } catch (error) {
+      console.error("Error updating saved search:", error);
+      res.status(500).json({ error: "Failed to update saved search" });
+    }
+  });
+
+  app.delete("/api/saved-searches/:id", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const search = await storage.getSavedSearch(parseInt(req.params.id));
+
+      if (!search || search.userId !== req.user.id) {
+        return res.status(404).json({ error: "Saved search not found" });
+      }
+
+      await storage.deleteSavedSearch(search.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+      res.status(500).json({ error: "Failed to delete saved search" });
+    }
+  });
+}
@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getSearchTerms, scoreListing, toRankTsQuery, wordSimilarity } from "./search";
+import type { Listing } from "@shared/schema";
+
+function listing(fields: Partial<Listing>): Listing {
+  return { title: "", description: null, category: "Other", ...fields } as Listing;
+}
+
+test("getSearchTerms lowercases and strips punctuation", () => {
+  assert.deepEqual(getSearchTerms("  IKEA desk-lamp, (white)! "), ["ikea", "desklamp", "white"]);
+});
+
+test("getSearchTerms drops the english stopwords Postgres ignores", () => {
+  assert.deepEqual(getSearchTerms("all about the chair into my room"), ["chair", "room"]);
+  assert.deepEqual(getSearchTerms(undefined), []);
+});
+
+test("getSearchTerms keeps accented letters", () => {
+  assert.deepEqual(getSearchTerms("Café crème"), ["café", "crème"]);
+});
+
+test("toRankTsQuery ORs prefix matches", () => {
+  assert.equal(toRankTsQuery(["desk", "lamp"]), "desk:* | lamp:*");
+});
+
+test("scoreListing requires every term and ranks title matches first", () => {
+  const desk = listing({ title: "Standing desk", description: "Comes with a lamp" });
+  const titleOnly = scoreListing(desk, ["desk"], "desk");
+  const bodyOnly = scoreListing(desk, ["lamp"], "lamp");
+
+  assert.ok(titleOnly !== null && bodyOnly !== null);
+  assert.ok(titleOnly > bodyOnly);
+  assert.equal(scoreListing(desk, ["desk", "sofa"], "desk sofa"), null);
+});
+
+test("scoreListing matches plurals and prefixes", () => {
+  const tables = listing({ title: "Two coffee tables" });
+  assert.notEqual(scoreListing(tables, ["table"], "table"), null);
+  assert.notEqual(scoreListing(tables, ["cof"], "cof"), null);
+});
+
+test("scoreListing falls back to trigram similarity for misspellings", () => {
+  const calculator = listing({ title: "TI-84 calculator" });
+  assert.ok(wordSimilarity("calculater", calculator.title) >= 0.4);
+  assert.notEqual(scoreListing(calculator, ["calculater"], "calculater"), null);
+});
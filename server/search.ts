@@ -0,0 +1,129 @@
+import type { Listing } from "@shared/schema";
+
+// Minimum trigram word similarity for a term to match a misspelled title word
+export const TRIGRAM_THRESHOLD = 0.4;
+
+// Weight of a trigram title match relative to the full-text rank
+export const TRIGRAM_RANK_WEIGHT = 0.5;
+
+// Words the Postgres english configuration ignores (tsearch_data/english.stop);
+// dropped on both backends, since to_tsquery turns them into empty lexemes
+const STOP_WORDS = new Set([
+  "i", "me", "my", "myself", "we", "our", "ours", "ourselves", "you", "your",
+  "yours", "yourself", "yourselves", "he", "him", "his", "himself", "she",
+  "her", "hers", "herself", "it", "its", "itself", "they", "them", "their",
+  "theirs", "themselves", "what", "which", "who", "whom", "this", "that",
+  "these", "those", "am", "is", "are", "was", "were", "be", "been", "being",
+  "have", "has", "had", "having", "do", "does", "did", "doing", "a", "an",
+  "the", "and", "but", "if", "or", "because", "as", "until", "while", "of",
+  "at", "by", "for", "with", "about", "against", "between", "into", "through",
+  "during", "before", "after", "above", "below", "to", "from", "up", "down",
+  "in", "out", "on", "off", "over", "under", "again", "further", "then",
+  "once", "here", "there", "when", "where", "why", "how", "all", "any", "both",
+  "each", "few", "more", "most", "other", "some", "such", "no", "nor", "not",
+  "only", "own", "same", "so", "than", "too", "very", "s", "t", "can", "will",
+  "just", "don", "should", "now",
+]);
+
+// Postgres default ts_rank weights for labels A and B
+const TITLE_WEIGHT = 1.0;
+const BODY_WEIGHT = 0.4;
+
+// Letters (including accented Latin) and digits; everything else separates words
+const NON_WORD = /[^a-z0-9\u00c0-\u024f]+/g;
+
+// Split free-text search input into lowercased alphanumeric terms
+export function getSearchTerms(search?: string): string[] {
+  return (search || "")
+    .toLowerCase()
+    .split(/\s+/)
+    .map(term => term.replace(NON_WORD, ""))
+    .filter(term => term.length > 0 && !STOP_WORDS.has(term));
+}
+
+// Prefix tsquery for a single term; terms are already stripped to alphanumerics
+export function toPrefixTsQuery(term: string): string {
+  return `${term}:*`;
+}
+
+// Prefix tsquery matching any of the terms, used for ranking
+export function toRankTsQuery(terms: string[]): string {
+  return terms.map(toPrefixTsQuery).join(" | ");
+}
+
+// Rough stand-in for the english snowball stemmer's plural handling
+function stem(word: string): string {
+  let result = word;
+  if (/ies$/.test(result) && result.length > 4) {
+    result = `${result.slice(0, -3)}y`;
+  } else if (/(s|x|z|ch|sh)es$/.test(result)) {
+    result = result.slice(0, -2);
+  } else if (/[^s]s$/.test(result) && result.length > 3) {
+    result = result.slice(0, -1);
+  }
+  // "table" and "tables" both become "tabl", as in snowball
+  return result.length > 3 ? result.replace(/e$/, "") : result;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(NON_WORD).filter(word => word.length > 0);
+}
+
+// Ordered trigrams of each word, padded the way pg_trgm does
+function trigrams(words: string[]): string[] {
+  return words.flatMap(word => {
+    const padded = `  ${word} `;
+    const result: string[] = [];
+    for (let i = 0; i < padded.length - 2; i++) {
+      result.push(padded.slice(i, i + 3));
+    }
+    return result;
+  });
+}
+
+// Approximation of pg_trgm word_similarity: the best trigram similarity between
+// the needle and any continuous extent of the haystack's trigrams
+export function wordSimilarity(needle: string, haystack: string): number {
+  const needleTrigrams = new Set(trigrams(tokenize(needle)));
+  const haystackTrigrams = trigrams(tokenize(haystack));
+  if (needleTrigrams.size === 0 || haystackTrigrams.length === 0) {
+    return 0;
+  }
+
+  let best = 0;
+  for (let start = 0; start < haystackTrigrams.length; start++) {
+    const extent = new Set<string>();
+    for (let end = start; end < haystackTrigrams.length; end++) {
+      extent.add(haystackTrigrams[end]);
+      let common = 0;
+      extent.forEach(trigram => {
+        if (needleTrigrams.has(trigram)) common++;
+      });
+      best = Math.max(best, common / (needleTrigrams.size + extent.size - common));
+    }
+  }
+  return best;
+}
+
+// In-memory equivalent of the full-text match and relevance computed in SQL.
+// Returns null when the listing does not match every term.
+export function scoreListing(listing: Listing, terms: string[], search: string): number | null {
+  const titleWords = tokenize(listing.title).map(stem);
+  const bodyWords = tokenize(`${listing.description || ""} ${listing.category}`).map(stem);
+
+  let rank = 0;
+  for (const term of terms) {
+    const prefix = stem(term);
+    if (titleWords.some(word => word.startsWith(prefix))) {
+      rank += TITLE_WEIGHT;
+    } else if (bodyWords.some(word => word.startsWith(prefix))) {
+      rank += BODY_WEIGHT;
+    } else if (wordSimilarity(term, listing.title) < TRIGRAM_THRESHOLD) {
+      return null;
+    }
+  }
+
+  // Same normalisation as ts_rank's flag 32: rank / (rank + 1)
+  const normalizedRank = rank / (rank + 1);
+  return normalizedRank + TRIGRAM_RANK_WEIGHT * wordSimilarity(search, listing.title);
+}
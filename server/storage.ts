@@ -1,73 +1,581 @@
-import { favorites, listings, messages, users } from "@shared/schema";
-import type { User, InsertUser, Listing, InsertListing, Favorite, InsertFavorite, Message, InsertMessage } from "@shared/schema";
+import { canTransitionListingStatus, conversations, getConversationRole, getListingExpiry, hiddenListingStatuses, favorites, listingPrices, listings, listingStatuses, meetups, meetupStatuses, meetupStatusTransitions, messages, notificationPreferences, notifications, offers, pushSubscriptions, reviews, savedSearches, savedSearchMatches, transactions, universities, uploads, users } from "@shared/schema";
+import type { University, InsertUniversity, User, InsertUser, Listing, InsertListing, ListingPrice, ListingQuery, ListingStatus, Favorite, InsertFavorite, Conversation, ConversationQuery, ConversationRole, UpdateConversation, Message, InsertMessage, Meetup, InsertMeetup, MeetupStatus, Offer, InsertOffer, OfferStatus, Notification, InsertNotification, NotificationPreferences, NotificationType, Page, PushSubscription, PageQuery, Transaction, InsertTransaction, Review, InsertReview, SavedSearch, InsertSavedSearch, SavedSearchMatch, Upload, InsertUpload, UserRating } from "@shared/schema";
+import { EventEmitter } from "events";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
 import { drizzle } from "drizzle-orm/postgres-js";
-import { eq, and, desc, or, asc } from "drizzle-orm";
+import { eq, and, desc, or, asc, isNull, isNotNull, like, gt, gte, lt, lte, inArray, notInArray, arrayContains, arrayOverlaps, not, sql, count, avg, getTableColumns, TransactionRollbackError, type SQL, type SQLWrapper } from "drizzle-orm";
 import postgres from "postgres";
+import { DEFAULT_PAGE_SIZE, decodeCursor, toPage, type Cursor } from "./pagination";
+import { getSearchTerms, scoreListing, toPrefixTsQuery, toRankTsQuery, TRIGRAM_RANK_WEIGHT, TRIGRAM_THRESHOLD } from "./search";
 
 const MemoryStore = createMemoryStore(session);
 const PostgresSessionStore = connectPg(session);
 
+// Every listing column except the search vector, which never leaves the database
+const { searchVector, ...listingColumns } = getTableColumns(listings);
+
+// Every user column except the password hash
+const { password: _password, ...publicUserColumns } = getTableColumns(users);
+
+// How many legacy messages are loaded at a time when threading them into conversations
+const CONVERSATION_BACKFILL_BATCH_SIZE = 500;
+
+// Where a listing's handoff can happen for a distance filter: listings with
+// meetup spots match on their spots, the rest on their seller's school
+export interface MeetupArea {
+  meetupSpotIds: string[];
+  universityIds: number[];
+}
+
+// Listing query after the campus scope has been resolved to the schools it covers
+export type ListingSearch = ListingQuery & { universityIds?: number[]; meetupArea?: MeetupArea };
+
+// Listing with its search relevance, used for ordering and cursors
+type RankedListing = Listing & { rank?: number };
+
+// In-memory equivalent of the WHERE clause built by DatabaseStorage.getListings,
+// apart from text search which is handled by scoreListing
+export function matchesListingQuery(listing: Listing, query: ListingSearch): boolean {
+  if (query.type && listing.type !== query.type) {
+    return false;
+  }
+
+  if (query.categories?.length && !query.categories.includes(listing.category)) {
+    return false;
+  }
+
+  if (query.conditions?.length && (!listing.condition || !query.conditions.includes(listing.condition))) {
+    return false;
+  }
+
+  if (query.minPrice !== undefined && listing.price < query.minPrice) {
+    return false;
+  }
+
+  if (query.maxPrice !== undefined && listing.price > query.maxPrice) {
+    return false;
+  }
+
+  // Drafts and expired listings are only returned when asked for explicitly
+  if (query.status ? listing.status !== query.status : hiddenListingStatuses.includes((listing.status ?? "active") as ListingStatus)) {
+    return false;
+  }
+
+  if (query.userId && listing.userId !== query.userId) {
+    return false;
+  }
+
+  if (query.universityIds && (listing.universityId === null || !query.universityIds.includes(listing.universityId))) {
+    return false;
+  }
+
+  if (query.meetupArea) {
+    const { meetupSpotIds, universityIds } = query.meetupArea;
+    const inArea = listing.meetupSpotIds.length > 0
+      ? listing.meetupSpotIds.some(id => meetupSpotIds.includes(id))
+      : listing.universityId !== null && universityIds.includes(listing.universityId);
+    if (!inArea) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// Newest first, with the id as a tie-breaker so the order is stable for cursors
+function compareNewest(a: { createdAt: Date | null; id: number }, b: { createdAt: Date | null; id: number }) {
+  return (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0) || b.id - a.id;
+}
+
+// Cursor for a row in createdAt+id order
+function newestCursor(row: { createdAt: Date | null; id: number }): Cursor {
+  return { createdAt: row.createdAt ?? new Date(0), id: row.id };
+}
+
+// When a listing last went to the top of the newest listings: its last bump,
+// or when it was listed
+function listedAt(listing: Pick<Listing, "createdAt" | "bumpedAt" | "id">) {
+  return { createdAt: listing.bumpedAt ?? listing.createdAt, id: listing.id };
+}
+
+// In-memory equivalent of the ORDER BY clause built by DatabaseStorage.getListings
+function compareListings(sort: ListingQuery["sort"] = "newest") {
+  const byNewest = (a: RankedListing, b: RankedListing) => compareNewest(listedAt(a), listedAt(b));
+
+  switch (sort) {
+    case "price_asc":
+      return (a: RankedListing, b: RankedListing) => a.price - b.price || byNewest(a, b);
+    case "price_desc":
+      return (a: RankedListing, b: RankedListing) => b.price - a.price || byNewest(a, b);
+    case "relevance":
+      return (a: RankedListing, b: RankedListing) => (b.rank ?? 0) - (a.rank ?? 0) || byNewest(a, b);
+    case "newest":
+    default:
+      return byNewest;
+  }
+}
+
+// Postgres timestamps carry microseconds while cursors carry milliseconds, so
+// paginated queries order and compare on the truncated value
+function truncatedCreatedAt(column: SQLWrapper): SQL {
+  return sql`date_trunc('milliseconds', ${column})`;
+}
+
+// SQL condition for rows after the cursor in createdAt DESC, id DESC order
+function afterNewestCursor(createdAt: SQLWrapper, id: SQLWrapper, cursor: Cursor): SQL {
+  return sql`(${truncatedCreatedAt(createdAt)}, ${id}) < (${cursor.createdAt.toISOString()}::timestamp, ${cursor.id})`;
+}
+
+// Cursor for a listing; price and relevance sorts also need their sort key to resume from
+function listingCursor(listing: RankedListing, sort: ListingQuery["sort"] = "newest"): Cursor {
+  const cursor = newestCursor(listedAt(listing));
+  switch (sort) {
+    case "price_asc":
+    case "price_desc":
+      return { ...cursor, price: listing.price };
+    case "relevance":
+      return { ...cursor, rank: listing.rank ?? 0 };
+    default:
+      return cursor;
+  }
+}
+
+// Relevance sort only applies to text searches
+function effectiveSort(query: ListingQuery): ListingQuery["sort"] {
+  return query.sort === "relevance" && getSearchTerms(query.search).length === 0 ? "newest" : query.sort;
+}
+
+// Strip the relevance used for ordering from listings returned to callers
+function withoutRank(page: Page<RankedListing>): Page<Listing> {
+  return {
+    items: page.items.map(({ rank, ...listing }) => listing),
+    nextCursor: page.nextCursor,
+  };
+}
+
+// Listing changes made through storage, whichever route made them. Events fire
+// once a change is saved; deleted also carries who had favorited the listing,
+// since their favorites go with it.
+export const listingEvents = new EventEmitter<{
+  created: [listing: Listing];
+  updated: [before: Listing, after: Listing];
+  deleted: [listing: Listing, favoritedBy: number[]];
+}>();
+
+// Thrown when an update would move a listing to a status its current status can't reach
+export class ListingStatusError extends Error {
+  constructor(from: string | null, to: string) {
+    super(`Cannot change listing status from ${from ?? "active"} to ${to}`);
+    this.name = "ListingStatusError";
+  }
+}
+
+// Statuses a listing may currently be in for a move to the given status
+function statusesLeadingTo(status: string): string[] {
+  return listingStatuses.filter(from => canTransitionListingStatus(from, status));
+}
+
+// A listing marked sold together with the transaction recording the sale
+export interface CompletedSale {
+  listing: Listing;
+  transaction: Transaction;
+}
+
+// Thrown when a message can't be threaded: it must be about a listing and
+// between the listing's seller and someone else
+export class ConversationError extends Error {
+  constructor() {
+    super("Messages must be about a listing and between its seller and a buyer");
+    this.name = "ConversationError";
+  }
+}
+
+// A conversation as one participant sees it in their inbox
+export interface ConversationSummary {
+  id: number;
+  otherUser: Omit<User, "password">;
+  listing: Listing;
+  lastMessage: Message;
+  unreadCount: number;
+  lastReadMessageId: number | null;
+  archived: boolean;
+  muted: boolean;
+}
+
+// One participant's side of a conversation
+interface ParticipantState {
+  unreadCount: number;
+  lastReadMessageId: number | null;
+  archivedAt: Date | null;
+  muted: boolean;
+}
+
+// The conversation columns holding each participant's side
+const participantFields = {
+  buyer: {
+    unreadCount: "buyerUnreadCount",
+    lastReadMessageId: "buyerLastReadMessageId",
+    archivedAt: "buyerArchivedAt",
+    muted: "buyerMuted",
+  },
+  seller: {
+    unreadCount: "sellerUnreadCount",
+    lastReadMessageId: "sellerLastReadMessageId",
+    archivedAt: "sellerArchivedAt",
+    muted: "sellerMuted",
+  },
+} as const satisfies Record<ConversationRole, Record<keyof ParticipantState, keyof Conversation>>;
+
+function getParticipantState(conversation: Conversation, role: ConversationRole): ParticipantState {
+  const fields = participantFields[role];
+  return {
+    unreadCount: conversation[fields.unreadCount],
+    lastReadMessageId: conversation[fields.lastReadMessageId],
+    archivedAt: conversation[fields.archivedAt],
+    muted: conversation[fields.muted],
+  };
+}
+
+// Conversation columns to set for changes to one participant's side; the
+// database can be given SQL expressions instead of values
+function toParticipantColumns(role: ConversationRole, changes: Partial<ParticipantState>): Partial<Conversation>;
+function toParticipantColumns(role: ConversationRole, changes: { [K in keyof ParticipantState]?: SQL }): { [K in keyof Conversation]?: SQL };
+function toParticipantColumns(role: ConversationRole, changes: Record<string, unknown>) {
+  const columns: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(changes)) {
+    columns[participantFields[role][key as keyof ParticipantState]] = value;
+  }
+  return columns;
+}
+
+// Buyer and seller of the conversation a message belongs to
+function getMessageParticipants(
+  sellerId: number | null | undefined,
+  message: Pick<Message, "senderId" | "receiverId">
+): { buyerId: number; sellerId: number } {
+  const { senderId, receiverId } = message;
+  if (!sellerId || senderId == null || receiverId == null || senderId === receiverId) {
+    throw new ConversationError();
+  }
+  if (senderId === sellerId) return { buyerId: receiverId, sellerId };
+  if (receiverId === sellerId) return { buyerId: senderId, sellerId };
+  throw new ConversationError();
+}
+
+// Participant changes for an archive or mute request
+function toParticipantChanges(changes: UpdateConversation): Partial<ParticipantState> {
+  const state: Partial<ParticipantState> = {};
+  if (changes.archived !== undefined) {
+    state.archivedAt = changes.archived ? new Date() : null;
+  }
+  if (changes.muted !== undefined) {
+    state.muted = changes.muted;
+  }
+  return state;
+}
+
+function toConversationSummary(
+  conversation: Conversation,
+  userId: number,
+  otherUser: Omit<User, "password">,
+  listing: Listing,
+  lastMessage: Message
+): ConversationSummary {
+  const state = getParticipantState(conversation, getConversationRole(conversation, userId) ?? "buyer");
+  return {
+    id: conversation.id,
+    otherUser,
+    listing,
+    lastMessage,
+    unreadCount: state.unreadCount,
+    lastReadMessageId: state.lastReadMessageId,
+    archived: state.archivedAt !== null,
+    muted: state.muted,
+  };
+}
+
 // Interface for storage operations
 export interface IStorage {
+  // University operations
+  getUniversities(): Promise<University[]>;
+  getUniversity(id: number): Promise<University | undefined>;
+  getUniversityByDomain(domain: string): Promise<University | undefined>;
+  // Inserts new universities and updates existing ones, matched by name
+  upsertUniversities(universities: InsertUniversity[]): Promise<void>;
+  
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: Partial<User>): Promise<User | undefined>;
+  // Users who signed up before universities were tracked
+  getUsersWithoutUniversity(): Promise<User[]>;
+  // Give listings without a university their seller's; returns how many were updated
+  backfillListingUniversities(): Promise<number>;
   
   // Listing operations
   getListing(id: number): Promise<Listing | undefined>;
-  getListings(filter?: Partial<Listing>): Promise<Listing[]>;
+  getListings(query?: ListingSearch): Promise<Page<Listing>>;
   getListingsByUserId(userId: number): Promise<Listing[]>;
-  createListing(listing: InsertListing): Promise<Listing>;
+  // Listings start out active, expiring per getListingExpiry, unless saved as a draft
+  createListing(listing: InsertListing, status?: "active" | "draft"): Promise<Listing>;
+  // Status changes must follow listingStatusTransitions; others throw a ListingStatusError
   updateListing(id: number, listing: Partial<Listing>): Promise<Listing | undefined>;
   deleteListing(id: number): Promise<boolean>;
+  // Move active listings whose expiry has passed to expired, returning them
+  expireListings(now?: Date): Promise<Listing[]>;
+  // Prices a listing has had, oldest first
+  getListingPriceHistory(listingId: number): Promise<ListingPrice[]>;
+  addListingPrice(listingId: number, price: number): Promise<ListingPrice>;
+  // Active listings created before listings had an expiry
+  getListingsWithoutExpiry(): Promise<Listing[]>;
+  // Active listings due to expire by the given time
+  getListingsExpiringBefore(date: Date): Promise<Listing[]>;
+  // Listings still holding base64 data URLs from before images were uploaded
+  getListingsWithInlineImages(): Promise<Listing[]>;
   
   // Favorite operations
   getFavorite(userId: number, listingId: number): Promise<Favorite | undefined>;
-  getFavoritesByUserId(userId: number): Promise<Favorite[]>;
+  getFavoritesByUserId(userId: number, page?: PageQuery): Promise<Page<Favorite>>;
+  getFavoriteListingIds(userId: number): Promise<number[]>;
+  // Users who have favorited a listing
+  getFavoriteUserIds(listingId: number): Promise<number[]>;
   createFavorite(favorite: InsertFavorite): Promise<Favorite>;
   deleteFavorite(userId: number, listingId: number): Promise<boolean>;
   
   // Message operations
   getMessage(id: number): Promise<Message | undefined>;
   getMessagesByUserId(userId: number): Promise<Message[]>;
-  getMessagesBetweenUsers(userId1: number, userId2: number, listingId?: number): Promise<Message[]>;
+  getConversation(id: number): Promise<Conversation | undefined>;
+  // The user's conversations by latest message; archived ones only when asked for
+  getConversationsByUserId(userId: number, query?: ConversationQuery): Promise<Page<ConversationSummary>>;
+  // Archive or mute a conversation for one of its participants
+  updateConversation(id: number, userId: number, changes: UpdateConversation): Promise<Conversation | undefined>;
+  // The conversation between a listing's seller and a buyer, started if they
+  // haven't messaged yet. Throws ConversationError like createMessage.
+  startConversation(listingId: number, senderId: number, receiverId: number): Promise<Conversation>;
+  // Total bytes of attachments uploaded to a conversation
+  getConversationAttachmentSize(conversationId: number): Promise<number>;
+  // Thread messages sent before conversations existed; returns how many were threaded
+  backfillConversations(): Promise<number>;
+  // The conversation two users have about a listing, whichever of them is buying
+  getConversationBetween(listingId: number, userId1: number, userId2: number): Promise<Conversation | undefined>;
+  // A conversation's messages, newest first
+  getConversationMessages(conversationId: number, page?: PageQuery): Promise<Page<Message>>;
+  getConversationPartnerIds(userId: number, listingId: number): Promise<number[]>;
+  // Saves the message and moves its conversation to the top of both inboxes.
+  // Throws ConversationError if the message can't belong to a conversation.
   createMessage(message: InsertMessage): Promise<Message>;
-  markMessageAsRead(id: number): Promise<Message | undefined>;
+  // Mark every message the user received in a conversation, up to and
+  // including the given one, as read and move their read pointer there
+  markConversationRead(conversationId: number, userId: number, upToMessageId: number): Promise<Conversation | undefined>;
+  // Unread messages sent to a user after the given time, oldest first,
+  // leaving out conversations they muted
+  getUnreadMessages(receiverId: number, since?: Date | null): Promise<Message[]>;
+  getUserIdsWithUnreadMessages(): Promise<number[]>;
+  
+  // Offer operations
+  getOffer(id: number): Promise<Offer | undefined>;
+  getOffersByConversation(listingId: number, buyerId: number): Promise<Offer[]>;
+  createOffer(offer: InsertOffer): Promise<Offer>;
+  // Status changes only apply to pending offers; they return undefined otherwise
+  updateOfferStatus(id: number, status: OfferStatus): Promise<Offer | undefined>;
+  counterOffer(id: number, counter: InsertOffer): Promise<Offer | undefined>;
+  acceptOffer(id: number): Promise<{ offer: Offer; listing: Listing } | undefined>;
+  expireOffers(now?: Date): Promise<Offer[]>;
+  
+  // Meetup operations
+  getMeetup(id: number): Promise<Meetup | undefined>;
+  getMeetupsByConversation(conversationId: number): Promise<Meetup[]>;
+  // Propose a meetup and post it to the conversation as a meetup message. A
+  // proposal with a parentMeetupId counters that meetup, and returns undefined
+  // if it is no longer pending.
+  proposeMeetup(meetup: InsertMeetup): Promise<{ meetup: Meetup; message: Message } | undefined>;
+  // Status changes follow meetupStatusTransitions; they return undefined otherwise
+  updateMeetupStatus(id: number, status: MeetupStatus): Promise<Meetup | undefined>;
+  // Accepted meetups starting before the given time that haven't been reminded about
+  getMeetupsDueForReminder(before: Date, now?: Date): Promise<Meetup[]>;
+  // Record that a meetup's reminder went out; undefined if it already had
+  markMeetupReminded(id: number): Promise<Meetup | undefined>;
+  
+  // Upload operations
+  createUpload(upload: InsertUpload): Promise<Upload>;
+  getUpload(id: number): Promise<Upload | undefined>;
+  getUploads(ids: number[]): Promise<Upload[]>;
+  updateUpload(id: number, upload: Partial<Upload>): Promise<Upload | undefined>;
+  // Uploads stored before image processing existed
+  getUnprocessedUploads(): Promise<Upload[]>;
+  
+  // Transaction operations
+  // Marks the seller's listing sold and records the sale; undefined if it can't be sold
+  completeSale(sale: InsertTransaction): Promise<CompletedSale | undefined>;
+  getTransaction(id: number): Promise<Transaction | undefined>;
+  getTransactionByListingId(listingId: number): Promise<Transaction | undefined>;
+  getTransactionsByUserId(userId: number): Promise<Transaction[]>;
+  
+  // Review operations
+  // Returns undefined if the reviewer has already reviewed the transaction
+  createReview(review: InsertReview): Promise<Review | undefined>;
+  getReviewsByRevieweeId(userId: number): Promise<Review[]>;
+  getReviewedTransactionIds(reviewerId: number): Promise<number[]>;
+  getUserRating(userId: number): Promise<UserRating>;
+  
+  // Saved search operations
+  getSavedSearch(id: number): Promise<SavedSearch | undefined>;
+  getSavedSearchesByUserId(userId: number): Promise<SavedSearch[]>;
+  // Saved searches with no type filter or the given one, for matching a new listing
+  getSavedSearchesForListingType(type: string): Promise<SavedSearch[]>;
+  getSavedSearchesWithEmailAlerts(): Promise<SavedSearch[]>;
+  createSavedSearch(search: InsertSavedSearch): Promise<SavedSearch>;
+  updateSavedSearch(id: number, search: Partial<SavedSearch>): Promise<SavedSearch | undefined>;
+  deleteSavedSearch(id: number): Promise<boolean>;
+  // Matches already recorded are skipped and left out of the result
+  createSavedSearchMatches(matches: { savedSearchId: number; listingId: number }[]): Promise<SavedSearchMatch[]>;
+  // Matches recorded after the given time, newest first
+  getSavedSearchMatches(savedSearchId: number, since?: Date | null): Promise<SavedSearchMatch[]>;
+  
+  // Notification operations
+  getNotification(id: number): Promise<Notification | undefined>;
+  getNotificationsByUserId(userId: number, page?: PageQuery): Promise<Page<Notification>>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  // The user's most recent notification of a type about a listing
+  getLatestNotification(userId: number, type: NotificationType, listingId: number): Promise<Notification | undefined>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  // Notifications already read keep their original readAt
+  markNotificationRead(id: number): Promise<Notification | undefined>;
+  // Returns how many notifications were marked read
+  markAllNotificationsRead(userId: number): Promise<number>;
+  // Hold a notification's email back until the user's quiet hours end
+  queueNotificationEmail(id: number): Promise<void>;
+  // Notifications whose email is waiting, oldest first
+  getQueuedNotificationEmails(): Promise<Notification[]>;
+  // Take a notification's email off the queue. Undefined if it wasn't queued,
+  // so each queued email is only sent once.
+  claimQueuedNotificationEmail(id: number): Promise<Notification | undefined>;
+  // Undefined for users who have never changed their preferences
+  getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined>;
+  saveNotificationPreferences(userId: number, preferences: Partial<NotificationPreferences>): Promise<NotificationPreferences>;
+  
+  // Push subscription operations
+  getPushSubscriptionsByUserId(userId: number): Promise<PushSubscription[]>;
+  // A device re-subscribing, possibly for another user, replaces its old subscription
+  savePushSubscription(subscription: Omit<PushSubscription, "id" | "createdAt">): Promise<PushSubscription>;
+  deletePushSubscription(endpoint: string): Promise<boolean>;
   
   // Session store
   sessionStore: any; // Express session store
 }
 
 export class MemStorage implements IStorage {
+  private universities: Map<number, University>;
   private users: Map<number, User>;
   private listings: Map<number, Listing>;
   private favorites: Map<string, Favorite>;
   private messages: Map<number, Message>;
+  private conversations: Map<number, Conversation>;
+  private offers: Map<number, Offer>;
+  private meetups: Map<number, Meetup>;
+  private transactions: Map<number, Transaction>;
+  private reviews: Map<number, Review>;
+  private uploads: Map<number, Upload>;
+  private listingPrices: Map<number, ListingPrice>;
+  private savedSearches: Map<number, SavedSearch>;
+  private savedSearchMatches: Map<number, SavedSearchMatch>;
+  private notifications: Map<number, Notification>;
+  private notificationPreferences: Map<number, NotificationPreferences>;
+  private pushSubscriptions: Map<string, PushSubscription>;
+  private universityCurrentId: number;
   private userCurrentId: number;
   private listingCurrentId: number;
   private favoriteCurrentId: number;
   private messageCurrentId: number;
+  private conversationCurrentId: number;
+  private offerCurrentId: number;
+  private meetupCurrentId: number;
+  private transactionCurrentId: number;
+  private reviewCurrentId: number;
+  private uploadCurrentId: number;
+  private listingPriceCurrentId: number;
+  private savedSearchCurrentId: number;
+  private savedSearchMatchCurrentId: number;
+  private notificationCurrentId: number;
+  private pushSubscriptionCurrentId: number;
   sessionStore: any;
 
   constructor() {
+    this.universities = new Map();
     this.users = new Map();
     this.listings = new Map();
     this.favorites = new Map();
     this.messages = new Map();
+    this.conversations = new Map();
+    this.offers = new Map();
+    this.meetups = new Map();
+    this.transactions = new Map();
+    this.reviews = new Map();
+    this.uploads = new Map();
+    this.listingPrices = new Map();
+    this.savedSearches = new Map();
+    this.savedSearchMatches = new Map();
+    this.notifications = new Map();
+    this.notificationPreferences = new Map();
+    this.pushSubscriptions = new Map();
+    this.universityCurrentId = 1;
     this.userCurrentId = 1;
     this.listingCurrentId = 1;
     this.favoriteCurrentId = 1;
     this.messageCurrentId = 1;
+    this.conversationCurrentId = 1;
+    this.offerCurrentId = 1;
+    this.meetupCurrentId = 1;
+    this.transactionCurrentId = 1;
+    this.reviewCurrentId = 1;
+    this.uploadCurrentId = 1;
+    this.listingPriceCurrentId = 1;
+    this.savedSearchCurrentId = 1;
+    this.savedSearchMatchCurrentId = 1;
+    this.notificationCurrentId = 1;
+    this.pushSubscriptionCurrentId = 1;
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000 // prune expired entries every 24h
     });
   }
 
+  // University methods
+  async getUniversities(): Promise<University[]> {
+    return Array.from(this.universities.values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getUniversity(id: number): Promise<University | undefined> {
+    return this.universities.get(id);
+  }
+
+  async getUniversityByDomain(domain: string): Promise<University | undefined> {
+    return Array.from(this.universities.values()).find(
+      (university) => university.domains.includes(domain.toLowerCase())
+    );
+  }
+
+  async upsertUniversities(insertUniversities: InsertUniversity[]): Promise<void> {
+    for (const insertUniversity of insertUniversities) {
+      const existing = Array.from(this.universities.values()).find(
+        (university) => university.name === insertUniversity.name
+      );
+      const id = existing?.id ?? this.universityCurrentId++;
+      this.universities.set(id, {
+        ...insertUniversity,
+        id,
+        campusLocations: insertUniversity.campusLocations ?? [],
+        meetupSpots: insertUniversity.meetupSpots ?? [],
+        allowCrossCampusMessaging: insertUniversity.allowCrossCampusMessaging ?? true
+      });
+    }
+  }
+
   // User methods
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
@@ -88,51 +596,85 @@ export class MemStorage implements IStorage {
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userCurrentId++;
     const now = new Date();
-    const user: User = { ...insertUser, id, verified: false, createdAt: now };
+    const user: User = {
+      ...insertUser,
+      id,
+      university: insertUser.university ?? null,
+      universityId: insertUser.universityId ?? null,
+      verified: false,
+      verificationSentAt: null,
+      createdAt: now
+    };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUser(id: number, updatedFields: Partial<User>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) {
+      return undefined;
+    }
+
+    const updatedUser = { ...user, ...updatedFields };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async getUsersWithoutUniversity(): Promise<User[]> {
+    return Array.from(this.users.values()).filter((user) => user.universityId === null);
+  }
+
+  async backfillListingUniversities(): Promise<number> {
+    let updated = 0;
+    for (const listing of Array.from(this.listings.values())) {
+      const universityId = listing.universityId === null && listing.userId !== null
+        ? this.users.get(listing.userId)?.universityId
+        : null;
+      if (universityId) {
+        this.listings.set(listing.id, { ...listing, universityId });
+        updated++;
+      }
+    }
+    return updated;
+  }
+
   // Listing methods
   async getListing(id: number): Promise<Listing | undefined> {
     return this.listings.get(id);
   }
 
-  async getListings(filter?: Partial<Listing>): Promise<Listing[]> {
-    const allListings = Array.from(this.listings.values());
-    
-    if (!filter) {
-      return allListings.sort((a, b) => 
-        (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0)
-      );
-    }
-    
-    return allListings.filter(listing => {
-      for (const [key, value] of Object.entries(filter)) {
-        if (Array.isArray(value)) {
-          if (key === 'category' && filter.category) {
-            if (!filter.category.includes(listing.category as any)) {
-              return false;
-            }
-          }
-          continue;
-        }
-        
-        if (key === 'price') {
-          if (filter.price !== undefined && listing.price !== filter.price) {
-            return false;
-          }
-          continue;
-        }
-        
-        if (listing[key as keyof Listing] !== value) {
-          return false;
-        }
+  async getListings(query: ListingSearch = {}): Promise<Page<Listing>> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const sort = effectiveSort(query);
+    const compare = compareListings(sort);
+    const searchTerms = getSearchTerms(query.search);
+
+    let result: RankedListing[] = [];
+    for (const listing of Array.from(this.listings.values())) {
+      if (!matchesListingQuery(listing, query)) {
+        continue;
       }
-      return true;
-    }).sort((a, b) => 
-      (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0)
-    );
+
+      if (searchTerms.length === 0) {
+        result.push(listing);
+        continue;
+      }
+
+      const rank = scoreListing(listing, searchTerms, query.search || "");
+      if (rank !== null) {
+        result.push({ ...listing, rank });
+      }
+    }
+    result.sort(compare);
+
+    if (query.cursor) {
+      // Keep only the listings ordered after the cursor row
+      const cursor = decodeCursor(query.cursor);
+      const cursorListing = { ...cursor, bumpedAt: null, price: cursor.price ?? 0 } as RankedListing;
+      result = result.filter(listing => compare(cursorListing, listing) < 0);
+    }
+
+    return withoutRank(toPage(result.slice(0, limit + 1), limit, listing => listingCursor(listing, sort)));
   }
 
   async getListingsByUserId(userId: number): Promise<Listing[]> {
@@ -143,17 +685,23 @@ export class MemStorage implements IStorage {
       );
   }
 
-  async createListing(insertListing: InsertListing): Promise<Listing> {
+  async createListing(insertListing: InsertListing, status: "active" | "draft" = "active"): Promise<Listing> {
     const id = this.listingCurrentId++;
     const now = new Date();
     const listing: Listing = { 
       ...insertListing, 
       id, 
       createdAt: now, 
-      status: "active",
-      images: insertListing.images || []
+      updatedAt: now,
+      status,
+      expiresAt: status === "active" ? getListingExpiry(insertListing, now) : null,
+      bumpedAt: null,
+      universityId: insertListing.universityId ?? null,
+      images: insertListing.images || [],
+      meetupSpotIds: insertListing.meetupSpotIds ?? [],
     };
     this.listings.set(id, listing);
+    listingEvents.emit("created", listing);
     return listing;
   }
 
@@ -163,13 +711,166 @@ export class MemStorage implements IStorage {
       return undefined;
     }
 
-    const updatedListing = { ...listing, ...updatedFields };
+    if (updatedFields.status !== undefined && !canTransitionListingStatus(listing.status, updatedFields.status ?? "active")) {
+      throw new ListingStatusError(listing.status, updatedFields.status ?? "active");
+    }
+
+    const updatedListing = { ...listing, ...updatedFields, updatedAt: new Date() };
     this.listings.set(id, updatedListing);
+    listingEvents.emit("updated", listing, updatedListing);
     return updatedListing;
   }
 
   async deleteListing(id: number): Promise<boolean> {
-    return this.listings.delete(id);
+    const listing = this.listings.get(id);
+    if (!listing) {
+      return false;
+    }
+
+    const favoritedBy: number[] = [];
+    this.favorites.forEach((favorite, key) => {
+      if (favorite.listingId === id) {
+        if (favorite.userId) favoritedBy.push(favorite.userId);
+        this.favorites.delete(key);
+      }
+    });
+    this.listingPrices.forEach((price, priceId) => {
+      if (price.listingId === id) {
+        this.listingPrices.delete(priceId);
+      }
+    });
+    this.offers.forEach((offer, offerId) => {
+      if (offer.listingId === id) {
+        this.offers.delete(offerId);
+      }
+    });
+    this.messages.forEach((message, messageId) => {
+      if (message.listingId === id) {
+        this.messages.delete(messageId);
+      }
+    });
+    this.transactions.forEach((transaction, transactionId) => {
+      if (transaction.listingId === id) {
+        this.transactions.delete(transactionId);
+        this.reviews.forEach((review, reviewId) => {
+          if (review.transactionId === transactionId) {
+            this.reviews.delete(reviewId);
+          }
+        });
+      }
+    });
+    this.notifications.forEach((notification, notificationId) => {
+      if (notification.listingId === id) {
+        this.notifications.set(notificationId, { ...notification, listingId: null });
+      }
+    });
+    this.conversations.forEach((conversation, conversationId) => {
+      if (conversation.listingId === id) {
+        this.conversations.delete(conversationId);
+        this.uploads.forEach((upload, uploadId) => {
+          if (upload.conversationId === conversationId) {
+            this.uploads.delete(uploadId);
+          }
+        });
+        this.meetups.forEach((meetup, meetupId) => {
+          if (meetup.conversationId === conversationId) {
+            this.meetups.delete(meetupId);
+          }
+        });
+      }
+    });
+    this.listings.delete(id);
+    listingEvents.emit("deleted", listing, favoritedBy);
+    return true;
+  }
+
+  async expireListings(now: Date = new Date()): Promise<Listing[]> {
+    const expired: Listing[] = [];
+    this.listings.forEach((listing, id) => {
+      if ((listing.status ?? "active") === "active" && listing.expiresAt && listing.expiresAt <= now) {
+        const expiredListing = { ...listing, status: "expired", updatedAt: now };
+        this.listings.set(id, expiredListing);
+        listingEvents.emit("updated", listing, expiredListing);
+        expired.push(expiredListing);
+      }
+    });
+    return expired;
+  }
+
+  async getListingPriceHistory(listingId: number): Promise<ListingPrice[]> {
+    return Array.from(this.listingPrices.values())
+      .filter(price => price.listingId === listingId)
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0) || a.id - b.id);
+  }
+
+  async addListingPrice(listingId: number, price: number): Promise<ListingPrice> {
+    const id = this.listingPriceCurrentId++;
+    const listingPrice: ListingPrice = { id, listingId, price, createdAt: new Date() };
+    this.listingPrices.set(id, listingPrice);
+    return listingPrice;
+  }
+
+  async getListingsWithoutExpiry(): Promise<Listing[]> {
+    return Array.from(this.listings.values()).filter(
+      (listing) => (listing.status ?? "active") === "active" && !listing.expiresAt
+    );
+  }
+
+  async getListingsExpiringBefore(date: Date): Promise<Listing[]> {
+    return Array.from(this.listings.values()).filter(
+      (listing) => (listing.status ?? "active") === "active" && listing.expiresAt && listing.expiresAt <= date
+    );
+  }
+
+  async getListingsWithInlineImages(): Promise<Listing[]> {
+    return Array.from(this.listings.values())
+      .filter(listing => listing.images?.some(image => image.startsWith("data:")))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  // Upload methods
+  async createUpload(insertUpload: InsertUpload): Promise<Upload> {
+    const id = this.uploadCurrentId++;
+    const upload: Upload = {
+      ...insertUpload,
+      id,
+      width: insertUpload.width ?? null,
+      height: insertUpload.height ?? null,
+      blurhash: insertUpload.blurhash ?? null,
+      name: insertUpload.name ?? null,
+      conversationId: insertUpload.conversationId ?? null,
+      createdAt: new Date()
+    };
+    this.uploads.set(id, upload);
+    return upload;
+  }
+
+  async getUpload(id: number): Promise<Upload | undefined> {
+    return this.uploads.get(id);
+  }
+
+  async getUploads(ids: number[]): Promise<Upload[]> {
+    return ids
+      .map(id => this.uploads.get(id))
+      .filter((upload): upload is Upload => upload !== undefined);
+  }
+
+  async updateUpload(id: number, updatedFields: Partial<Upload>): Promise<Upload | undefined> {
+    const upload = this.uploads.get(id);
+    if (!upload) {
+      return undefined;
+    }
+
+    const updatedUpload = { ...upload, ...updatedFields };
+    this.uploads.set(id, updatedUpload);
+    return updatedUpload;
+  }
+
+  async getUnprocessedUploads(): Promise<Upload[]> {
+    return Array.from(this.uploads.values())
+      // PDF attachments never get a placeholder
+      .filter(upload => upload.blurhash === null && upload.contentType.startsWith("image/"))
+      .sort((a, b) => a.id - b.id);
   }
 
   // Favorite methods
@@ -178,12 +879,24 @@ export class MemStorage implements IStorage {
     return this.favorites.get(key);
   }
 
-  async getFavoritesByUserId(userId: number): Promise<Favorite[]> {
-    return Array.from(this.favorites.values())
+  async getFavoritesByUserId(userId: number, page: PageQuery = {}): Promise<Page<Favorite>> {
+    const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+    let result = Array.from(this.favorites.values())
       .filter(favorite => favorite.userId === userId)
-      .sort((a, b) => 
-        (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0)
-      );
+      .sort(compareNewest);
+
+    if (page.cursor) {
+      const cursor = decodeCursor(page.cursor);
+      result = result.filter(favorite => compareNewest(cursor, favorite) < 0);
+    }
+
+    return toPage(result.slice(0, limit + 1), limit, newestCursor);
+  }
+
+  async getFavoriteListingIds(userId: number): Promise<number[]> {
+    return Array.from(this.favorites.values())
+      .filter(favorite => favorite.userId === userId && favorite.listingId !== null)
+      .map(favorite => favorite.listingId as number);
   }
 
   async createFavorite(insertFavorite: InsertFavorite): Promise<Favorite> {
@@ -200,6 +913,12 @@ export class MemStorage implements IStorage {
     return this.favorites.delete(key);
   }
 
+  async getFavoriteUserIds(listingId: number): Promise<number[]> {
+    return Array.from(this.favorites.values())
+      .filter(favorite => favorite.listingId === listingId && favorite.userId !== null)
+      .map(favorite => favorite.userId as number);
+  }
+
   // Message methods
   async getMessage(id: number): Promise<Message | undefined> {
     return this.messages.get(id);
@@ -213,275 +932,2042 @@ export class MemStorage implements IStorage {
       );
   }
 
-  async getMessagesBetweenUsers(userId1: number, userId2: number, listingId?: number): Promise<Message[]> {
-    return Array.from(this.messages.values())
-      .filter(message => {
-        const userMatch = 
-          (message.senderId === userId1 && message.receiverId === userId2) ||
-          (message.senderId === userId2 && message.receiverId === userId1);
-        
-        if (listingId) {
-          return userMatch && message.listingId === listingId;
-        }
-        
-        return userMatch;
-      })
-      .sort((a, b) => 
-        (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0)
-      );
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    return this.conversations.get(id);
   }
 
-  async createMessage(insertMessage: InsertMessage): Promise<Message> {
-    const id = this.messageCurrentId++;
-    const now = new Date();
-    const message: Message = { ...insertMessage, id, createdAt: now, read: false };
-    this.messages.set(id, message);
-    return message;
-  }
+  async getConversationsByUserId(userId: number, query: ConversationQuery = {}): Promise<Page<ConversationSummary>> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const summaries: (ConversationSummary & { createdAt: Date; id: number })[] = [];
 
-  async markMessageAsRead(id: number): Promise<Message | undefined> {
-    const message = this.messages.get(id);
-    if (!message) {
-      return undefined;
-    }
+    this.conversations.forEach(conversation => {
+      const role = getConversationRole(conversation, userId);
+      if (!role) return;
+      if ((getParticipantState(conversation, role).archivedAt !== null) !== (query.archived ?? false)) return;
 
-    const updatedMessage = { ...message, read: true };
-    this.messages.set(id, updatedMessage);
-    return updatedMessage;
-  }
-}
+      const otherUser = this.users.get(role === "buyer" ? conversation.sellerId : conversation.buyerId);
+      const listing = this.listings.get(conversation.listingId);
+      const lastMessage = conversation.lastMessageId !== null ? this.messages.get(conversation.lastMessageId) : undefined;
+      if (!otherUser || !listing || !lastMessage) return;
 
-export class DatabaseStorage implements IStorage {
-  private db: ReturnType<typeof drizzle>;
-  sessionStore: any;
+      const { password, ...safeUser } = otherUser;
+      summaries.push({
+        ...toConversationSummary(conversation, userId, safeUser, listing, lastMessage),
+        createdAt: conversation.lastMessageAt,
+      });
+    });
 
-  constructor() {
-    if (!process.env.DATABASE_URL) {
-      throw new Error("DATABASE_URL environment variable is not defined");
-    }
+    let result = summaries.sort(compareNewest);
 
-    const client = postgres(process.env.DATABASE_URL);
-    this.db = drizzle(client);
-    
-    // Initialize session store
-    this.sessionStore = new PostgresSessionStore({
-      conObject: {
-        connectionString: process.env.DATABASE_URL,
-      },
-      createTableIfMissing: true,
-    });
-  }
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor);
+      result = result.filter(summary => compareNewest(cursor, summary) < 0);
+    }
 
-  // User methods
-  async getUser(id: number): Promise<User | undefined> {
-    const result = await this.db.select().from(users).where(eq(users.id, id));
-    return result[0];
+    const page = toPage(result.slice(0, limit + 1), limit, newestCursor);
+    return {
+      items: page.items.map(({ createdAt, ...summary }) => summary),
+      nextCursor: page.nextCursor,
+    };
   }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    const result = await this.db.select().from(users).where(eq(users.username, username));
-    return result[0];
-  }
+  async updateConversation(id: number, userId: number, changes: UpdateConversation): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    const role = conversation && getConversationRole(conversation, userId);
+    if (!conversation || !role) {
+      return undefined;
+    }
 
-  async getUserByEmail(email: string): Promise<User | undefined> {
-    const result = await this.db.select().from(users).where(eq(users.email, email));
-    return result[0];
+    const updatedConversation: Conversation = {
+      ...conversation,
+      ...toParticipantColumns(role, toParticipantChanges(changes)),
+    };
+    this.conversations.set(id, updatedConversation);
+    return updatedConversation;
   }
 
-  async createUser(user: InsertUser): Promise<User> {
-    const result = await this.db.insert(users).values(user).returning();
-    return result[0];
+  async startConversation(listingId: number, senderId: number, receiverId: number): Promise<Conversation> {
+    return this.findOrStartConversation({ listingId, senderId, receiverId }, new Date());
   }
 
-  // Listing methods
-  async getListing(id: number): Promise<Listing | undefined> {
-    const result = await this.db.select().from(listings).where(eq(listings.id, id));
-    return result[0];
+  async getConversationAttachmentSize(conversationId: number): Promise<number> {
+    let size = 0;
+    this.uploads.forEach(upload => {
+      if (upload.conversationId === conversationId) {
+        size += upload.size;
+      }
+    });
+    return size;
   }
 
-  async getListings(filter?: Partial<Listing>): Promise<Listing[]> {
-    if (!filter) {
-      return this.db.select().from(listings).orderBy(desc(listings.createdAt));
+  // The conversation a message between two users about a listing belongs to,
+  // started if this is the first
+  private findOrStartConversation(
+    message: Pick<Message, "listingId" | "senderId" | "receiverId">,
+    at: Date
+  ): Conversation {
+    const listing = message.listingId !== null ? this.listings.get(message.listingId) : undefined;
+    if (!listing) {
+      throw new ConversationError();
     }
 
-    // Apply individual filters as we need to handle them conditionally
-    let result = await this.db.select().from(listings);
-    
-    if (filter.category && Array.isArray(filter.category)) {
-      result = result.filter(listing => 
-        filter.category!.includes(listing.category as any)
-      );
-    } else if (filter.category) {
-      result = result.filter(listing => 
-        listing.category === filter.category
-      );
+    const participants = getMessageParticipants(listing.userId, message);
+    const existing = Array.from(this.conversations.values()).find(conversation =>
+      conversation.listingId === listing.id && conversation.buyerId === participants.buyerId
+    );
+    if (existing) {
+      return existing;
     }
-    
-    if (filter.type) {
-      result = result.filter(listing => 
-        listing.type === filter.type
+
+    const conversation: Conversation = {
+      id: this.conversationCurrentId++,
+      listingId: listing.id,
+      ...participants,
+      lastMessageId: null,
+      lastMessageAt: at,
+      buyerUnreadCount: 0,
+      sellerUnreadCount: 0,
+      buyerLastReadMessageId: null,
+      sellerLastReadMessageId: null,
+      buyerArchivedAt: null,
+      sellerArchivedAt: null,
+      buyerMuted: false,
+      sellerMuted: false,
+      createdAt: at,
+    };
+    this.conversations.set(conversation.id, conversation);
+    return conversation;
+  }
+
+  async backfillConversations(): Promise<number> {
+    let threaded = 0;
+    for (const message of Array.from(this.messages.values())) {
+      if (message.conversationId !== null) continue;
+      try {
+        this.threadMessage(message);
+        threaded++;
+      } catch (error) {
+        if (!(error instanceof ConversationError)) throw error;
+      }
+    }
+    return threaded;
+  }
+
+  // Add a message to its conversation, starting one if needed. The message
+  // becomes the latest, unread for its receiver unless already read, and
+  // brings the conversation back to archived inboxes unless muted.
+  private threadMessage(message: Message): Message {
+    const conversation = this.findOrStartConversation(message, message.createdAt ?? new Date());
+    const participants = { buyerId: conversation.buyerId, sellerId: conversation.sellerId };
+
+    const receiver = message.receiverId === participants.sellerId ? "seller" : "buyer";
+    const state = getParticipantState(conversation, receiver);
+    const updatedConversation: Conversation = {
+      ...conversation,
+      lastMessageId: message.id,
+      lastMessageAt: message.createdAt ?? new Date(),
+      buyerArchivedAt: conversation.buyerMuted ? conversation.buyerArchivedAt : null,
+      sellerArchivedAt: conversation.sellerMuted ? conversation.sellerArchivedAt : null,
+      ...toParticipantColumns(receiver, message.read
+        ? { lastReadMessageId: Math.max(state.lastReadMessageId ?? 0, message.id) }
+        : { unreadCount: state.unreadCount + 1 }),
+    };
+    this.conversations.set(updatedConversation.id, updatedConversation);
+
+    const threadedMessage = { ...message, conversationId: updatedConversation.id };
+    this.messages.set(message.id, threadedMessage);
+    return threadedMessage;
+  }
+
+  async getConversationBetween(listingId: number, userId1: number, userId2: number): Promise<Conversation | undefined> {
+    return Array.from(this.conversations.values()).find(conversation =>
+      conversation.listingId === listingId &&
+      ((conversation.buyerId === userId1 && conversation.sellerId === userId2) ||
+        (conversation.buyerId === userId2 && conversation.sellerId === userId1))
+    );
+  }
+
+  async getConversationMessages(conversationId: number, page: PageQuery = {}): Promise<Page<Message>> {
+    const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+    let result = Array.from(this.messages.values())
+      .filter(message => message.conversationId === conversationId)
+      .sort(compareNewest);
+
+    if (page.cursor) {
+      const cursor = decodeCursor(page.cursor);
+      result = result.filter(message => compareNewest(cursor, message) < 0);
+    }
+
+    return toPage(result.slice(0, limit + 1), limit, newestCursor);
+  }
+
+  async getConversationPartnerIds(userId: number, listingId: number): Promise<number[]> {
+    const partnerIds = new Set<number>();
+    this.messages.forEach(message => {
+      if (message.listingId !== listingId) return;
+      if (message.senderId === userId && message.receiverId !== null) {
+        partnerIds.add(message.receiverId);
+      } else if (message.receiverId === userId && message.senderId !== null) {
+        partnerIds.add(message.senderId);
+      }
+    });
+    return Array.from(partnerIds);
+  }
+
+  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+    const message: Message = {
+      ...insertMessage,
+      id: this.messageCurrentId,
+      kind: insertMessage.kind ?? "text",
+      attachments: insertMessage.attachments ?? [],
+      meetupId: insertMessage.meetupId ?? null,
+      createdAt: new Date(),
+      read: false,
+      conversationId: null,
+    };
+    // Throws before the message is stored if it can't be threaded
+    const threadedMessage = this.threadMessage(message);
+    this.messageCurrentId++;
+    return threadedMessage;
+  }
+
+  async markConversationRead(conversationId: number, userId: number, upToMessageId: number): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(conversationId);
+    const role = conversation && getConversationRole(conversation, userId);
+    if (!conversation || !role) {
+      return undefined;
+    }
+
+    let unreadCount = 0;
+    this.messages.forEach((message, id) => {
+      if (message.conversationId !== conversationId || message.receiverId !== userId || message.read) return;
+      if (id <= upToMessageId) {
+        this.messages.set(id, { ...message, read: true });
+      } else {
+        unreadCount++;
+      }
+    });
+
+    const state = getParticipantState(conversation, role);
+    const updatedConversation: Conversation = {
+      ...conversation,
+      ...toParticipantColumns(role, {
+        unreadCount,
+        lastReadMessageId: Math.max(state.lastReadMessageId ?? 0, Math.min(upToMessageId, conversation.lastMessageId ?? 0)),
+      }),
+    };
+    this.conversations.set(conversationId, updatedConversation);
+    return updatedConversation;
+  }
+
+  async getUnreadMessages(receiverId: number, since?: Date | null): Promise<Message[]> {
+    const isMuted = (message: Message) => {
+      const conversation = message.conversationId !== null ? this.conversations.get(message.conversationId) : undefined;
+      const role = conversation && getConversationRole(conversation, receiverId);
+      return !!conversation && !!role && getParticipantState(conversation, role).muted;
+    };
+
+    return Array.from(this.messages.values())
+      .filter(message =>
+        message.receiverId === receiverId &&
+        !message.read &&
+        (!since || (message.createdAt !== null && message.createdAt > since)) &&
+        !isMuted(message)
+      )
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
+  async getUserIdsWithUnreadMessages(): Promise<number[]> {
+    const userIds = new Set<number>();
+    this.messages.forEach(message => {
+      if (!message.read && message.receiverId !== null) {
+        userIds.add(message.receiverId);
+      }
+    });
+    return Array.from(userIds);
+  }
+
+  // Offer methods
+  async getOffer(id: number): Promise<Offer | undefined> {
+    return this.offers.get(id);
+  }
+
+  async getOffersByConversation(listingId: number, buyerId: number): Promise<Offer[]> {
+    return Array.from(this.offers.values())
+      .filter(offer => offer.listingId === listingId && offer.buyerId === buyerId)
+      .sort(compareNewest);
+  }
+
+  async createOffer(insertOffer: InsertOffer): Promise<Offer> {
+    const id = this.offerCurrentId++;
+    const now = new Date();
+    const offer: Offer = {
+      ...insertOffer,
+      id,
+      status: "pending",
+      parentOfferId: insertOffer.parentOfferId ?? null,
+      createdAt: now
+    };
+    this.offers.set(id, offer);
+    return offer;
+  }
+
+  async updateOfferStatus(id: number, status: OfferStatus): Promise<Offer | undefined> {
+    const offer = this.offers.get(id);
+    if (!offer || offer.status !== "pending") {
+      return undefined;
+    }
+
+    const updatedOffer = { ...offer, status };
+    this.offers.set(id, updatedOffer);
+    return updatedOffer;
+  }
+
+  async counterOffer(id: number, counter: InsertOffer): Promise<Offer | undefined> {
+    const countered = await this.updateOfferStatus(id, "countered");
+    if (!countered) {
+      return undefined;
+    }
+
+    return this.createOffer({ ...counter, parentOfferId: id });
+  }
+
+  async acceptOffer(id: number): Promise<{ offer: Offer; listing: Listing } | undefined> {
+    const offer = this.offers.get(id);
+    const listing = offer && this.listings.get(offer.listingId);
+    if (!offer || offer.status !== "pending" || !listing || listing.status !== "active") {
+      return undefined;
+    }
+
+    const acceptedOffer = { ...offer, status: "accepted" };
+    const pendingListing = { ...listing, status: "pending", updatedAt: new Date() };
+    this.offers.set(id, acceptedOffer);
+    this.listings.set(listing.id, pendingListing);
+    listingEvents.emit("updated", listing, pendingListing);
+    return { offer: acceptedOffer, listing: pendingListing };
+  }
+
+  async expireOffers(now: Date = new Date()): Promise<Offer[]> {
+    const expired: Offer[] = [];
+    this.offers.forEach((offer, id) => {
+      if (offer.status === "pending" && offer.expiresAt <= now) {
+        const expiredOffer = { ...offer, status: "expired" };
+        this.offers.set(id, expiredOffer);
+        expired.push(expiredOffer);
+      }
+    });
+    return expired;
+  }
+
+  // Meetup methods
+  async getMeetup(id: number): Promise<Meetup | undefined> {
+    return this.meetups.get(id);
+  }
+
+  async getMeetupsByConversation(conversationId: number): Promise<Meetup[]> {
+    return Array.from(this.meetups.values())
+      .filter(meetup => meetup.conversationId === conversationId)
+      .sort(compareNewest);
+  }
+
+  async proposeMeetup(insertMeetup: InsertMeetup): Promise<{ meetup: Meetup; message: Message } | undefined> {
+    const conversation = this.conversations.get(insertMeetup.conversationId);
+    if (!conversation) {
+      return undefined;
+    }
+    if (insertMeetup.parentMeetupId && !(await this.updateMeetupStatus(insertMeetup.parentMeetupId, "countered"))) {
+      return undefined;
+    }
+
+    const meetup: Meetup = {
+      ...insertMeetup,
+      id: this.meetupCurrentId++,
+      meetupSpotId: insertMeetup.meetupSpotId ?? null,
+      notes: insertMeetup.notes ?? null,
+      status: "pending",
+      parentMeetupId: insertMeetup.parentMeetupId ?? null,
+      remindedAt: null,
+      createdAt: new Date(),
+    };
+    this.meetups.set(meetup.id, meetup);
+
+    const message = await this.createMessage({
+      senderId: meetup.proposerId,
+      receiverId: meetup.recipientId,
+      listingId: conversation.listingId,
+      content: "",
+      kind: "meetup",
+      meetupId: meetup.id,
+    });
+    return { meetup, message };
+  }
+
+  async updateMeetupStatus(id: number, status: MeetupStatus): Promise<Meetup | undefined> {
+    const meetup = this.meetups.get(id);
+    if (!meetup || !meetupStatusTransitions[meetup.status as MeetupStatus].includes(status)) {
+      return undefined;
+    }
+
+    const updatedMeetup = { ...meetup, status };
+    this.meetups.set(id, updatedMeetup);
+    return updatedMeetup;
+  }
+
+  async getMeetupsDueForReminder(before: Date, now: Date = new Date()): Promise<Meetup[]> {
+    return Array.from(this.meetups.values())
+      .filter(meetup =>
+        meetup.status === "accepted" && meetup.remindedAt === null && meetup.startsAt > now && meetup.startsAt <= before
+      )
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  async markMeetupReminded(id: number): Promise<Meetup | undefined> {
+    const meetup = this.meetups.get(id);
+    if (!meetup || meetup.remindedAt !== null) {
+      return undefined;
+    }
+
+    const remindedMeetup = { ...meetup, remindedAt: new Date() };
+    this.meetups.set(id, remindedMeetup);
+    return remindedMeetup;
+  }
+
+  // Transaction methods
+  async completeSale(sale: InsertTransaction): Promise<CompletedSale | undefined> {
+    const listing = this.listings.get(sale.listingId);
+    if (!listing || listing.userId !== sale.sellerId || listing.status === "sold" || !canTransitionListingStatus(listing.status, "sold")) {
+      return undefined;
+    }
+
+    const id = this.transactionCurrentId++;
+    const transaction: Transaction = {
+      ...sale,
+      id,
+      offerId: sale.offerId ?? null,
+      completedAt: new Date()
+    };
+    const soldListing = { ...listing, status: "sold", updatedAt: new Date() };
+    this.transactions.set(id, transaction);
+    this.listings.set(listing.id, soldListing);
+    listingEvents.emit("updated", listing, soldListing);
+    return { listing: soldListing, transaction };
+  }
+
+  async getTransaction(id: number): Promise<Transaction | undefined> {
+    return this.transactions.get(id);
+  }
+
+  async getTransactionByListingId(listingId: number): Promise<Transaction | undefined> {
+    return Array.from(this.transactions.values()).find(
+      (transaction) => transaction.listingId === listingId
+    );
+  }
+
+  async getTransactionsByUserId(userId: number): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter(transaction => transaction.sellerId === userId || transaction.buyerId === userId)
+      .sort((a, b) =>
+        (b.completedAt?.getTime() || 0) - (a.completedAt?.getTime() || 0) || b.id - a.id
       );
+  }
+
+  // Review methods
+  async createReview(insertReview: InsertReview): Promise<Review | undefined> {
+    const existing = Array.from(this.reviews.values()).find(
+      (review) => review.transactionId === insertReview.transactionId && review.reviewerId === insertReview.reviewerId
+    );
+    if (existing) {
+      return undefined;
     }
-    
-    if (filter.condition) {
-      result = result.filter(listing => 
-        listing.condition === filter.condition
+
+    const id = this.reviewCurrentId++;
+    const review: Review = {
+      ...insertReview,
+      id,
+      comment: insertReview.comment ?? null,
+      createdAt: new Date()
+    };
+    this.reviews.set(id, review);
+    return review;
+  }
+
+  async getReviewsByRevieweeId(userId: number): Promise<Review[]> {
+    return Array.from(this.reviews.values())
+      .filter(review => review.revieweeId === userId)
+      .sort(compareNewest);
+  }
+
+  async getReviewedTransactionIds(reviewerId: number): Promise<number[]> {
+    return Array.from(this.reviews.values())
+      .filter(review => review.reviewerId === reviewerId)
+      .map(review => review.transactionId);
+  }
+
+  async getUserRating(userId: number): Promise<UserRating> {
+    const ratings = Array.from(this.reviews.values())
+      .filter(review => review.revieweeId === userId)
+      .map(review => review.rating);
+
+    return {
+      average: ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null,
+      count: ratings.length,
+    };
+  }
+
+  // Saved search methods
+  async getSavedSearch(id: number): Promise<SavedSearch | undefined> {
+    return this.savedSearches.get(id);
+  }
+
+  async getSavedSearchesByUserId(userId: number): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values())
+      .filter(search => search.userId === userId)
+      .sort(compareNewest);
+  }
+
+  async getSavedSearchesForListingType(type: string): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values())
+      .filter(search => !search.filters.type || search.filters.type === type);
+  }
+
+  async getSavedSearchesWithEmailAlerts(): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values()).filter(search => search.emailAlerts);
+  }
+
+  async createSavedSearch(insertSearch: InsertSavedSearch): Promise<SavedSearch> {
+    const id = this.savedSearchCurrentId++;
+    const now = new Date();
+    const search: SavedSearch = {
+      ...insertSearch,
+      id,
+      emailAlerts: insertSearch.emailAlerts ?? false,
+      lastViewedAt: now,
+      lastEmailedAt: null,
+      createdAt: now
+    };
+    this.savedSearches.set(id, search);
+    return search;
+  }
+
+  async updateSavedSearch(id: number, updatedFields: Partial<SavedSearch>): Promise<SavedSearch | undefined> {
+    const search = this.savedSearches.get(id);
+    if (!search) {
+      return undefined;
+    }
+
+    const updatedSearch = { ...search, ...updatedFields };
+    this.savedSearches.set(id, updatedSearch);
+    return updatedSearch;
+  }
+
+  async deleteSavedSearch(id: number): Promise<boolean> {
+    this.savedSearchMatches.forEach((match, matchId) => {
+      if (match.savedSearchId === id) {
+        this.savedSearchMatches.delete(matchId);
+      }
+    });
+    return this.savedSearches.delete(id);
+  }
+
+  async createSavedSearchMatches(matches: { savedSearchId: number; listingId: number }[]): Promise<SavedSearchMatch[]> {
+    const existing = Array.from(this.savedSearchMatches.values());
+    const created: SavedSearchMatch[] = [];
+    for (const insertMatch of matches) {
+      const isRecorded = [...existing, ...created].some(
+        match => match.savedSearchId === insertMatch.savedSearchId && match.listingId === insertMatch.listingId
       );
+      if (isRecorded) {
+        continue;
+      }
+
+      const id = this.savedSearchMatchCurrentId++;
+      const match: SavedSearchMatch = { ...insertMatch, id, createdAt: new Date() };
+      this.savedSearchMatches.set(id, match);
+      created.push(match);
+    }
+    return created;
+  }
+
+  async getSavedSearchMatches(savedSearchId: number, since?: Date | null): Promise<SavedSearchMatch[]> {
+    return Array.from(this.savedSearchMatches.values())
+      .filter(match => match.savedSearchId === savedSearchId && (!since || (match.createdAt !== null && match.createdAt > since)))
+      .sort(compareNewest);
+  }
+
+  async getNotification(id: number): Promise<Notification | undefined> {
+    return this.notifications.get(id);
+  }
+
+  async getNotificationsByUserId(userId: number, page: PageQuery = {}): Promise<Page<Notification>> {
+    const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+    let result = Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId)
+      .sort(compareNewest);
+
+    if (page.cursor) {
+      const cursor = decodeCursor(page.cursor);
+      result = result.filter(notification => compareNewest(cursor, notification) < 0);
+    }
+
+    return toPage(result.slice(0, limit + 1), limit, newestCursor);
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId && !notification.readAt)
+      .length;
+  }
+
+  async getLatestNotification(userId: number, type: NotificationType, listingId: number): Promise<Notification | undefined> {
+    return Array.from(this.notifications.values())
+      .filter(notification =>
+        notification.userId === userId && notification.type === type && notification.listingId === listingId
+      )
+      .sort(compareNewest)[0];
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const id = this.notificationCurrentId++;
+    const notification: Notification = {
+      ...insertNotification,
+      id,
+      link: insertNotification.link ?? null,
+      listingId: insertNotification.listingId ?? null,
+      readAt: null,
+      emailQueuedAt: null,
+      createdAt: new Date()
+    };
+    this.notifications.set(id, notification);
+    return notification;
+  }
+
+  async markNotificationRead(id: number): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification || notification.readAt) {
+      return notification;
+    }
+
+    const readNotification = { ...notification, readAt: new Date() };
+    this.notifications.set(id, readNotification);
+    return readNotification;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const now = new Date();
+    let marked = 0;
+    this.notifications.forEach((notification, id) => {
+      if (notification.userId === userId && !notification.readAt) {
+        this.notifications.set(id, { ...notification, readAt: now });
+        marked++;
+      }
+    });
+    return marked;
+  }
+
+  async queueNotificationEmail(id: number): Promise<void> {
+    const notification = this.notifications.get(id);
+    if (notification) {
+      this.notifications.set(id, { ...notification, emailQueuedAt: new Date() });
+    }
+  }
+
+  async getQueuedNotificationEmails(): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.emailQueuedAt !== null)
+      .sort((a, b) => a.emailQueuedAt!.getTime() - b.emailQueuedAt!.getTime() || a.id - b.id);
+  }
+
+  async claimQueuedNotificationEmail(id: number): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification?.emailQueuedAt) {
+      return undefined;
+    }
+
+    const claimed = { ...notification, emailQueuedAt: null };
+    this.notifications.set(id, claimed);
+    return claimed;
+  }
+
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined> {
+    return this.notificationPreferences.get(userId);
+  }
+
+  async saveNotificationPreferences(userId: number, updatedFields: Partial<NotificationPreferences>): Promise<NotificationPreferences> {
+    const preferences: NotificationPreferences = {
+      channels: {},
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      digestFrequency: "daily",
+      lastDigestAt: null,
+      ...this.notificationPreferences.get(userId),
+      ...updatedFields,
+      userId,
+      updatedAt: new Date()
+    };
+    this.notificationPreferences.set(userId, preferences);
+    return preferences;
+  }
+
+  async getPushSubscriptionsByUserId(userId: number): Promise<PushSubscription[]> {
+    return Array.from(this.pushSubscriptions.values())
+      .filter(subscription => subscription.userId === userId);
+  }
+
+  async savePushSubscription(insertSubscription: Omit<PushSubscription, "id" | "createdAt">): Promise<PushSubscription> {
+    const subscription: PushSubscription = {
+      ...insertSubscription,
+      id: this.pushSubscriptionCurrentId++,
+      createdAt: new Date()
+    };
+    this.pushSubscriptions.set(subscription.endpoint, subscription);
+    return subscription;
+  }
+
+  async deletePushSubscription(endpoint: string): Promise<boolean> {
+    return this.pushSubscriptions.delete(endpoint);
+  }
+}
+
+type DatabaseTransaction = Parameters<Parameters<ReturnType<typeof drizzle>["transaction"]>[0]>[0];
+
+export class DatabaseStorage implements IStorage {
+  private db: ReturnType<typeof drizzle>;
+  private searchReady: Promise<unknown>;
+  sessionStore: any;
+
+  constructor() {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL environment variable is not defined");
     }
+
+    const client = postgres(process.env.DATABASE_URL);
+    this.db = drizzle(client);
+    
+    // Trigram matching for misspelled searches needs the pg_trgm extension
+    this.searchReady = this.db
+      .execute(sql`create extension if not exists pg_trgm`)
+      .catch((error) => console.error("Failed to enable pg_trgm extension:", error));
     
-    if (filter.userId) {
-      result = result.filter(listing => 
-        listing.userId === filter.userId
+    // Initialize session store
+    this.sessionStore = new PostgresSessionStore({
+      conObject: {
+        connectionString: process.env.DATABASE_URL,
+      },
+      createTableIfMissing: true,
+    });
+  }
+
+  // University methods
+  async getUniversities(): Promise<University[]> {
+    return this.db.select().from(universities).orderBy(asc(universities.name));
+  }
+
+  async getUniversity(id: number): Promise<University | undefined> {
+    const result = await this.db.select().from(universities).where(eq(universities.id, id));
+    return result[0];
+  }
+
+  async getUniversityByDomain(domain: string): Promise<University | undefined> {
+    const result = await this.db
+      .select()
+      .from(universities)
+      .where(arrayContains(universities.domains, [domain.toLowerCase()]));
+    return result[0];
+  }
+
+  async upsertUniversities(insertUniversities: InsertUniversity[]): Promise<void> {
+    if (insertUniversities.length === 0) {
+      return;
+    }
+
+    await this.db
+      .insert(universities)
+      .values(insertUniversities)
+      .onConflictDoUpdate({
+        target: universities.name,
+        set: {
+          domains: sql`excluded.domains`,
+          campusLocations: sql`excluded.campus_locations`,
+          meetupSpots: sql`excluded.meetup_spots`,
+          timezone: sql`excluded.timezone`,
+          allowCrossCampusMessaging: sql`excluded.allow_cross_campus_messaging`,
+        },
+      });
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.id, id));
+    return result[0];
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.username, username));
+    return result[0];
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.email, email));
+    return result[0];
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const result = await this.db.insert(users).values(user).returning();
+    return result[0];
+  }
+
+  async updateUser(id: number, updatedFields: Partial<User>): Promise<User | undefined> {
+    const result = await this.db
+      .update(users)
+      .set(updatedFields)
+      .where(eq(users.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getUsersWithoutUniversity(): Promise<User[]> {
+    return await this.db.select().from(users).where(isNull(users.universityId));
+  }
+
+  async backfillListingUniversities(): Promise<number> {
+    const sellerUniversityId = this.db
+      .select({ universityId: users.universityId })
+      .from(users)
+      .where(eq(users.id, listings.userId));
+    const updated = await this.db
+      .update(listings)
+      .set({ universityId: sql`(${sellerUniversityId})` })
+      .where(and(isNull(listings.universityId), sql`(${sellerUniversityId}) is not null`))
+      .returning({ id: listings.id });
+    return updated.length;
+  }
+
+  // Listing methods
+  async getListing(id: number): Promise<Listing | undefined> {
+    const result = await this.db.select(listingColumns).from(listings).where(eq(listings.id, id));
+    return result[0];
+  }
+
+  async getListings(query: ListingSearch = {}): Promise<Page<Listing>> {
+    const conditions: (SQL | undefined)[] = [];
+
+    if (query.type) {
+      conditions.push(eq(listings.type, query.type));
+    }
+
+    if (query.categories?.length) {
+      conditions.push(inArray(listings.category, query.categories));
+    }
+
+    if (query.conditions?.length) {
+      conditions.push(inArray(listings.condition, query.conditions));
+    }
+
+    if (query.minPrice !== undefined) {
+      conditions.push(gte(listings.price, query.minPrice));
+    }
+
+    if (query.maxPrice !== undefined) {
+      conditions.push(lte(listings.price, query.maxPrice));
+    }
+
+    // Drafts and expired listings are only returned when asked for explicitly
+    if (query.status) {
+      conditions.push(eq(listings.status, query.status));
+    } else {
+      conditions.push(notInArray(sql`coalesce(${listings.status}, 'active')`, [...hiddenListingStatuses]));
+    }
+
+    if (query.userId) {
+      conditions.push(eq(listings.userId, query.userId));
+    }
+
+    if (query.universityIds) {
+      conditions.push(inArray(listings.universityId, query.universityIds));
+    }
+
+    if (query.meetupArea) {
+      const hasSpots = sql`cardinality(${listings.meetupSpotIds}) > 0`;
+      conditions.push(or(
+        and(hasSpots, arrayOverlaps(listings.meetupSpotIds, query.meetupArea.meetupSpotIds)),
+        and(not(hasSpots), inArray(listings.universityId, query.meetupArea.universityIds))
+      ));
+    }
+
+    const searchTerms = getSearchTerms(query.search);
+    let relevance: SQL<number> | undefined;
+    if (searchTerms.length > 0) {
+      await this.searchReady;
+
+      // Every term must prefix-match the search vector or, for misspellings,
+      // be similar enough to a word in the title
+      for (const term of searchTerms) {
+        conditions.push(or(
+          sql`${listings.searchVector} @@ to_tsquery('english', ${toPrefixTsQuery(term)})`,
+          sql`word_similarity(${term}, ${listings.title}) >= ${TRIGRAM_THRESHOLD}`
+        ));
+      }
+
+      // Cast to float8 so the rank survives a round trip through the cursor
+      relevance = sql<number>`(
+        ts_rank(${listings.searchVector}, to_tsquery('english', ${toRankTsQuery(searchTerms)}), 32) +
+        ${TRIGRAM_RANK_WEIGHT} * word_similarity(${query.search}, ${listings.title})
+      )::float8`;
+    }
+
+    const sort = effectiveSort(query);
+    const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+    // Bumped listings sort as if listed when they were bumped
+    const listedAt = sql`coalesce(${listings.bumpedAt}, ${listings.createdAt})`;
+    const afterCursor = cursor && afterNewestCursor(listedAt, listings.id, cursor);
+    const newest = [desc(truncatedCreatedAt(listedAt)), desc(listings.id)];
+    let orderBy: SQL[];
+    switch (sort) {
+      case "price_asc":
+        orderBy = [asc(listings.price), ...newest];
+        if (cursor) {
+          conditions.push(or(
+            gt(listings.price, cursor.price ?? 0),
+            and(eq(listings.price, cursor.price ?? 0), afterCursor)
+          ));
+        }
+        break;
+      case "price_desc":
+        orderBy = [desc(listings.price), ...newest];
+        if (cursor) {
+          conditions.push(or(
+            lt(listings.price, cursor.price ?? 0),
+            and(eq(listings.price, cursor.price ?? 0), afterCursor)
+          ));
+        }
+        break;
+      case "relevance":
+        orderBy = [desc(relevance!), ...newest];
+        if (cursor) {
+          const rank = sql`${cursor.rank ?? 0}::float8`;
+          conditions.push(or(
+            sql`${relevance} < ${rank}`,
+            and(sql`${relevance} = ${rank}`, afterCursor)
+          ));
+        }
+        break;
+      case "newest":
+      default:
+        orderBy = newest;
+        conditions.push(afterCursor);
+    }
+
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const rows: RankedListing[] = await this.db
+      .select({ ...listingColumns, rank: relevance ?? sql<number>`0` })
+      .from(listings)
+      .where(and(...conditions))
+      .orderBy(...orderBy)
+      .limit(limit + 1);
+
+    return withoutRank(toPage(rows, limit, listing => listingCursor(listing, sort)));
+  }
+
+  async getListingsByUserId(userId: number): Promise<Listing[]> {
+    return this.db
+      .select(listingColumns)
+      .from(listings)
+      .where(eq(listings.userId, userId))
+      .orderBy(desc(listings.createdAt));
+  }
+
+  async createListing(listing: InsertListing, status: "active" | "draft" = "active"): Promise<Listing> {
+    const result = await this.db
+      .insert(listings)
+      .values({
+        ...listing,
+        status,
+        expiresAt: status === "active" ? getListingExpiry(listing, new Date()) : null,
+        images: listing.images || [],
+      })
+      .returning(listingColumns);
+    listingEvents.emit("created", result[0]);
+    return result[0];
+  }
+
+  async updateListing(id: number, updatedFields: Partial<Listing>): Promise<Listing | undefined> {
+    const status = updatedFields.status === undefined ? undefined : updatedFields.status ?? "active";
+    const before = await this.getListing(id);
+    if (!before) {
+      return undefined;
+    }
+
+    // Check the transition in the update itself so concurrent status changes can't race
+    const result = await this.db
+      .update(listings)
+      .set({ ...updatedFields, updatedAt: new Date() })
+      .where(
+        and(
+          eq(listings.id, id),
+          status === undefined
+            ? undefined
+            : inArray(sql`coalesce(${listings.status}, 'active')`, statusesLeadingTo(status))
+        )
+      )
+      .returning(listingColumns);
+
+    if (!result[0] && status !== undefined) {
+      const listing = await this.getListing(id);
+      if (listing) {
+        throw new ListingStatusError(listing.status, status);
+      }
+    }
+    if (result[0]) {
+      listingEvents.emit("updated", before, result[0]);
+    }
+    return result[0];
+  }
+
+  async deleteListing(id: number): Promise<boolean> {
+    // Favorites don't cascade, so remove them with the listing; offers,
+    // messages, conversations and any sale with its reviews cascade
+    const deleted = await this.db.transaction(async (tx) => {
+      const favorited = await tx
+        .delete(favorites)
+        .where(eq(favorites.listingId, id))
+        .returning({ userId: favorites.userId });
+      const [listing] = await tx.delete(listings).where(eq(listings.id, id)).returning(listingColumns);
+      return listing && {
+        listing,
+        favoritedBy: favorited.map(favorite => favorite.userId).filter((userId): userId is number => userId !== null),
+      };
+    });
+
+    if (!deleted) {
+      return false;
+    }
+    listingEvents.emit("deleted", deleted.listing, deleted.favoritedBy);
+    return true;
+  }
+
+  async expireListings(now: Date = new Date()): Promise<Listing[]> {
+    const expired = await this.db
+      .update(listings)
+      .set({ status: "expired", updatedAt: now })
+      .where(
+        and(
+          sql`coalesce(${listings.status}, 'active') = 'active'`,
+          lte(listings.expiresAt, now)
+        )
+      )
+      .returning(listingColumns);
+    for (const listing of expired) {
+      listingEvents.emit("updated", { ...listing, status: "active" }, listing);
+    }
+    return expired;
+  }
+
+  async getListingPriceHistory(listingId: number): Promise<ListingPrice[]> {
+    return this.db
+      .select()
+      .from(listingPrices)
+      .where(eq(listingPrices.listingId, listingId))
+      .orderBy(asc(listingPrices.createdAt), asc(listingPrices.id));
+  }
+
+  async addListingPrice(listingId: number, price: number): Promise<ListingPrice> {
+    const result = await this.db.insert(listingPrices).values({ listingId, price }).returning();
+    return result[0];
+  }
+
+  async getListingsWithoutExpiry(): Promise<Listing[]> {
+    return this.db
+      .select(listingColumns)
+      .from(listings)
+      .where(
+        and(
+          sql`coalesce(${listings.status}, 'active') = 'active'`,
+          isNull(listings.expiresAt)
+        )
+      )
+      .orderBy(asc(listings.id));
+  }
+
+  async getListingsExpiringBefore(date: Date): Promise<Listing[]> {
+    return this.db
+      .select(listingColumns)
+      .from(listings)
+      .where(
+        and(
+          sql`coalesce(${listings.status}, 'active') = 'active'`,
+          lte(listings.expiresAt, date)
+        )
+      )
+      .orderBy(asc(listings.expiresAt));
+  }
+
+  async getListingsWithInlineImages(): Promise<Listing[]> {
+    return this.db
+      .select(listingColumns)
+      .from(listings)
+      .where(sql`exists (select 1 from unnest(${listings.images}) as image where image like 'data:%')`)
+      .orderBy(asc(listings.id));
+  }
+
+  // Upload methods
+  async createUpload(upload: InsertUpload): Promise<Upload> {
+    const result = await this.db.insert(uploads).values(upload).returning();
+    return result[0];
+  }
+
+  async getUpload(id: number): Promise<Upload | undefined> {
+    const result = await this.db.select().from(uploads).where(eq(uploads.id, id));
+    return result[0];
+  }
+
+  async getUploads(ids: number[]): Promise<Upload[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return this.db.select().from(uploads).where(inArray(uploads.id, ids));
+  }
+
+  async updateUpload(id: number, updatedFields: Partial<Upload>): Promise<Upload | undefined> {
+    const result = await this.db
+      .update(uploads)
+      .set(updatedFields)
+      .where(eq(uploads.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getUnprocessedUploads(): Promise<Upload[]> {
+    return this.db
+      .select()
+      .from(uploads)
+      // PDF attachments never get a placeholder
+      .where(and(isNull(uploads.blurhash), like(uploads.contentType, "image/%")))
+      .orderBy(asc(uploads.id));
+  }
+
+  // Favorite methods
+  async getFavorite(userId: number, listingId: number): Promise<Favorite | undefined> {
+    const result = await this.db
+      .select()
+      .from(favorites)
+      .where(
+        and(
+          eq(favorites.userId, userId),
+          eq(favorites.listingId, listingId)
+        )
+      );
+    return result[0];
+  }
+
+  async getFavoritesByUserId(userId: number, page: PageQuery = {}): Promise<Page<Favorite>> {
+    const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+    const cursor = page.cursor ? decodeCursor(page.cursor) : undefined;
+    const rows = await this.db
+      .select()
+      .from(favorites)
+      .where(
+        and(
+          eq(favorites.userId, userId),
+          cursor && afterNewestCursor(favorites.createdAt, favorites.id, cursor)
+        )
+      )
+      .orderBy(desc(truncatedCreatedAt(favorites.createdAt)), desc(favorites.id))
+      .limit(limit + 1);
+
+    return toPage(rows, limit, newestCursor);
+  }
+
+  async getFavoriteListingIds(userId: number): Promise<number[]> {
+    const result = await this.db
+      .select({ listingId: favorites.listingId })
+      .from(favorites)
+      .where(eq(favorites.userId, userId));
+    return result
+      .map(favorite => favorite.listingId)
+      .filter((listingId): listingId is number => listingId !== null);
+  }
+
+  async getFavoriteUserIds(listingId: number): Promise<number[]> {
+    const result = await this.db
+      .select({ userId: favorites.userId })
+      .from(favorites)
+      .where(eq(favorites.listingId, listingId));
+    return result
+      .map(favorite => favorite.userId)
+      .filter((userId): userId is number => userId !== null);
+  }
+
+  async createFavorite(favorite: InsertFavorite): Promise<Favorite> {
+    const result = await this.db.insert(favorites).values(favorite).returning();
+    return result[0];
+  }
+
+  async deleteFavorite(userId: number, listingId: number): Promise<boolean> {
+    const result = await this.db
+      .delete(favorites)
+      .where(
+        and(
+          eq(favorites.userId, userId),
+          eq(favorites.listingId, listingId)
+        )
+      );
+    return result.count > 0;
+  }
+
+  // Message methods
+  async getMessage(id: number): Promise<Message | undefined> {
+    const result = await this.db.select().from(messages).where(eq(messages.id, id));
+    return result[0];
+  }
+
+  async getMessagesByUserId(userId: number): Promise<Message[]> {
+    return this.db
+      .select()
+      .from(messages)
+      .where(
+        or(
+          eq(messages.senderId, userId),
+          eq(messages.receiverId, userId)
+        )
+      )
+      .orderBy(asc(messages.createdAt));
+  }
+
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    const result = await this.db.select().from(conversations).where(eq(conversations.id, id));
+    return result[0];
+  }
+
+  async getConversationsByUserId(userId: number, query: ConversationQuery = {}): Promise<Page<ConversationSummary>> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+    const isBuyer = eq(conversations.buyerId, userId);
+    const otherUserId = sql`case when ${isBuyer} then ${conversations.sellerId} else ${conversations.buyerId} end`;
+    const archivedAt = sql`case when ${isBuyer} then ${conversations.buyerArchivedAt} else ${conversations.sellerArchivedAt} end`;
+
+    // The other user, listing and latest message come from the same query
+    const rows = await this.db
+      .select({
+        conversation: conversations,
+        otherUser: publicUserColumns,
+        listing: listingColumns,
+        lastMessage: messages,
+      })
+      .from(conversations)
+      .innerJoin(messages, eq(messages.id, conversations.lastMessageId))
+      .innerJoin(users, eq(users.id, otherUserId))
+      .innerJoin(listings, eq(listings.id, conversations.listingId))
+      .where(
+        and(
+          or(isBuyer, eq(conversations.sellerId, userId)),
+          query.archived ? sql`${archivedAt} is not null` : sql`${archivedAt} is null`,
+          cursor && afterNewestCursor(conversations.lastMessageAt, conversations.id, cursor)
+        )
+      )
+      .orderBy(desc(truncatedCreatedAt(conversations.lastMessageAt)), desc(conversations.id))
+      .limit(limit + 1);
+
+    const page = toPage(rows, limit, ({ conversation }) =>
+      newestCursor({ createdAt: conversation.lastMessageAt, id: conversation.id })
+    );
+    return {
+      items: page.items.map(({ conversation, otherUser, listing, lastMessage }) =>
+        toConversationSummary(conversation, userId, otherUser, listing, lastMessage)
+      ),
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  async updateConversation(id: number, userId: number, changes: UpdateConversation): Promise<Conversation | undefined> {
+    const conversation = await this.getConversation(id);
+    const role = conversation && getConversationRole(conversation, userId);
+    if (!conversation || !role) {
+      return undefined;
+    }
+
+    const state = toParticipantChanges(changes);
+    if (Object.keys(state).length === 0) {
+      return conversation;
+    }
+
+    const result = await this.db
+      .update(conversations)
+      .set(toParticipantColumns(role, state))
+      .where(eq(conversations.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async startConversation(listingId: number, senderId: number, receiverId: number): Promise<Conversation> {
+    return this.db.transaction((tx) => this.findOrStartConversation(tx, { listingId, senderId, receiverId }, new Date()));
+  }
+
+  async getConversationAttachmentSize(conversationId: number): Promise<number> {
+    const [result] = await this.db
+      .select({ size: sql<number>`coalesce(sum(${uploads.size}), 0)::int` })
+      .from(uploads)
+      .where(eq(uploads.conversationId, conversationId));
+    return result?.size ?? 0;
+  }
+
+  // The conversation a message between two users about a listing belongs to,
+  // started if this is the first. The no-op update on conflict locks an
+  // existing conversation until the transaction commits, so concurrent
+  // messages update it one at a time.
+  private async findOrStartConversation(
+    tx: DatabaseTransaction,
+    message: Pick<Message, "listingId" | "senderId" | "receiverId">,
+    at: Date
+  ): Promise<Conversation> {
+    const [listing] = message.listingId !== null
+      ? await tx.select({ id: listings.id, userId: listings.userId }).from(listings).where(eq(listings.id, message.listingId))
+      : [];
+    if (!listing) {
+      throw new ConversationError();
+    }
+
+    const participants = getMessageParticipants(listing.userId, message);
+    const [conversation] = await tx
+      .insert(conversations)
+      .values({ listingId: listing.id, ...participants, lastMessageAt: at, createdAt: at })
+      .onConflictDoUpdate({
+        target: [conversations.listingId, conversations.buyerId],
+        set: { listingId: sql`excluded.listing_id` },
+      })
+      .returning();
+    return conversation;
+  }
+
+  async backfillConversations(): Promise<number> {
+    let threaded = 0;
+    let lastId = 0;
+
+    // Messages that can't be threaded stay unthreaded, so page by id rather
+    // than by whether a message still needs a conversation
+    while (true) {
+      const batch = await this.db
+        .select()
+        .from(messages)
+        .where(and(isNull(messages.conversationId), gt(messages.id, lastId)))
+        .orderBy(asc(messages.id))
+        .limit(CONVERSATION_BACKFILL_BATCH_SIZE);
+      if (batch.length === 0) {
+        return threaded;
+      }
+
+      for (const message of batch) {
+        lastId = message.id;
+        try {
+          await this.db.transaction((tx) => this.threadMessage(tx, message));
+          threaded++;
+        } catch (error) {
+          if (!(error instanceof ConversationError)) throw error;
+        }
+      }
+    }
+  }
+
+  // Add a saved message to its conversation, starting one if needed. The
+  // message becomes the latest, unread for its receiver unless already read,
+  // and brings the conversation back to archived inboxes unless muted.
+  private async threadMessage(tx: DatabaseTransaction, message: Message): Promise<Message> {
+    const sentAt = message.createdAt ?? new Date();
+    const { id: conversationId, sellerId } = await this.findOrStartConversation(tx, message, sentAt);
+    const receiver: ConversationRole = message.receiverId === sellerId ? "seller" : "buyer";
+    const receiverFields = participantFields[receiver];
+
+    // Messages can commit out of order, so only ever move the latest message forward
+    await tx
+      .update(conversations)
+      .set({
+        lastMessageId: sql`greatest(coalesce(${conversations.lastMessageId}, 0), ${message.id})`,
+        lastMessageAt: sql`greatest(${conversations.lastMessageAt}, ${sentAt.toISOString()}::timestamp)`,
+        buyerArchivedAt: sql`case when ${conversations.buyerMuted} then ${conversations.buyerArchivedAt} end`,
+        sellerArchivedAt: sql`case when ${conversations.sellerMuted} then ${conversations.sellerArchivedAt} end`,
+        ...toParticipantColumns(receiver, message.read
+          ? { lastReadMessageId: sql`greatest(coalesce(${conversations[receiverFields.lastReadMessageId]}, 0), ${message.id})` }
+          : { unreadCount: sql`${conversations[receiverFields.unreadCount]} + 1` }),
+      })
+      .where(eq(conversations.id, conversationId));
+
+    const result = await tx
+      .update(messages)
+      .set({ conversationId })
+      .where(eq(messages.id, message.id))
+      .returning();
+    return result[0];
+  }
+
+  async getConversationBetween(listingId: number, userId1: number, userId2: number): Promise<Conversation | undefined> {
+    const result = await this.db
+      .select()
+      .from(conversations)
+      .where(
+        and(
+          eq(conversations.listingId, listingId),
+          or(
+            and(eq(conversations.buyerId, userId1), eq(conversations.sellerId, userId2)),
+            and(eq(conversations.buyerId, userId2), eq(conversations.sellerId, userId1))
+          )
+        )
+      );
+    return result[0];
+  }
+
+  async getConversationMessages(conversationId: number, page: PageQuery = {}): Promise<Page<Message>> {
+    const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+    const cursor = page.cursor ? decodeCursor(page.cursor) : undefined;
+
+    const rows = await this.db
+      .select()
+      .from(messages)
+      .where(
+        and(
+          eq(messages.conversationId, conversationId),
+          cursor && afterNewestCursor(messages.createdAt, messages.id, cursor)
+        )
+      )
+      .orderBy(desc(truncatedCreatedAt(messages.createdAt)), desc(messages.id))
+      .limit(limit + 1);
+
+    return toPage(rows, limit, newestCursor);
+  }
+
+  async getConversationPartnerIds(userId: number, listingId: number): Promise<number[]> {
+    const partnerId = sql<number>`case when ${messages.senderId} = ${userId} then ${messages.receiverId} else ${messages.senderId} end`;
+    const result = await this.db
+      .selectDistinct({ partnerId })
+      .from(messages)
+      .where(
+        and(
+          eq(messages.listingId, listingId),
+          or(
+            eq(messages.senderId, userId),
+            eq(messages.receiverId, userId)
+          )
+        )
       );
-    }
-    
-    if (filter.status) {
-      result = result.filter(listing => 
-        listing.status === filter.status
+    return result
+      .map(row => row.partnerId)
+      .filter((partnerId): partnerId is number => partnerId !== null);
+  }
+
+  async createMessage(message: InsertMessage): Promise<Message> {
+    return this.db.transaction(async (tx) => {
+      const [savedMessage] = await tx
+        .insert(messages)
+        .values({ ...message, read: false })
+        .returning();
+      return this.threadMessage(tx, savedMessage);
+    });
+  }
+
+  async markConversationRead(conversationId: number, userId: number, upToMessageId: number): Promise<Conversation | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Lock the conversation first so the unread count below includes any
+      // message committed while waiting, rather than overwriting its increment
+      const [conversation] = await tx
+        .select()
+        .from(conversations)
+        .where(eq(conversations.id, conversationId))
+        .for("update");
+      const role = conversation && getConversationRole(conversation, userId);
+      if (!conversation || !role) {
+        return undefined;
+      }
+
+      const received = and(
+        eq(messages.conversationId, conversationId),
+        eq(messages.receiverId, userId),
+        eq(messages.read, false)
       );
-    }
-    
-    // Sort by createdAt descending
-    return result.sort((a, b) => 
-      (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0)
-    );
+      await tx
+        .update(messages)
+        .set({ read: true })
+        .where(and(received, lte(messages.id, upToMessageId)));
+
+      const fields = participantFields[role];
+      const result = await tx
+        .update(conversations)
+        .set(toParticipantColumns(role, {
+          unreadCount: sql`(select count(*) from ${messages} where ${received})`,
+          lastReadMessageId: sql`greatest(coalesce(${conversations[fields.lastReadMessageId]}, 0), least(${upToMessageId}, coalesce(${conversations.lastMessageId}, 0)))`,
+        }))
+        .where(eq(conversations.id, conversationId))
+        .returning();
+      return result[0];
+    });
   }
 
-  async getListingsByUserId(userId: number): Promise<Listing[]> {
+  async getUnreadMessages(receiverId: number, since?: Date | null): Promise<Message[]> {
+    const muted = sql`case when ${conversations.buyerId} = ${receiverId} then ${conversations.buyerMuted} else ${conversations.sellerMuted} end`;
+    return this.db
+      .select(getTableColumns(messages))
+      .from(messages)
+      .leftJoin(conversations, eq(conversations.id, messages.conversationId))
+      .where(
+        and(
+          eq(messages.receiverId, receiverId),
+          eq(messages.read, false),
+          since ? gt(messages.createdAt, since) : undefined,
+          sql`not coalesce(${muted}, false)`
+        )
+      )
+      .orderBy(asc(messages.createdAt), asc(messages.id));
+  }
+
+  async getUserIdsWithUnreadMessages(): Promise<number[]> {
+    const result = await this.db
+      .selectDistinct({ receiverId: messages.receiverId })
+      .from(messages)
+      .where(eq(messages.read, false));
+    return result
+      .map(row => row.receiverId)
+      .filter((receiverId): receiverId is number => receiverId !== null);
+  }
+
+  // Offer methods
+  async getOffer(id: number): Promise<Offer | undefined> {
+    const result = await this.db.select().from(offers).where(eq(offers.id, id));
+    return result[0];
+  }
+
+  async getOffersByConversation(listingId: number, buyerId: number): Promise<Offer[]> {
     return this.db
       .select()
-      .from(listings)
-      .where(eq(listings.userId, userId))
-      .orderBy(desc(listings.createdAt));
+      .from(offers)
+      .where(
+        and(
+          eq(offers.listingId, listingId),
+          eq(offers.buyerId, buyerId)
+        )
+      )
+      .orderBy(desc(offers.createdAt), desc(offers.id));
   }
 
-  async createListing(listing: InsertListing): Promise<Listing> {
+  async createOffer(offer: InsertOffer): Promise<Offer> {
     const result = await this.db
-      .insert(listings)
-      .values({
-        ...listing,
-        status: "active",
-        images: listing.images || [],
-      })
+      .insert(offers)
+      .values({ ...offer, status: "pending" })
       .returning();
     return result[0];
   }
 
-  async updateListing(id: number, updatedFields: Partial<Listing>): Promise<Listing | undefined> {
+  async updateOfferStatus(id: number, status: OfferStatus): Promise<Offer | undefined> {
     const result = await this.db
-      .update(listings)
-      .set(updatedFields)
-      .where(eq(listings.id, id))
+      .update(offers)
+      .set({ status })
+      .where(
+        and(
+          eq(offers.id, id),
+          eq(offers.status, "pending")
+        )
+      )
       .returning();
     return result[0];
   }
 
-  async deleteListing(id: number): Promise<boolean> {
-    const result = await this.db.delete(listings).where(eq(listings.id, id));
-    return result.count > 0;
+  async counterOffer(id: number, counter: InsertOffer): Promise<Offer | undefined> {
+    return this.db.transaction(async (tx) => {
+      const countered = await tx
+        .update(offers)
+        .set({ status: "countered" })
+        .where(
+          and(
+            eq(offers.id, id),
+            eq(offers.status, "pending")
+          )
+        )
+        .returning();
+
+      if (countered.length === 0) {
+        return undefined;
+      }
+
+      const result = await tx
+        .insert(offers)
+        .values({ ...counter, parentOfferId: id, status: "pending" })
+        .returning();
+      return result[0];
+    });
   }
 
-  // Favorite methods
-  async getFavorite(userId: number, listingId: number): Promise<Favorite | undefined> {
-    const result = await this.db
-      .select()
-      .from(favorites)
+  async acceptOffer(id: number): Promise<{ offer: Offer; listing: Listing } | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [offer] = await tx
+        .update(offers)
+        .set({ status: "accepted" })
+        .where(
+          and(
+            eq(offers.id, id),
+            eq(offers.status, "pending")
+          )
+        )
+        .returning();
+
+      if (!offer) {
+        return undefined;
+      }
+
+      // Only an active listing can move to pending; otherwise undo the acceptance
+      const [listing] = await tx
+        .update(listings)
+        .set({ status: "pending", updatedAt: new Date() })
+        .where(
+          and(
+            eq(listings.id, offer.listingId),
+            eq(listings.status, "active")
+          )
+        )
+        .returning(listingColumns);
+
+      if (!listing) {
+        tx.rollback();
+      }
+
+      return { offer, listing };
+    }).then((accepted) => {
+      if (accepted) {
+        listingEvents.emit("updated", { ...accepted.listing, status: "active" }, accepted.listing);
+      }
+      return accepted;
+    }).catch((error) => {
+      if (error instanceof TransactionRollbackError) {
+        return undefined;
+      }
+      throw error;
+    });
+  }
+
+  async expireOffers(now: Date = new Date()): Promise<Offer[]> {
+    return this.db
+      .update(offers)
+      .set({ status: "expired" })
       .where(
         and(
-          eq(favorites.userId, userId),
-          eq(favorites.listingId, listingId)
+          eq(offers.status, "pending"),
+          lte(offers.expiresAt, now)
         )
-      );
+      )
+      .returning();
+  }
+
+  // Meetup methods
+  async getMeetup(id: number): Promise<Meetup | undefined> {
+    const result = await this.db.select().from(meetups).where(eq(meetups.id, id));
     return result[0];
   }
 
-  async getFavoritesByUserId(userId: number): Promise<Favorite[]> {
+  async getMeetupsByConversation(conversationId: number): Promise<Meetup[]> {
     return this.db
       .select()
-      .from(favorites)
-      .where(eq(favorites.userId, userId))
-      .orderBy(desc(favorites.createdAt));
+      .from(meetups)
+      .where(eq(meetups.conversationId, conversationId))
+      .orderBy(desc(meetups.createdAt), desc(meetups.id));
   }
 
-  async createFavorite(favorite: InsertFavorite): Promise<Favorite> {
-    const result = await this.db.insert(favorites).values(favorite).returning();
+  async proposeMeetup(meetup: InsertMeetup): Promise<{ meetup: Meetup; message: Message } | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [conversation] = await tx
+        .select({ listingId: conversations.listingId })
+        .from(conversations)
+        .where(eq(conversations.id, meetup.conversationId));
+      if (!conversation) {
+        return undefined;
+      }
+
+      if (meetup.parentMeetupId) {
+        const countered = await tx
+          .update(meetups)
+          .set({ status: "countered" })
+          .where(
+            and(
+              eq(meetups.id, meetup.parentMeetupId),
+              eq(meetups.status, "pending")
+            )
+          )
+          .returning({ id: meetups.id });
+
+        if (countered.length === 0) {
+          return undefined;
+        }
+      }
+
+      const [savedMeetup] = await tx
+        .insert(meetups)
+        .values({ ...meetup, status: "pending" })
+        .returning();
+      const [savedMessage] = await tx
+        .insert(messages)
+        .values({
+          senderId: savedMeetup.proposerId,
+          receiverId: savedMeetup.recipientId,
+          listingId: conversation.listingId,
+          content: "",
+          kind: "meetup",
+          meetupId: savedMeetup.id,
+          read: false,
+        })
+        .returning();
+      return { meetup: savedMeetup, message: await this.threadMessage(tx, savedMessage) };
+    });
+  }
+
+  async updateMeetupStatus(id: number, status: MeetupStatus): Promise<Meetup | undefined> {
+    const from = meetupStatuses.filter(current => meetupStatusTransitions[current].includes(status));
+    if (from.length === 0) {
+      return undefined;
+    }
+
+    const result = await this.db
+      .update(meetups)
+      .set({ status })
+      .where(
+        and(
+          eq(meetups.id, id),
+          inArray(meetups.status, from)
+        )
+      )
+      .returning();
     return result[0];
   }
 
-  async deleteFavorite(userId: number, listingId: number): Promise<boolean> {
+  async getMeetupsDueForReminder(before: Date, now: Date = new Date()): Promise<Meetup[]> {
+    return this.db
+      .select()
+      .from(meetups)
+      .where(
+        and(
+          eq(meetups.status, "accepted"),
+          isNull(meetups.remindedAt),
+          gt(meetups.startsAt, now),
+          lte(meetups.startsAt, before)
+        )
+      )
+      .orderBy(asc(meetups.startsAt));
+  }
+
+  async markMeetupReminded(id: number): Promise<Meetup | undefined> {
     const result = await this.db
-      .delete(favorites)
+      .update(meetups)
+      .set({ remindedAt: new Date() })
       .where(
         and(
-          eq(favorites.userId, userId),
-          eq(favorites.listingId, listingId)
+          eq(meetups.id, id),
+          isNull(meetups.remindedAt)
         )
-      );
-    return result.count > 0;
+      )
+      .returning();
+    return result[0];
   }
 
-  // Message methods
-  async getMessage(id: number): Promise<Message | undefined> {
-    const result = await this.db.select().from(messages).where(eq(messages.id, id));
+  // Transaction methods
+  async completeSale(sale: InsertTransaction): Promise<CompletedSale | undefined> {
+    const completed = await this.db.transaction(async (tx) => {
+      const [before] = await tx
+        .select(listingColumns)
+        .from(listings)
+        .where(eq(listings.id, sale.listingId))
+        .for("update");
+
+      const [listing] = await tx
+        .update(listings)
+        .set({ status: "sold", updatedAt: new Date() })
+        .where(
+          and(
+            eq(listings.id, sale.listingId),
+            eq(listings.userId, sale.sellerId),
+            inArray(sql`coalesce(${listings.status}, 'active')`, statusesLeadingTo("sold").filter(status => status !== "sold"))
+          )
+        )
+        .returning(listingColumns);
+
+      if (!listing) {
+        return undefined;
+      }
+
+      const [transaction] = await tx.insert(transactions).values(sale).returning();
+      return { before, listing, transaction };
+    });
+
+    if (!completed) {
+      return undefined;
+    }
+    listingEvents.emit("updated", completed.before, completed.listing);
+    return { listing: completed.listing, transaction: completed.transaction };
+  }
+
+  async getTransaction(id: number): Promise<Transaction | undefined> {
+    const result = await this.db.select().from(transactions).where(eq(transactions.id, id));
     return result[0];
   }
 
-  async getMessagesByUserId(userId: number): Promise<Message[]> {
+  async getTransactionByListingId(listingId: number): Promise<Transaction | undefined> {
+    const result = await this.db.select().from(transactions).where(eq(transactions.listingId, listingId));
+    return result[0];
+  }
+
+  async getTransactionsByUserId(userId: number): Promise<Transaction[]> {
     return this.db
       .select()
-      .from(messages)
+      .from(transactions)
       .where(
         or(
-          eq(messages.senderId, userId),
-          eq(messages.receiverId, userId)
+          eq(transactions.sellerId, userId),
+          eq(transactions.buyerId, userId)
         )
       )
-      .orderBy(asc(messages.createdAt));
+      .orderBy(desc(transactions.completedAt), desc(transactions.id));
   }
 
-  async getMessagesBetweenUsers(userId1: number, userId2: number, listingId?: number): Promise<Message[]> {
-    // Get all messages first
-    const allMessages = await this.db.select().from(messages);
-    
-    // Filter in memory
-    let result = allMessages.filter(message => {
-      const userMatch = 
-        (message.senderId === userId1 && message.receiverId === userId2) ||
-        (message.senderId === userId2 && message.receiverId === userId1);
-        
-      if (listingId) {
-        return userMatch && message.listingId === listingId;
-      }
-      
-      return userMatch;
-    });
-    
-    // Sort by createdAt ascending
-    return result.sort((a, b) => 
-      (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0)
-    );
+  // Review methods
+  async createReview(review: InsertReview): Promise<Review | undefined> {
+    // The unique (transaction, reviewer) index turns a second review into a no-op
+    const result = await this.db
+      .insert(reviews)
+      .values(review)
+      .onConflictDoNothing()
+      .returning();
+    return result[0];
   }
 
-  async createMessage(message: InsertMessage): Promise<Message> {
+  async getReviewsByRevieweeId(userId: number): Promise<Review[]> {
+    return this.db
+      .select()
+      .from(reviews)
+      .where(eq(reviews.revieweeId, userId))
+      .orderBy(desc(reviews.createdAt), desc(reviews.id));
+  }
+
+  async getReviewedTransactionIds(reviewerId: number): Promise<number[]> {
+    const result = await this.db
+      .select({ transactionId: reviews.transactionId })
+      .from(reviews)
+      .where(eq(reviews.reviewerId, reviewerId));
+    return result.map(review => review.transactionId);
+  }
+
+  async getUserRating(userId: number): Promise<UserRating> {
+    const [result] = await this.db
+      .select({
+        average: sql<number | null>`${avg(reviews.rating)}::float8`,
+        count: count(),
+      })
+      .from(reviews)
+      .where(eq(reviews.revieweeId, userId));
+    return result;
+  }
+
+  // Saved search methods
+  async getSavedSearch(id: number): Promise<SavedSearch | undefined> {
+    const result = await this.db.select().from(savedSearches).where(eq(savedSearches.id, id));
+    return result[0];
+  }
+
+  async getSavedSearchesByUserId(userId: number): Promise<SavedSearch[]> {
+    return this.db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(desc(savedSearches.createdAt), desc(savedSearches.id));
+  }
+
+  async getSavedSearchesForListingType(type: string): Promise<SavedSearch[]> {
+    return this.db
+      .select()
+      .from(savedSearches)
+      .where(sql`coalesce(${savedSearches.filters}->>'type', ${type}) = ${type}`);
+  }
+
+  async getSavedSearchesWithEmailAlerts(): Promise<SavedSearch[]> {
+    return this.db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.emailAlerts, true))
+      .orderBy(asc(savedSearches.userId), asc(savedSearches.id));
+  }
+
+  async createSavedSearch(search: InsertSavedSearch): Promise<SavedSearch> {
+    const result = await this.db.insert(savedSearches).values(search).returning();
+    return result[0];
+  }
+
+  async updateSavedSearch(id: number, updatedFields: Partial<SavedSearch>): Promise<SavedSearch | undefined> {
+    const result = await this.db
+      .update(savedSearches)
+      .set(updatedFields)
+      .where(eq(savedSearches.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteSavedSearch(id: number): Promise<boolean> {
+    const result = await this.db.delete(savedSearches).where(eq(savedSearches.id, id));
+    return result.count > 0;
+  }
+
+  async createSavedSearchMatches(matches: { savedSearchId: number; listingId: number }[]): Promise<SavedSearchMatch[]> {
+    if (matches.length === 0) {
+      return [];
+    }
+
+    // The unique (search, listing) index skips matches that were already recorded
+    return this.db
+      .insert(savedSearchMatches)
+      .values(matches)
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  async getSavedSearchMatches(savedSearchId: number, since?: Date | null): Promise<SavedSearchMatch[]> {
+    return this.db
+      .select()
+      .from(savedSearchMatches)
+      .where(
+        and(
+          eq(savedSearchMatches.savedSearchId, savedSearchId),
+          since ? gt(savedSearchMatches.createdAt, since) : undefined
+        )
+      )
+      .orderBy(desc(savedSearchMatches.createdAt), desc(savedSearchMatches.id));
+  }
+
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const result = await this.db.select().from(notifications).where(eq(notifications.id, id));
+    return result[0];
+  }
+
+  async getNotificationsByUserId(userId: number, page: PageQuery = {}): Promise<Page<Notification>> {
+    const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+    const cursor = page.cursor ? decodeCursor(page.cursor) : undefined;
+    const rows = await this.db
+      .select()
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.userId, userId),
+          cursor && afterNewestCursor(notifications.createdAt, notifications.id, cursor)
+        )
+      )
+      .orderBy(desc(truncatedCreatedAt(notifications.createdAt)), desc(notifications.id))
+      .limit(limit + 1);
+
+    return toPage(rows, limit, newestCursor);
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const [result] = await this.db
+      .select({ count: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return result.count;
+  }
+
+  async getLatestNotification(userId: number, type: NotificationType, listingId: number): Promise<Notification | undefined> {
+    const result = await this.db
+      .select()
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.userId, userId),
+          eq(notifications.type, type),
+          eq(notifications.listingId, listingId)
+        )
+      )
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(1);
+    return result[0];
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const result = await this.db.insert(notifications).values(notification).returning();
+    return result[0];
+  }
+
+  async markNotificationRead(id: number): Promise<Notification | undefined> {
+    const [updated] = await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), isNull(notifications.readAt)))
+      .returning();
+    return updated ?? this.getNotification(id);
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const marked = await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return marked.length;
+  }
+
+  async queueNotificationEmail(id: number): Promise<void> {
+    await this.db
+      .update(notifications)
+      .set({ emailQueuedAt: new Date() })
+      .where(eq(notifications.id, id));
+  }
+
+  async getQueuedNotificationEmails(): Promise<Notification[]> {
+    return this.db
+      .select()
+      .from(notifications)
+      .where(isNotNull(notifications.emailQueuedAt))
+      .orderBy(asc(notifications.emailQueuedAt), asc(notifications.id));
+  }
+
+  async claimQueuedNotificationEmail(id: number): Promise<Notification | undefined> {
+    const [claimed] = await this.db
+      .update(notifications)
+      .set({ emailQueuedAt: null })
+      .where(and(eq(notifications.id, id), isNotNull(notifications.emailQueuedAt)))
+      .returning();
+    return claimed;
+  }
+
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined> {
+    const result = await this.db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return result[0];
+  }
+
+  async saveNotificationPreferences(userId: number, preferences: Partial<NotificationPreferences>): Promise<NotificationPreferences> {
+    const values = { ...preferences, updatedAt: new Date() };
     const result = await this.db
-      .insert(messages)
-      .values({ ...message, read: false })
+      .insert(notificationPreferences)
+      .values({ ...values, userId })
+      .onConflictDoUpdate({ target: notificationPreferences.userId, set: values })
       .returning();
     return result[0];
   }
 
-  async markMessageAsRead(id: number): Promise<Message | undefined> {
+  async getPushSubscriptionsByUserId(userId: number): Promise<PushSubscription[]> {
+    return this.db.select().from(pushSubscriptions).where(eq(pushSubscriptions.userId, userId));
+  }
+
+  async savePushSubscription(subscription: Omit<PushSubscription, "id" | "createdAt">): Promise<PushSubscription> {
     const result = await this.db
-      .update(messages)
-      .set({ read: true })
-      .where(eq(messages.id, id))
+      .insert(pushSubscriptions)
+      .values(subscription)
+      .onConflictDoUpdate({
+        target: pushSubscriptions.endpoint,
+        set: { userId: subscription.userId, p256dh: subscription.p256dh, auth: subscription.auth, createdAt: new Date() },
+      })
       .returning();
     return result[0];
   }
-}
 
-// Use database storage
-export const storage = new DatabaseStorage();
+  async deletePushSubscription(endpoint: string): Promise<boolean> {
+    const result = await this.db
+      .delete(pushSubscriptions)
+      .where(eq(pushSubscriptions.endpoint, endpoint))
+      .returning({ id: pushSubscriptions.id });
+    return result.length > 0;
+  }
+}
 
-// Use in-memory storage for development
-// export const storage = new MemStorage();
+// Use database storage, or in-memory storage when running the tests
+export const storage: IStorage = process.env.NODE_ENV === "test" ? new MemStorage() : new DatabaseStorage();
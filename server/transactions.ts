@@ -0,0 +1,178 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { ListingStatusError, storage } from "./storage";
+import { ownerListingStatuses } from "@shared/schema";
+
+const listingStatusSchema = z.object({
+  status: z.enum(ownerListingStatuses),
+});
+
+const saleSchema = z.object({
+  buyerId: z.coerce.number().int().positive(),
+  // Defaults to the buyer's accepted offer, or the listing price without one
+  price: z.coerce.number().int().nonnegative().optional(),
+});
+
+export function setupTransactionRoutes(app: Express) {
+  // Reserve, relist or withdraw one of the current user's listings
+  app.post("/api/listings/:id/status", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const { status } = listingStatusSchema.parse(req.body);
+      const listing = await storage.getListing(parseInt(req.params.id));
+
+      if (!listing) {
+        return res.status(404).json({ error: "Listing not found" });
+      }
+
+      if (listing.userId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to update this listing" });
+      }
+
+      // Drafts only go live through POST /api/listings/:id/publish, which validates them
+      if (listing.status === "draft") {
+        return res.status(400).json({ error: "Publish the draft to make it live" });
+      }
+
+      if (listing.status === "expired") {
+        return res.status(400).json({ error: "Renew the listing to make it live again" });
+      }
+
+      const updatedListing = await storage.updateListing(listing.id, { status });
+      res.json(updatedListing);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof ListingStatusError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error updating listing status:", error);
+      res.status(500).json({ error: "Failed to update listing status" });
+    }
+  });
+
+  // Users who have messaged the current user about one of their listings,
+  // i.e. the people it can be marked sold to
+  app.get("/api/listings/:id/buyers", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const listing = await storage.getListing(parseInt(req.params.id));
+
+      if (!listing) {
+        return res.status(404).json({ error: "Listing not found" });
+      }
+
+      if (listing.userId !== req.user.id) {
+        return res.status(403).json({ error: "Not authorized to view buyers for this listing" });
+      }
+
+      const partnerIds = await storage.getConversationPartnerIds(req.user.id, listing.id);
+      const buyers = [];
+      for (const partnerId of partnerIds) {
+        const buyer = await storage.getUser(partnerId);
+        if (buyer) {
+          buyers.push({ id: buyer.id, username: buyer.username });
+        }
+      }
+
+      res.json(buyers);
+    } catch (error) {
+      console.error("Error fetching buyers:", error);
+      res.status(500).json({ error: "Failed to fetch buyers" });
+    }
+  });
+
+  // Mark one of the current user's listings sold to a conversation partner
+  app.post("/api/listings/:id/sold", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const sellerId = req.user.id;
+      const { buyerId, price } = saleSchema.parse(req.body);
+      const listing = await storage.getListing(parseInt(req.params.id));
+
+      if (!listing) {
+        return res.status(404).json({ error: "Listing not found" });
+      }
+
+      if (listing.userId !== sellerId) {
+        return res.status(403).json({ error: "Not authorized to sell this listing" });
+      }
+
+      if (listing.status === "sold") {
+        return res.status(400).json({ error: "This listing has already been sold" });
+      }
+
+      const partnerIds = await storage.getConversationPartnerIds(sellerId, listing.id);
+      if (!partnerIds.includes(buyerId)) {
+        return res.status(400).json({ error: "Listings can only be sold to someone you have messaged about them" });
+      }
+
+      const offers = await storage.getOffersByConversation(listing.id, buyerId);
+      const acceptedOffer = offers.find((offer) => offer.status === "accepted");
+
+      const sale = await storage.completeSale({
+        listingId: listing.id,
+        sellerId,
+        buyerId,
+        price: price ?? acceptedOffer?.amount ?? listing.price,
+        offerId: acceptedOffer?.id ?? null,
+      });
+
+      if (!sale) {
+        return res.status(409).json({ error: "This listing can no longer be sold" });
+      }
+
+      res.status(201).json(sale);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error completing sale:", error);
+      res.status(500).json({ error: "Failed to mark listing as sold" });
+    }
+  });
+
+  // Completed sales and purchases of the current user, newest first
+  app.get("/api/transactions", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const userId = req.user.id;
+      const transactions = await storage.getTransactionsByUserId(userId);
+      const reviewedIds = await storage.getReviewedTransactionIds(userId);
+
+      const result = [];
+      for (const transaction of transactions) {
+        const listing = await storage.getListing(transaction.listingId);
+        const otherUser = await storage.getUser(
+          transaction.sellerId === userId ? transaction.buyerId : transaction.sellerId
+        );
+
+        result.push({
+          ...transaction,
+          role: transaction.sellerId === userId ? "seller" : "buyer",
+          reviewed: reviewedIds.includes(transaction.id),
+          listing: listing && { id: listing.id, title: listing.title, images: listing.images },
+          otherUser: otherUser && { id: otherUser.id, username: otherUser.username },
+        });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching transactions:", error);
+      res.status(500).json({ error: "Failed to fetch transactions" });
+    }
+  });
+}
@@ -0,0 +1,65 @@
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { getMeetupArea, seedUniversities } from "./universities";
+import { distanceOptions, type DistanceOption, type University, type User } from "@shared/schema";
+
+const KM_PER_DEGREE_LATITUDE = (6371 * Math.PI) / 180;
+const KM_PER_MILE = 1.609344;
+
+const bands = distanceOptions.filter((option): option is Exclude<DistanceOption, "any"> => option !== "any");
+
+let mit: University;
+let viewer: User;
+
+before(async () => {
+  await seedUniversities();
+  const origin = { latitude: 42.3591, longitude: -71.0947 };
+
+  // A school with spots on the band boundaries, due north of MIT's campus
+  await storage.upsertUniversities([{
+    name: "Boundary Test College",
+    domains: ["boundary.test"],
+    campusLocations: [{ name: "Quad", latitude: origin.latitude + (4 * KM_PER_MILE) / KM_PER_DEGREE_LATITUDE, longitude: origin.longitude }],
+    meetupSpots: [1, 3, 5].map(miles => ({
+      id: `boundary-${miles}`,
+      name: `${miles} miles north`,
+      kind: "library" as const,
+      latitude: origin.latitude + (miles * KM_PER_MILE) / KM_PER_DEGREE_LATITUDE,
+      longitude: origin.longitude,
+    })),
+    timezone: "America/New_York",
+  }]);
+
+  mit = (await storage.getUniversityByDomain("mit.edu"))!;
+  viewer = { id: 1, universityId: mit.id } as User;
+});
+
+test("getMeetupArea is unrestricted for any distance or viewers without a campus", async () => {
+  assert.equal(await getMeetupArea(viewer, "any"), undefined);
+  assert.equal(await getMeetupArea(undefined, "less_than_1"), undefined);
+  assert.equal(await getMeetupArea({ ...viewer, universityId: null }, "less_than_1"), undefined);
+});
+
+test("getMeetupArea puts the viewer's own campus and spots in the nearest band", async () => {
+  const area = (await getMeetupArea(viewer, "less_than_1"))!;
+  assert.ok(area.universityIds.includes(mit.id));
+  for (const spot of mit.meetupSpots) {
+    assert.ok(area.meetupSpotIds.includes(spot.id), spot.id);
+  }
+});
+
+test("getMeetupArea bands don't overlap, even on their boundaries", async () => {
+  const seen = new Map<string, string>();
+  for (const band of bands) {
+    const area = (await getMeetupArea(viewer, band))!;
+    for (const id of area.meetupSpotIds) {
+      assert.equal(seen.get(id), undefined, `${id} is in both ${seen.get(id)} and ${band}`);
+      seen.set(id, band);
+    }
+  }
+  // Floating point puts a boundary spot a hair to either side, but it always
+  // lands in exactly one band
+  assert.ok(seen.has("boundary-1"));
+  assert.ok(seen.has("boundary-3"));
+});
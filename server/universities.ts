@@ -0,0 +1,183 @@
+import type { Express } from "express";
+import { storage, type MeetupArea } from "./storage";
+import { universitySeed } from "./data/universities";
+import {
+  distanceRangesMiles,
+  getEmailDomainCandidates,
+  type CampusLocation,
+  type CampusScope,
+  type DistanceOption,
+  type Listing,
+  type MeetupSpot,
+  type University,
+  type User,
+} from "@shared/schema";
+
+// Schools whose campuses are within this distance count as nearby
+const NEARBY_CAMPUS_RADIUS_KM = 50;
+
+const EARTH_RADIUS_KM = 6371;
+
+const KM_PER_MILE = 1.609344;
+
+// Great-circle distance between two points
+export function distanceKm(a: Pick<CampusLocation, "latitude" | "longitude">, b: Pick<CampusLocation, "latitude" | "longitude">): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+// Whether any campus location of one school is within the nearby radius of the other's
+function isNearby(a: University, b: University): boolean {
+  return a.campusLocations.some(from =>
+    b.campusLocations.some(to => distanceKm(from, to) <= NEARBY_CAMPUS_RADIUS_KM)
+  );
+}
+
+// Load the bundled university directory into storage
+export async function seedUniversities() {
+  try {
+    await storage.upsertUniversities(universitySeed);
+  } catch (error) {
+    console.error("Failed to seed universities:", error);
+  }
+}
+
+// Find the university an email address belongs to, so "a@cs.stanford.edu"
+// resolves through its parent domain stanford.edu
+export async function resolveUniversityByEmail(email: string): Promise<University | undefined> {
+  for (const domain of getEmailDomainCandidates(email)) {
+    const university = await storage.getUniversityByDomain(domain);
+    if (university) {
+      return university;
+    }
+  }
+  return undefined;
+}
+
+// Fill in the university of users who signed up before universities were
+// tracked, from their email domain, and then of their listings. Returns how
+// many users and listings were updated.
+export async function backfillUniversities(): Promise<{ users: number; listings: number }> {
+  let updatedUsers = 0;
+  for (const user of await storage.getUsersWithoutUniversity()) {
+    const university = await resolveUniversityByEmail(user.email);
+    if (university) {
+      await storage.updateUser(user.id, { universityId: university.id });
+      updatedUsers++;
+    }
+  }
+  return { users: updatedUsers, listings: await storage.backfillListingUniversities() };
+}
+
+// Universities whose listings a campus scope covers for the viewer. Undefined
+// means every school: for the "all" scope, anonymous viewers and users without
+// a university on file.
+export async function getCampusUniversityIds(
+  viewer: User | undefined,
+  scope: CampusScope = "mine"
+): Promise<number[] | undefined> {
+  if (scope === "all" || !viewer?.universityId) {
+    return undefined;
+  }
+
+  if (scope === "mine") {
+    return [viewer.universityId];
+  }
+
+  const home = await storage.getUniversity(viewer.universityId);
+  if (!home) {
+    return [viewer.universityId];
+  }
+
+  const universities = await storage.getUniversities();
+  return universities
+    .filter(university => university.id === home.id || isNearby(home, university))
+    .map(university => university.id);
+}
+
+// Whether a user may message or make offers about a listing from another school.
+// Both schools have to allow cross-campus messaging.
+export async function isCrossCampusMessagingAllowed(sender: User, listing: Listing): Promise<boolean> {
+  if (!sender.universityId || !listing.universityId || sender.universityId === listing.universityId) {
+    return true;
+  }
+
+  const senderUniversity = await storage.getUniversity(sender.universityId);
+  const listingUniversity = await storage.getUniversity(listing.universityId);
+  return (senderUniversity?.allowCrossCampusMessaging ?? true) &&
+    (listingUniversity?.allowCrossCampusMessaging ?? true);
+}
+
+// The safe meetup spots curated for a university
+export async function getMeetupSpots(universityId: number | null): Promise<MeetupSpot[]> {
+  const university = universityId ? await storage.getUniversity(universityId) : undefined;
+  return university?.meetupSpots ?? [];
+}
+
+// The spots a seller picked for a listing, in the order they picked them
+export async function getListingMeetupSpots(listing: Pick<Listing, "universityId" | "meetupSpotIds">): Promise<MeetupSpot[]> {
+  const spots = await getMeetupSpots(listing.universityId);
+  return listing.meetupSpotIds.flatMap(id => spots.filter(spot => spot.id === id));
+}
+
+// Whether every spot id is one of the university's meetup spots
+export async function areUniversityMeetupSpots(universityId: number | null, spotIds: string[]): Promise<boolean> {
+  const spots = await getMeetupSpots(universityId);
+  return spotIds.every(id => spots.some(spot => spot.id === id));
+}
+
+// Error returned when a listing names spots that aren't the seller's school's
+export const INVALID_MEETUP_SPOTS_ERROR = "Meetup spots must be from your university's list";
+
+// The meetup spots, and the schools for listings without spots, within a
+// distance band of the viewer's campus. Undefined means any distance: for
+// "any", anonymous viewers and users whose school has no campus location.
+export async function getMeetupArea(
+  viewer: User | undefined,
+  distance: DistanceOption = "any"
+): Promise<MeetupArea | undefined> {
+  if (distance === "any" || !viewer?.universityId) {
+    return undefined;
+  }
+
+  const home = await storage.getUniversity(viewer.universityId);
+  const origin = home?.campusLocations[0];
+  if (!origin) {
+    return undefined;
+  }
+
+  const [minMiles, maxMiles] = distanceRangesMiles[distance];
+  const inRange = (point: Pick<CampusLocation, "latitude" | "longitude">) => {
+    const miles = distanceKm(origin, point) / KM_PER_MILE;
+    return miles >= minMiles && miles < maxMiles;
+  };
+
+  const area: MeetupArea = { meetupSpotIds: [], universityIds: [] };
+  for (const university of await storage.getUniversities()) {
+    area.meetupSpotIds.push(...university.meetupSpots.filter(inRange).map(spot => spot.id));
+    if (university.campusLocations.some(inRange)) {
+      area.universityIds.push(university.id);
+    }
+  }
+  return area;
+}
+
+// Error returned when cross-campus messaging is blocked
+export const CROSS_CAMPUS_MESSAGING_ERROR = "Messaging students from other schools is turned off for this campus";
+
+export function setupUniversityRoutes(app: Express) {
+  // List supported universities and their email domains
+  app.get("/api/universities", async (_req, res) => {
+    try {
+      const universities = await storage.getUniversities();
+      res.json(universities);
+    } catch (error) {
+      console.error("Error fetching universities:", error);
+      res.status(500).json({ error: "Failed to fetch universities" });
+    }
+  });
+}
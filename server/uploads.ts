@@ -0,0 +1,380 @@
+import type { Express, Request, Response } from "express";
+import { randomUUID } from "crypto";
+import path from "path";
+import multer from "multer";
+import { storage } from "./storage";
+import { getBlobStore } from "./blob-store";
+import { processImage } from "./images";
+import { isVerifiedUser, VERIFICATION_REQUIRED_ERROR } from "./verification";
+import {
+  getConversationRole,
+  getUploadUrl,
+  getUploadVariantUrl,
+  imageVariants,
+  MAX_LISTING_IMAGES,
+  MAX_UPLOAD_SIZE,
+  parseUploadUrl,
+  type ImageVariant,
+  type Listing,
+  type ListingImage,
+  type ListingWithImages,
+  type Upload,
+  type UploadVariant,
+} from "@shared/schema";
+
+// Thrown when file contents are not one of uploadImageTypes
+export class UnsupportedUploadError extends Error {
+  constructor() {
+    super("Only JPEG, PNG, WebP and GIF images can be uploaded");
+    this.name = "UnsupportedUploadError";
+  }
+}
+
+// Detect an image type from its leading magic bytes
+export function sniffImageType(data: Buffer): string | undefined {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (data.length >= 6 && ["GIF87a", "GIF89a"].includes(data.toString("latin1", 0, 6))) {
+    return "image/gif";
+  }
+  if (data.length >= 12 && data.toString("latin1", 0, 4) === "RIFF" && data.toString("latin1", 8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  return undefined;
+}
+
+// Detect a chat attachment's type: one of the image types, or a PDF
+export function sniffAttachmentType(data: Buffer): string | undefined {
+  if (data.length >= 5 && data.toString("latin1", 0, 5) === "%PDF-") {
+    return "application/pdf";
+  }
+  return sniffImageType(data);
+}
+
+// Process an image and write the full-size copy and its variants to the blob
+// store, returning the upload fields describing them
+async function saveImage(userId: number, data: Buffer) {
+  if (!sniffImageType(data)) {
+    throw new UnsupportedUploadError();
+  }
+
+  let image;
+  try {
+    image = await processImage(data);
+  } catch {
+    // The header looked like an image but the contents couldn't be decoded
+    throw new UnsupportedUploadError();
+  }
+
+  const blobStore = getBlobStore();
+  const baseKey = `${userId}/${randomUUID()}`;
+  const key = `${baseKey}.webp`;
+  await blobStore.put(key, image.data, "image/webp");
+
+  const variants: UploadVariant[] = [];
+  for (const variant of image.variants) {
+    const variantKey = `${baseKey}-${variant.name}.webp`;
+    await blobStore.put(variantKey, variant.data, "image/webp");
+    variants.push({ name: variant.name, key: variantKey, width: variant.width, height: variant.height });
+  }
+
+  return {
+    key,
+    contentType: "image/webp",
+    size: image.data.length,
+    width: image.width,
+    height: image.height,
+    blurhash: image.blurhash,
+    variants,
+  };
+}
+
+// Save an image to the blob store and record it as the user's upload
+export async function storeUpload(userId: number, data: Buffer): Promise<Upload> {
+  return storage.createUpload({ userId, ...await saveImage(userId, data) });
+}
+
+// Save a file sent in a conversation. Images are processed like listing
+// images; PDFs are stored as they are.
+export async function storeAttachment(
+  userId: number,
+  conversationId: number,
+  file: { buffer: Buffer; originalname: string }
+): Promise<Upload> {
+  const contentType = sniffAttachmentType(file.buffer);
+  // Keep only the base name; browsers may send a path
+  const name = path.basename(file.originalname).trim().slice(0, 200);
+
+  if (contentType === "application/pdf") {
+    const key = `${userId}/${randomUUID()}.pdf`;
+    await getBlobStore().put(key, file.buffer, contentType);
+    return storage.createUpload({
+      userId,
+      conversationId,
+      key,
+      contentType,
+      size: file.buffer.length,
+      variants: [],
+      name: name || "document.pdf",
+    });
+  }
+
+  return storage.createUpload({
+    userId,
+    conversationId,
+    ...await saveImage(userId, file.buffer),
+    name: name || "photo",
+  });
+}
+
+// Process uploads stored as-is before image processing existed, replacing the
+// original file, EXIF metadata and all, with the processed copies
+export async function processExistingUploads(): Promise<number> {
+  const blobStore = getBlobStore();
+  let processed = 0;
+
+  for (const upload of await storage.getUnprocessedUploads()) {
+    const data = await blobStore.get(upload.key);
+    if (!data) {
+      continue;
+    }
+
+    try {
+      await storage.updateUpload(upload.id, await saveImage(upload.userId, data));
+      await blobStore.delete(upload.key);
+      processed++;
+    } catch (error) {
+      console.error(`Skipping upload ${upload.id}:`, error);
+    }
+  }
+
+  return processed;
+}
+
+function toListingImage(upload: Upload): ListingImage {
+  return {
+    url: getUploadUrl(upload.id),
+    width: upload.width,
+    height: upload.height,
+    blurhash: upload.blurhash,
+    variants: upload.variants.map(variant => ({
+      name: variant.name,
+      url: getUploadVariantUrl(upload.id, variant.name),
+      width: variant.width,
+    })),
+  };
+}
+
+// Attach the upload details of each listing's images so clients can pick a
+// variant with srcset and show a placeholder while it loads
+export async function withImageDetails<T extends Listing>(listings: T[]): Promise<(T & ListingWithImages)[]> {
+  const ids = listings.flatMap(listing =>
+    (listing.images ?? []).map(parseUploadUrl).filter((id): id is number => id !== undefined)
+  );
+  const uploads = new Map((await storage.getUploads(Array.from(new Set(ids)))).map(upload => [upload.id, upload]));
+
+  return listings.map(listing => ({
+    ...listing,
+    imageDetails: (listing.images ?? []).map((url): ListingImage => {
+      const id = parseUploadUrl(url);
+      const upload = id === undefined ? undefined : uploads.get(id);
+      // Images that aren't uploads load as plain URLs
+      return upload ? toListingImage(upload) : { url, width: null, height: null, blurhash: null, variants: [] };
+    }),
+  }));
+}
+
+// Whether every image URL refers to an upload made by the user
+export async function ownsUploads(userId: number, images: string[]): Promise<boolean> {
+  for (const image of images) {
+    const id = parseUploadUrl(image);
+    const upload = id === undefined ? undefined : await storage.getUpload(id);
+    if (!upload || upload.userId !== userId) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function toUploadResponse(upload: Upload) {
+  return {
+    ...toListingImage(upload),
+    id: upload.id,
+    contentType: upload.contentType,
+    size: upload.size,
+  };
+}
+
+// Whether the request may fetch an upload. Chat attachments are only served
+// to the conversation's participants.
+async function canFetchUpload(req: Request, upload: Upload): Promise<boolean> {
+  if (upload.conversationId === null) {
+    return true;
+  }
+  if (!req.isAuthenticated()) {
+    return false;
+  }
+
+  const conversation = await storage.getConversation(upload.conversationId);
+  return !!conversation && getConversationRole(conversation, req.user.id) !== null;
+}
+
+// Send an upload's blob with headers for long-lived caching
+async function sendBlob(res: Response, upload: Upload, key: string, contentType: string) {
+  const data = await getBlobStore().get(key);
+  if (!data) {
+    return res.status(404).json({ error: "Upload not found" });
+  }
+
+  // Uploads never change, so browsers can cache them indefinitely. Shared
+  // caches mustn't keep chat attachments.
+  res.set({
+    "Content-Type": contentType,
+    "Cache-Control": `${upload.conversationId === null ? "public" : "private"}, max-age=31536000, immutable`,
+    "X-Content-Type-Options": "nosniff",
+  });
+  // Anything but an image is downloaded rather than opened in the browser
+  if (!contentType.startsWith("image/")) {
+    res.attachment(upload.name ?? undefined);
+  }
+  res.send(data);
+}
+
+// Move base64 data URL images stored on listings into the blob store, replacing
+// them with upload URLs. Safe to run repeatedly; migrated listings are skipped.
+export async function migrateInlineImages(): Promise<{ listings: number; images: number }> {
+  const result = { listings: 0, images: 0 };
+
+  for (const listing of await storage.getListingsWithInlineImages()) {
+    if (!listing.userId) {
+      continue;
+    }
+
+    const images: string[] = [];
+    for (const image of listing.images ?? []) {
+      const match = /^data:[^;,]*;base64,([\s\S]*)$/.exec(image);
+      if (!match) {
+        images.push(image);
+        continue;
+      }
+
+      try {
+        const upload = await storeUpload(listing.userId, Buffer.from(match[1], "base64"));
+        images.push(getUploadUrl(upload.id));
+        result.images++;
+      } catch (error) {
+        // Drop images that aren't a supported type rather than keep inline data
+        console.error(`Skipping image on listing ${listing.id}:`, error);
+      }
+    }
+
+    await storage.updateListing(listing.id, { images });
+    result.listings++;
+  }
+
+  return result;
+}
+
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_UPLOAD_SIZE,
+    files: MAX_LISTING_IMAGES,
+  },
+});
+
+// Parse a multipart body with up to MAX_LISTING_IMAGES files in the "images" field
+function parseImages(req: Request, res: Response): Promise<Express.Multer.File[]> {
+  return new Promise((resolve, reject) => {
+    imageUpload.array("images", MAX_LISTING_IMAGES)(req, res, (error?: unknown) => {
+      if (error) reject(error);
+      else resolve((req.files as Express.Multer.File[] | undefined) ?? []);
+    });
+  });
+}
+
+export function setupUploadRoutes(app: Express) {
+  // Upload listing images as multipart/form-data
+  app.post("/api/uploads", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      if (!isVerifiedUser(req.user)) {
+        return res.status(403).json({ error: VERIFICATION_REQUIRED_ERROR });
+      }
+
+      const files = await parseImages(req, res);
+      if (files.length === 0) {
+        return res.status(400).json({ error: "No images were uploaded" });
+      }
+
+      // Reject the whole batch before storing anything if one file isn't an image
+      if (files.some(file => !sniffImageType(file.buffer))) {
+        return res.status(415).json({ error: new UnsupportedUploadError().message });
+      }
+
+      const uploads: Upload[] = [];
+      for (const file of files) {
+        uploads.push(await storeUpload(req.user.id, file.buffer));
+      }
+
+      res.status(201).json(uploads.map(toUploadResponse));
+    } catch (error) {
+      if (error instanceof multer.MulterError) {
+        if (error.code === "LIMIT_FILE_SIZE") {
+          return res.status(413).json({ error: `Images must be ${MAX_UPLOAD_SIZE / (1024 * 1024)}MB or smaller` });
+        }
+        if (error.code === "LIMIT_FILE_COUNT" || error.code === "LIMIT_UNEXPECTED_FILE") {
+          return res.status(400).json({ error: `You can upload up to ${MAX_LISTING_IMAGES} images at a time` });
+        }
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error uploading images:", error);
+      res.status(500).json({ error: "Failed to upload images" });
+    }
+  });
+
+  // Serve an uploaded file
+  app.get("/api/uploads/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const upload = isNaN(id) ? undefined : await storage.getUpload(id);
+      if (!upload || !(await canFetchUpload(req, upload))) {
+        return res.status(404).json({ error: "Upload not found" });
+      }
+
+      await sendBlob(res, upload, upload.key, upload.contentType);
+    } catch (error) {
+      console.error("Error fetching upload:", error);
+      res.status(500).json({ error: "Failed to fetch upload" });
+    }
+  });
+
+  // Serve a resized variant of an uploaded image
+  app.get("/api/uploads/:id/:variant", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const upload = isNaN(id) ? undefined : await storage.getUpload(id);
+      if (!upload || !imageVariants.includes(req.params.variant as ImageVariant) || !(await canFetchUpload(req, upload))) {
+        return res.status(404).json({ error: "Upload not found" });
+      }
+
+      // Uploads stored before processing existed only have the original
+      const variant = upload.variants.find(variant => variant.name === req.params.variant);
+      if (!variant) {
+        return res.redirect(getUploadUrl(upload.id));
+      }
+
+      await sendBlob(res, upload, variant.key, "image/webp");
+    } catch (error) {
+      console.error("Error fetching upload:", error);
+      res.status(500).json({ error: "Failed to fetch upload" });
+    }
+  });
+}
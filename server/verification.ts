@@ -0,0 +1,144 @@
+import type { Express } from "express";
+import { createHmac, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { escapeHtml, getAppUrl, sendMail } from "./mail";
+import type { User } from "@shared/schema";
+
+// How long a verification link stays valid
+const TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Minimum time between verification emails to the same user
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+// Error returned when an unverified user tries a gated action
+export const VERIFICATION_REQUIRED_ERROR = "Please verify your university email address first";
+
+const tokenPayloadSchema = z.object({
+  userId: z.number().int(),
+  email: z.string(),
+  exp: z.number(),
+});
+
+type TokenPayload = z.infer<typeof tokenPayloadSchema>;
+
+function getTokenSecret() {
+  return process.env.EMAIL_TOKEN_SECRET || process.env.SESSION_SECRET || "college-furniture-marketplace-secret";
+}
+
+function sign(payload: string) {
+  return createHmac("sha256", getTokenSecret()).update(payload).digest("base64url");
+}
+
+// Tokens are a base64url JSON payload and its HMAC, so no token table is needed.
+// The email is part of the payload so a link stops working if the email changes.
+export function createVerificationToken(user: Pick<User, "id" | "email">, now: number = Date.now()): string {
+  const payload: TokenPayload = { userId: user.id, email: user.email, exp: now + TOKEN_TTL_MS };
+  const encoded = Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+  return `${encoded}.${sign(encoded)}`;
+}
+
+// Returns the payload of a correctly signed token, expired or not; null otherwise
+export function readVerificationToken(token: string): TokenPayload | null {
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const result = tokenPayloadSchema.safeParse(JSON.parse(Buffer.from(encoded, "base64url").toString("utf8")));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Whether a user may create listings and send messages; gating can be turned
+// off with REQUIRE_EMAIL_VERIFICATION=false
+export function isVerifiedUser(user: Pick<User, "verified">): boolean {
+  return process.env.REQUIRE_EMAIL_VERIFICATION === "false" || !!user.verified;
+}
+
+export async function sendVerificationEmail(user: User): Promise<void> {
+  const link = `${getAppUrl()}/verify-email?token=${encodeURIComponent(createVerificationToken(user))}`;
+
+  await sendMail({
+    to: user.email,
+    subject: "Verify your Student Swap email address",
+    text: `Hi ${user.username},\n\nConfirm your university email address to start buying and selling:\n\n${link}\n\nThis link expires in 24 hours.`,
+    html: `<p>Hi ${escapeHtml(user.username)},</p><p>Confirm your university email address to start buying and selling:</p><p><a href="${escapeHtml(link)}">Verify my email</a></p><p>This link expires in 24 hours.</p>`,
+  });
+
+  await storage.updateUser(user.id, { verificationSentAt: new Date() });
+}
+
+export function setupVerificationRoutes(app: Express) {
+  // Verify the email address a token was issued for
+  app.get("/api/verify-email", async (req, res) => {
+    try {
+      const token = typeof req.query.token === "string" ? req.query.token : "";
+      const payload = readVerificationToken(token);
+      const user = payload && await storage.getUser(payload.userId);
+
+      if (!payload || !user || user.email !== payload.email) {
+        return res.status(400).json({ error: "Invalid verification link" });
+      }
+
+      if (user.verified) {
+        const { password, ...safeUser } = user;
+        return res.json(safeUser);
+      }
+
+      if (payload.exp < Date.now()) {
+        return res.status(400).json({ error: "This verification link has expired. Please request a new one." });
+      }
+
+      const verifiedUser = await storage.updateUser(user.id, { verified: true });
+      const { password, ...safeUser } = verifiedUser ?? user;
+      res.json(safeUser);
+    } catch (error) {
+      console.error("Error verifying email:", error);
+      res.status(500).json({ error: "Failed to verify email" });
+    }
+  });
+
+  // Send the current user a new verification email
+  app.post("/api/resend-verification", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = await storage.getUser(req.user.id);
+
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      if (user.verified) {
+        return res.status(400).json({ error: "Your email address is already verified" });
+      }
+
+      const waitMs = user.verificationSentAt
+        ? user.verificationSentAt.getTime() + RESEND_COOLDOWN_MS - Date.now()
+        : 0;
+      if (waitMs > 0) {
+        const retryAfter = Math.ceil(waitMs / 1000);
+        res.set("Retry-After", retryAfter.toString());
+        return res.status(429).json({ error: `Please wait ${retryAfter} seconds before requesting another email` });
+      }
+
+      await sendVerificationEmail(user);
+      res.json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error("Error resending verification email:", error);
+      res.status(500).json({ error: "Failed to send verification email" });
+    }
+  });
+}
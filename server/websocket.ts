@@ -1,9 +1,16 @@
-import { Server } from 'http';
+import { IncomingMessage, Server } from 'http';
+import type { Request, RequestHandler, Response } from 'express';
 import { WebSocketServer as WSServer, WebSocket } from 'ws';
 import * as ws from 'ws';
+import { z } from 'zod';
 import { log } from './vite';
-import { storage } from './storage';
-import { Message } from '@shared/schema';
+import { storage, ConversationError } from './storage';
+import { getConversationRole, messageAttachmentIdsSchema, type Conversation, type Message, type ReadReceipt } from '@shared/schema';
+import { isVerifiedUser, VERIFICATION_REQUIRED_ERROR } from './verification';
+import { CROSS_CAMPUS_MESSAGING_ERROR, isCrossCampusMessagingAllowed } from './universities';
+import { notifyNewMessage } from './notifications';
+import { AttachmentError, withAttachments } from './attachments';
+import { sendPushToUser, toPushPayload } from './push';
 
 // Message types for our WebSocket protocol
 export enum MessageType {
@@ -14,11 +21,17 @@ export enum MessageType {
   USER_OFFLINE = 'user_offline',
   TYPING = 'typing',
   STOPPED_TYPING = 'stopped_typing',
+  OFFER = 'offer',
+  MEETUP = 'meetup',
+  LISTING_EXPIRED = 'listing_expired',
+  SAVED_SEARCH_MATCH = 'saved_search_match',
+  FAVORITE_ALERT = 'favorite_alert',
+  NOTIFICATION = 'notification',
   ERROR = 'error'
 }
 
 // Interface for WebSocket message format
-interface WebSocketMessage {
+export interface WebSocketMessage {
   type: MessageType;
   payload: any;
 }
@@ -26,18 +39,42 @@ interface WebSocketMessage {
 // For tracking active connections
 interface Connection {
   userId: number;
+  sessionId: string;
   socket: any; // WebSocket instance
   isAlive: boolean;
 }
 
+// Upgrade request after the session middleware has run on it
+interface UpgradeRequest extends IncomingMessage {
+  sessionID?: string;
+  session?: { passport?: { user?: number } };
+  userId?: number;
+}
+
 export class WebSocketServer {
   private wss: WSServer;
-  private connections: Map<number, Connection> = new Map();
+  // Every open socket per user, one for each tab or device
+  private connections: Map<number, Set<Connection>> = new Map();
   
-  constructor(server: Server) {
+  constructor(server: Server, private sessionParser: RequestHandler) {
     this.wss = new WSServer({ 
       server, 
-      path: '/ws' // Set a specific path to avoid conflicts with Vite's WebSocket
+      path: '/ws', // Set a specific path to avoid conflicts with Vite's WebSocket
+      // Only accept upgrades that carry a logged-in session cookie
+      verifyClient: (info, done) => {
+        this.authenticateUpgrade(info.req as UpgradeRequest)
+          .then((authenticated) => {
+            if (!authenticated) {
+              log('Rejected unauthenticated WebSocket upgrade', 'websocket');
+              return done(false, 401, 'Unauthorized');
+            }
+            done(true);
+          })
+          .catch((error) => {
+            log(`Error authenticating WebSocket upgrade: ${error}`, 'websocket');
+            done(false, 500, 'Internal Server Error');
+          });
+      }
     });
     this.init();
     log('WebSocket server initialized on path: /ws', 'websocket');
@@ -47,40 +84,33 @@ export class WebSocketServer {
     this.wss.on('connection', (socket, request) => {
       log('New WebSocket connection', 'websocket');
       
-      // Set a timeout for authentication
-      const authTimeout = setTimeout(() => {
-        socket.close(1008, 'Authentication timeout');
-      }, 10000); // 10 seconds to authenticate
-      
-      // Parse userId from query params
-      const userId = this.getUserIdFromRequest(request);
-      if (!userId) {
-        log('Authentication failed - no userId', 'websocket');
+      // Set by authenticateUpgrade before the connection was accepted
+      const { userId, sessionID } = request as UpgradeRequest;
+      if (!userId || !sessionID) {
         socket.close(1008, 'Authentication required');
-        clearTimeout(authTimeout);
         return;
       }
       
       // Store connection
-      this.connections.set(userId, {
+      const connection: Connection = {
         userId,
+        sessionId: sessionID,
         socket,
         isAlive: true
-      });
-      
-      // Clear authentication timeout
-      clearTimeout(authTimeout);
+      };
+      const userConnections = this.connections.get(userId) ?? new Set<Connection>();
+      userConnections.add(connection);
+      this.connections.set(userId, userConnections);
       
       // Setup ping/pong for connection health check
       socket.on('pong', () => {
-        const connection = this.connections.get(userId);
-        if (connection) {
-          connection.isAlive = true;
-        }
+        connection.isAlive = true;
       });
       
-      // Broadcast user online
-      this.broadcastUserStatus(userId, true);
+      // Broadcast user online when their first socket opens
+      if (userConnections.size === 1) {
+        this.broadcastUserStatus(userId, true);
+      }
       
       // Handle incoming messages
       socket.on('message', (data) => {
@@ -96,8 +126,13 @@ export class WebSocketServer {
       // Handle disconnection
       socket.on('close', () => {
         log(`User ${userId} disconnected`, 'websocket');
-        this.connections.delete(userId);
-        this.broadcastUserStatus(userId, false);
+        // The user is only offline once their last socket has closed
+        const remaining = this.connections.get(userId);
+        remaining?.delete(connection);
+        if (remaining?.size === 0) {
+          this.connections.delete(userId);
+          this.broadcastUserStatus(userId, false);
+        }
       });
     });
     
@@ -114,20 +149,24 @@ export class WebSocketServer {
     }, 30000); // Check every 30 seconds
   }
   
-  private getUserIdFromRequest(request: any): number | null {
-    try {
-      const url = new URL(request.url || '', `http://${request.headers.host}`);
-      const userId = url.searchParams.get('userId');
-      if (!userId) return null;
-      
-      const parsedId = parseInt(userId);
-      if (isNaN(parsedId)) return null;
-      
-      return parsedId;
-    } catch (error) {
-      log(`Error parsing userId: ${error}`, 'websocket');
-      return null;
-    }
+  // Load the Express session from the upgrade request's cookie and resolve
+  // the logged-in user, recording it on the request for the connection handler
+  private async authenticateUpgrade(request: UpgradeRequest): Promise<boolean> {
+    await new Promise<void>((resolve, reject) => {
+      this.sessionParser(request as Request, {} as Response, (error?: unknown) => {
+        if (error) reject(error);
+        else resolve();
+      });
+    });
+    
+    const userId = request.session?.passport?.user;
+    if (!userId) return false;
+    
+    const user = await storage.getUser(userId);
+    if (!user) return false;
+    
+    request.userId = user.id;
+    return true;
   }
   
   private async handleIncomingMessage(senderId: number, wsMessage: WebSocketMessage) {
@@ -152,20 +191,37 @@ export class WebSocketServer {
   private async handleChatMessage(senderId: number, payload: any) {
     try {
       // Extract message data
-      const { receiverId, listingId, content } = payload;
+      const { receiverId, listingId, content = "" } = payload;
+      const attachmentIds = messageAttachmentIdsSchema.parse(payload.attachmentIds);
       
-      if (!receiverId || !listingId || !content) {
+      if (!receiverId || !listingId || (!content && !attachmentIds.length)) {
         log('Invalid message payload', 'websocket');
         return;
       }
       
+      const sender = await storage.getUser(senderId);
+      if (!sender || !isVerifiedUser(sender)) {
+        this.sendToUser(senderId, {
+          type: MessageType.ERROR,
+          payload: { message: VERIFICATION_REQUIRED_ERROR }
+        });
+        return;
+      }
+      
+      const listing = await storage.getListing(listingId);
+      if (listing && !(await isCrossCampusMessagingAllowed(sender, listing))) {
+        this.sendToUser(senderId, {
+          type: MessageType.ERROR,
+          payload: { message: CROSS_CAMPUS_MESSAGING_ERROR }
+        });
+        return;
+      }
+      
       // Save message to database
-      const message = await storage.createMessage({
-        senderId,
-        receiverId,
-        listingId,
-        content
-      });
+      const message = await storage.createMessage(await withAttachments(
+        { senderId, receiverId, listingId, content },
+        attachmentIds
+      ));
       
       // Send to recipient if online
       this.sendToUser(receiverId, {
@@ -179,30 +235,43 @@ export class WebSocketServer {
         payload: message
       });
       
+      await notifyNewMessage(message, sender);
+      
       log(`Message from user ${senderId} to ${receiverId} sent`, 'websocket');
     } catch (error) {
+      if (error instanceof ConversationError || error instanceof AttachmentError) {
+        this.sendToUser(senderId, {
+          type: MessageType.ERROR,
+          payload: { message: error.message }
+        });
+        return;
+      }
+      // Invalid attachment ids, which the REST route answers with a 400
+      if (error instanceof z.ZodError) {
+        this.sendToUser(senderId, {
+          type: MessageType.ERROR,
+          payload: { message: error.errors[0]?.message ?? 'Invalid message' }
+        });
+        return;
+      }
       log(`Error sending message: ${error}`, 'websocket');
     }
   }
   
+  // A read receipt carries the reader's pointer: the newest message they have
+  // read in the conversation, which marks everything before it read too
   private async handleReadReceipt(userId: number, payload: any) {
     try {
-      const { messageId } = payload;
+      const { conversationId, messageId } = payload;
       
-      if (!messageId) {
+      if (!conversationId || !messageId) {
         log('Invalid read receipt payload', 'websocket');
         return;
       }
       
-      // Update message read status
-      const message = await storage.markMessageAsRead(messageId);
-      
-      if (message && message.senderId !== null && message.senderId !== undefined) {
-        // Notify the original sender their message was read
-        this.sendToUser(message.senderId as number, {
-          type: MessageType.READ_RECEIPT,
-          payload: { messageId }
-        });
+      const conversation = await storage.markConversationRead(conversationId, userId, messageId);
+      if (conversation) {
+        this.sendReadReceipt(conversation, userId);
       }
     } catch (error) {
       log(`Error processing read receipt: ${error}`, 'websocket');
@@ -232,9 +301,9 @@ export class WebSocketServer {
     const messageType = isOnline ? MessageType.USER_ONLINE : MessageType.USER_OFFLINE;
     
     // Broadcast to all connected users
-    this.connections.forEach((connection) => {
-      if (connection.userId !== userId) {
-        this.sendToUser(connection.userId, {
+    this.connections.forEach((_, connectedUserId) => {
+      if (connectedUserId !== userId) {
+        this.sendToUser(connectedUserId, {
           type: messageType,
           payload: { userId }
         });
@@ -242,12 +311,44 @@ export class WebSocketServer {
     });
   }
   
-  private sendToUser(userId: number, message: WebSocketMessage) {
-    const connection = this.connections.get(userId);
+  public sendToUser(userId: number, message: WebSocketMessage) {
     const OPEN = 1; // WebSocket.OPEN constant value
+    const open = Array.from(this.connections.get(userId) ?? [])
+      .filter((connection) => connection.socket.readyState === OPEN);
     
-    if (connection && connection.socket.readyState === OPEN) {
-      connection.socket.send(JSON.stringify(message));
+    if (open.length > 0) {
+      const data = JSON.stringify(message);
+      open.forEach((connection) => connection.socket.send(data));
+      return;
+    }
+    
+    // Users without an open tab hear about notifications through Web Push
+    if (message.type === MessageType.NOTIFICATION) {
+      const payload = toPushPayload(message.payload);
+      if (payload) {
+        sendPushToUser(userId, payload).catch((error) => log(`Error sending push: ${error}`, 'websocket'));
+      }
+    }
+  }
+  
+  // Tell both participants how far one of them has read, so the other sees
+  // their messages as read and the reader's other tabs clear their badges
+  public sendReadReceipt(conversation: Conversation, readerId: number) {
+    const role = getConversationRole(conversation, readerId);
+    const lastReadMessageId = role === 'buyer' ? conversation.buyerLastReadMessageId : conversation.sellerLastReadMessageId;
+    if (!role || lastReadMessageId === null) return;
+    
+    const receipt: ReadReceipt = {
+      conversationId: conversation.id,
+      listingId: conversation.listingId,
+      readerId,
+      lastReadMessageId,
+    };
+    for (const userId of [conversation.buyerId, conversation.sellerId]) {
+      this.sendToUser(userId, {
+        type: MessageType.READ_RECEIPT,
+        payload: receipt
+      });
     }
   }
   
@@ -262,6 +363,17 @@ export class WebSocketServer {
     }
   }
   
+  // Drop every socket opened with a session, e.g. once it is destroyed on logout
+  public closeSession(sessionId: string) {
+    this.connections.forEach((userConnections) => {
+      userConnections.forEach((connection) => {
+        if (connection.sessionId === sessionId) {
+          connection.socket.close(1008, 'Session ended');
+        }
+      });
+    });
+  }
+  
   public isUserOnline(userId: number): boolean {
     return this.connections.has(userId);
   }
@@ -274,9 +386,9 @@ export class WebSocketServer {
 // Create and export the WebSocket service
 let wsServer: WebSocketServer | null = null;
 
-export function setupWebSocketServer(server: Server): WebSocketServer {
+export function setupWebSocketServer(server: Server, sessionParser: RequestHandler): WebSocketServer {
   if (!wsServer) {
-    wsServer = new WebSocketServer(server);
+    wsServer = new WebSocketServer(server, sessionParser);
   }
   return wsServer;
 }
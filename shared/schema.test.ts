@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { canTransitionListingStatus, getListingExpiry, listingLifetimeDays, listingStatuses } from "./schema";
+
+test("canTransitionListingStatus follows the status graph", () => {
+  assert.equal(canTransitionListingStatus("draft", "active"), true);
+  assert.equal(canTransitionListingStatus("active", "sold"), true);
+  assert.equal(canTransitionListingStatus("reserved", "active"), true);
+  assert.equal(canTransitionListingStatus("expired", "active"), true);
+  assert.equal(canTransitionListingStatus("draft", "sold"), false);
+  assert.equal(canTransitionListingStatus("withdrawn", "sold"), false);
+});
+
+test("canTransitionListingStatus treats a missing status as active", () => {
+  assert.equal(canTransitionListingStatus(null, "reserved"), true);
+  assert.equal(canTransitionListingStatus(null, "draft"), false);
+});
+
+test("canTransitionListingStatus allows staying put but never leaving sold", () => {
+  for (const status of listingStatuses) {
+    assert.equal(canTransitionListingStatus(status, status), true);
+    if (status !== "sold") {
+      assert.equal(canTransitionListingStatus("sold", status), false);
+    }
+  }
+});
+
+test("canTransitionListingStatus rejects unknown statuses", () => {
+  assert.equal(canTransitionListingStatus("active", "archived"), false);
+  assert.equal(canTransitionListingStatus("archived", "active"), false);
+});
+
+test("getListingExpiry uses the type's lifetime, or an experience's date", () => {
+  const from = new Date("2026-10-01T00:00:00Z");
+  const days = (date: Date) => (date.getTime() - from.getTime()) / (24 * 60 * 60 * 1000);
+
+  assert.equal(days(getListingExpiry({ type: "item" }, from)), listingLifetimeDays.item);
+  assert.equal(days(getListingExpiry({ type: "service" }, from)), listingLifetimeDays.service);
+
+  const date = new Date("2026-11-05T18:00:00Z");
+  assert.equal(getListingExpiry({ type: "experience", date }, from), date);
+});
@@ -1,14 +1,57 @@
-import { pgTable, text, serial, integer, boolean, timestamp, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, uuid, index, uniqueIndex, jsonb, customType } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Postgres full-text search document
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// A named spot on a campus, e.g. a student union, with its coordinates
+export interface CampusLocation {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+// Kinds of places recommended for handoffs: staffed, well lit and public
+export const meetupSpotKinds = ["library", "police", "student_center"] as const;
+
+// A curated safe place to meet on a campus. Ids are unique across universities
+// so listings and meetups can refer to a spot by id alone.
+export interface MeetupSpot {
+  id: string;
+  name: string;
+  kind: MeetupSpotKind;
+  latitude: number;
+  longitude: number;
+}
+
+export const universities = pgTable("universities", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  domains: text("domains").array().notNull(), // Email domains, subdomains included
+  campusLocations: jsonb("campus_locations").$type<CampusLocation[]>().notNull().default([]),
+  meetupSpots: jsonb("meetup_spots").$type<MeetupSpot[]>().notNull().default([]),
+  timezone: text("timezone").notNull(), // IANA name, e.g. America/New_York
+  // Whether students from other schools may message this school's sellers, and vice versa
+  allowCrossCampusMessaging: boolean("allow_cross_campus_messaging").notNull().default(true),
+}, (table) => [
+  index("universities_domains_idx").using("gin", table.domains),
+]);
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
   university: text("university"),
+  universityId: integer("university_id").references(() => universities.id),
   verified: boolean("verified").default(false),
+  verificationSentAt: timestamp("verification_sent_at"), // Last verification email, for resend throttling
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -22,13 +65,29 @@ export const listings = pgTable("listings", {
   type: text("type").notNull().default("item"),  // 'item', 'service', or 'experience'
   images: text("images").array(),
   location: text("location").default("On Campus"),
+  // Safe spots at the seller's university they're happy to meet at; see MeetupSpot
+  meetupSpotIds: text("meetup_spot_ids").array().notNull().default([]),
   userId: integer("user_id").references(() => users.id),
+  universityId: integer("university_id").references(() => universities.id), // The seller's university
   createdAt: timestamp("created_at").defaultNow(),
-  status: text("status").default("active"),
+  updatedAt: timestamp("updated_at").defaultNow(), // Last change of any kind, status included
+  status: text("status").default("active"), // See listingStatuses
+  expiresAt: timestamp("expires_at"), // When an active listing expires; see getListingExpiry
+  bumpedAt: timestamp("bumped_at"), // Last bump back to the top of the newest listings
   // For services & experiences
   date: timestamp("date"),
   duration: text("duration"),
-});
+  // Full-text search document; the title is weighted above description and category
+  searchVector: tsvector("search_vector").generatedAlwaysAs((): SQL => sql`
+    setweight(to_tsvector('english', coalesce(${listings.title}, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(${listings.description}, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(${listings.category}, '')), 'B')
+  `),
+}, (table) => [
+  index("listings_search_vector_idx").using("gin", table.searchVector),
+  index("listings_university_idx").on(table.universityId),
+  index("listings_expires_at_idx").on(table.expiresAt),
+]);
 
 export const favorites = pgTable("favorites", {
   id: serial("id").primaryKey(),
@@ -41,21 +100,357 @@ export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
   senderId: integer("sender_id").references(() => users.id),
   receiverId: integer("receiver_id").references(() => users.id),
-  listingId: integer("listing_id").references(() => listings.id),
+  listingId: integer("listing_id").references(() => listings.id, { onDelete: "cascade" }),
   content: text("content").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   read: boolean("read").default(false),
+  conversationId: integer("conversation_id").references(() => conversations.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull().default("text"), // See messageKinds
+  attachments: jsonb("attachments").$type<MessageAttachment[]>().notNull().default([]),
+  meetupId: integer("meetup_id").references(() => meetups.id, { onDelete: "set null" }), // For meetup messages
+}, (table) => [
+  index("messages_conversation_idx").on(table.conversationId, table.createdAt),
+]);
+
+// One thread per listing and buyer. Each participant has their own unread
+// count, read pointer (the newest message they have read), archive and mute.
+export const conversations = pgTable("conversations", {
+  id: serial("id").primaryKey(),
+  listingId: integer("listing_id").references(() => listings.id, { onDelete: "cascade" }).notNull(),
+  buyerId: integer("buyer_id").references(() => users.id).notNull(),
+  sellerId: integer("seller_id").references(() => users.id).notNull(),
+  lastMessageId: integer("last_message_id"), // Not a foreign key, since messages reference conversations
+  lastMessageAt: timestamp("last_message_at").defaultNow().notNull(),
+  buyerUnreadCount: integer("buyer_unread_count").notNull().default(0),
+  sellerUnreadCount: integer("seller_unread_count").notNull().default(0),
+  buyerLastReadMessageId: integer("buyer_last_read_message_id"),
+  sellerLastReadMessageId: integer("seller_last_read_message_id"),
+  buyerArchivedAt: timestamp("buyer_archived_at"),
+  sellerArchivedAt: timestamp("seller_archived_at"),
+  buyerMuted: boolean("buyer_muted").notNull().default(false),
+  sellerMuted: boolean("seller_muted").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("conversations_listing_buyer_idx").on(table.listingId, table.buyerId),
+  index("conversations_buyer_idx").on(table.buyerId, table.lastMessageAt),
+  index("conversations_seller_idx").on(table.sellerId, table.lastMessageAt),
+]);
+
+export const offers = pgTable("offers", {
+  id: serial("id").primaryKey(),
+  listingId: integer("listing_id").references(() => listings.id, { onDelete: "cascade" }).notNull(),
+  buyerId: integer("buyer_id").references(() => users.id).notNull(),
+  senderId: integer("sender_id").references(() => users.id).notNull(), // Buyer for offers, seller for counters
+  amount: integer("amount").notNull(),
+  status: text("status").notNull().default("pending"), // See offerStatuses
+  parentOfferId: integer("parent_offer_id"), // The offer this one counters
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Handoffs proposed in a conversation. Each proposal and counter is posted to
+// the thread as a meetup message.
+export const meetups = pgTable("meetups", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").references(() => conversations.id, { onDelete: "cascade" }).notNull(),
+  proposerId: integer("proposer_id").references(() => users.id).notNull(),
+  recipientId: integer("recipient_id").references(() => users.id).notNull(), // The participant who has to respond
+  startsAt: timestamp("starts_at").notNull(),
+  location: text("location").notNull(), // Where on campus, e.g. "Library main entrance"
+  meetupSpotId: text("meetup_spot_id"), // Set when the location is one of the listing's safe spots
+  notes: text("notes"),
+  status: text("status").notNull().default("pending"), // See meetupStatuses
+  parentMeetupId: integer("parent_meetup_id"), // The meetup this one counters
+  remindedAt: timestamp("reminded_at"), // Set once both sides have been reminded
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("meetups_conversation_idx").on(table.conversationId, table.createdAt),
+  index("meetups_status_starts_idx").on(table.status, table.startsAt),
+]);
+
+// Completed sales; a listing has at most one, recorded when it is marked sold
+export const transactions = pgTable("transactions", {
+  id: serial("id").primaryKey(),
+  listingId: integer("listing_id").references(() => listings.id, { onDelete: "cascade" }).notNull().unique(),
+  sellerId: integer("seller_id").references(() => users.id).notNull(),
+  buyerId: integer("buyer_id").references(() => users.id).notNull(),
+  price: integer("price").notNull(), // Final agreed price
+  offerId: integer("offer_id").references(() => offers.id, { onDelete: "set null" }), // Accepted offer the price came from, if any
+  completedAt: timestamp("completed_at").defaultNow(),
 });
 
+// Each side of a completed sale can review the other once
+export const reviews = pgTable("reviews", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").references(() => transactions.id, { onDelete: "cascade" }).notNull(),
+  reviewerId: integer("reviewer_id").references(() => users.id).notNull(),
+  revieweeId: integer("reviewee_id").references(() => users.id).notNull(),
+  rating: integer("rating").notNull(), // 1 to 5 stars
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("reviews_transaction_reviewer_idx").on(table.transactionId, table.reviewerId),
+  index("reviews_reviewee_idx").on(table.revieweeId),
+]);
+
+// Each price a live listing has had, for showing how its price changed
+export const listingPrices = pgTable("listing_prices", {
+  id: serial("id").primaryKey(),
+  listingId: integer("listing_id").references(() => listings.id, { onDelete: "cascade" }).notNull(),
+  price: integer("price").notNull(),
+  createdAt: timestamp("created_at").defaultNow(), // When the listing took this price
+}, (table) => [
+  index("listing_prices_listing_idx").on(table.listingId),
+]);
+
+// Listing filters a user saved under a name, to be told about new listings matching them
+export const savedSearches = pgTable("saved_searches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  filters: jsonb("filters").$type<SavedSearchFilters>().notNull(),
+  emailAlerts: boolean("email_alerts").notNull().default(false), // Daily email of new matches
+  lastViewedAt: timestamp("last_viewed_at").defaultNow(), // Matches after this count as new
+  lastEmailedAt: timestamp("last_emailed_at"), // Last digest email sent for this search
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("saved_searches_user_idx").on(table.userId),
+]);
+
+// Listings that matched a saved search when they went live
+export const savedSearchMatches = pgTable("saved_search_matches", {
+  id: serial("id").primaryKey(),
+  savedSearchId: integer("saved_search_id").references(() => savedSearches.id, { onDelete: "cascade" }).notNull(),
+  listingId: integer("listing_id").references(() => listings.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("saved_search_matches_search_listing_idx").on(table.savedSearchId, table.listingId),
+]);
+
+// Events that land in the notification center
+export const notificationTypes = [
+  "message",
+  "offer",
+  "review",
+  "favorite_sold",
+  "favorite_update",
+  "saved_search_match",
+  "listing_expiring",
+  "listing_expired",
+  "meetup",
+] as const;
+
+// Entries in a user's notification center. Title and body are written when the
+// event happens, so later changes to the listing don't rewrite history.
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  type: text("type").notNull(), // See notificationTypes
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  link: text("link"), // App path opened from the notification
+  listingId: integer("listing_id").references(() => listings.id, { onDelete: "set null" }),
+  readAt: timestamp("read_at"), // Null until the user has seen it
+  emailQueuedAt: timestamp("email_queued_at"), // Set while its email waits for quiet hours to end
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("notifications_user_idx").on(table.userId, table.createdAt),
+  index("notifications_email_queued_idx").on(table.emailQueuedAt),
+]);
+
+// How a user wants to hear about each type of event: in the notification
+// center only, there and by email, or not at all
+export const notificationChannels = ["in_app", "email", "none"] as const;
+
+// How often unread messages and saved search matches are batched into an email
+export const digestFrequencies = ["never", "daily", "weekly"] as const;
+
+// Channels used for event types a user hasn't chosen one for
+export const defaultNotificationChannels: Record<NotificationType, NotificationChannel> = {
+  message: "in_app",
+  offer: "email",
+  review: "in_app",
+  favorite_sold: "in_app",
+  favorite_update: "in_app",
+  saved_search_match: "in_app",
+  listing_expiring: "in_app",
+  listing_expired: "email",
+  meetup: "email",
+};
+
+// A user's notification settings; users without a row get the defaults
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  // Only event types the user changed; the rest use defaultNotificationChannels
+  channels: jsonb("channels").$type<Partial<Record<NotificationType, NotificationChannel>>>().notNull().default({}),
+  // "HH:MM" in the user's campus time zone; both null when quiet hours are off
+  quietHoursStart: text("quiet_hours_start"),
+  quietHoursEnd: text("quiet_hours_end"),
+  digestFrequency: text("digest_frequency").notNull().default("daily"), // See digestFrequencies
+  lastDigestAt: timestamp("last_digest_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Browsers a user has allowed to show Web Push notifications, one row per device
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  endpoint: text("endpoint").notNull().unique(), // Push service URL identifying the device
+  p256dh: text("p256dh").notNull(), // Keys used to encrypt payloads for the device
+  auth: text("auth").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("push_subscriptions_user_idx").on(table.userId),
+]);
+
+// Resized copies made of every uploaded image
+export const imageVariants = ["thumb", "card", "detail"] as const;
+
+export type ImageVariant = typeof imageVariants[number];
+
+// Maximum width of each variant in pixels
+export const imageVariantWidths: Record<ImageVariant, number> = {
+  thumb: 160,
+  card: 480,
+  detail: 1280,
+};
+
+// A resized WebP copy of an uploaded image, stored in the blob store under key
+export interface UploadVariant {
+  name: ImageVariant;
+  key: string;
+  width: number;
+  height: number;
+}
+
+// Files uploaded through POST /api/uploads; the bytes live in the blob store under key
+export const uploads = pgTable("uploads", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  key: text("key").notNull().unique(),
+  contentType: text("content_type").notNull(), // image/webp once processed
+  size: integer("size").notNull(), // Bytes
+  // Set once the image has been processed; null for uploads awaiting processing
+  width: integer("width"),
+  height: integer("height"),
+  blurhash: text("blurhash"), // Placeholder shown while the image loads
+  variants: jsonb("variants").$type<UploadVariant[]>().notNull().default([]),
+  name: text("name"), // Original file name, kept for chat attachments
+  // Set for chat attachments, which only the conversation's participants can fetch
+  conversationId: integer("conversation_id").references(() => conversations.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Image types accepted for upload, detected from the file contents rather than
+// trusting the client's declared type
+export const uploadImageTypes = ["image/jpeg", "image/png", "image/webp", "image/gif"] as const;
+
+export const MAX_UPLOAD_SIZE = 10 * 1024 * 1024; // 10MB per file
+export const MAX_LISTING_IMAGES = 5;
+
+export const MAX_LISTING_MEETUP_SPOTS = 5;
+
+// Chat attachments can also be PDFs, e.g. tutoring notes
+export const attachmentTypes = [...uploadImageTypes, "application/pdf"] as const;
+
+export const MAX_MESSAGE_ATTACHMENTS = 4;
+
+// Total size of the attachments either participant can upload to one conversation
+export const MAX_CONVERSATION_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+
+// Plain messages, messages carrying attachments with an optional caption, and
+// meetup proposals
+export const messageKinds = ["text", "attachment", "meetup"] as const;
+
+// A file sent with a message, copied from its upload so threads render
+// without looking uploads up
+export interface MessageAttachment {
+  uploadId: number;
+  name: string;
+  contentType: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  blurhash: string | null;
+}
+
+// Whether an attachment is shown inline as an image rather than as a file to download
+export function isImageAttachment(attachment: Pick<MessageAttachment, "contentType">): boolean {
+  return attachment.contentType.startsWith("image/");
+}
+
+// Text standing in for a message in previews, for messages sent without a caption
+export function getMessagePreview(message: { content: string; kind?: string; attachments?: MessageAttachment[] | null }): string {
+  const attachments = message.attachments ?? [];
+  if (message.kind === "meetup" && !message.content) {
+    return "Proposed a meetup";
+  }
+  if (message.content || attachments.length === 0) {
+    return message.content;
+  }
+  if (attachments.every(isImageAttachment)) {
+    return attachments.length === 1 ? "Sent a photo" : `Sent ${attachments.length} photos`;
+  }
+  return attachments.length === 1 ? `Sent ${attachments[0].name}` : `Sent ${attachments.length} files`;
+}
+
+// Listings and other records reference uploads by the URL they are served from
+export function getUploadUrl(id: number): string {
+  return `/api/uploads/${id}`;
+}
+
+export function getUploadVariantUrl(id: number, variant: ImageVariant): string {
+  return `${getUploadUrl(id)}/${variant}`;
+}
+
+// Upload id referenced by a URL from getUploadUrl, if it is one
+export function parseUploadUrl(url: string): number | undefined {
+  const match = /^\/api\/uploads\/(\d+)$/.exec(url);
+  return match ? Number(match[1]) : undefined;
+}
+
 // Zod schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   email: true,
   password: true,
   university: true,
+  universityId: true,
+});
+
+export const campusLocationSchema = z.object({
+  name: z.string(),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+export const meetupSpotSchema = campusLocationSchema.extend({
+  id: z.string(),
+  kind: z.enum(meetupSpotKinds),
+});
+
+export const insertUniversitySchema = createInsertSchema(universities, {
+  campusLocations: z.array(campusLocationSchema),
+  meetupSpots: z.array(meetupSpotSchema).optional(),
+}).pick({
+  name: true,
+  domains: true,
+  campusLocations: true,
+  meetupSpots: true,
+  timezone: true,
+  allowCrossCampusMessaging: true,
 });
 
-export const insertListingSchema = createInsertSchema(listings).pick({
+export const insertListingSchema = createInsertSchema(listings, {
+  images: z.array(
+    z.string().refine((url) => parseUploadUrl(url) !== undefined, "Images must be uploaded through /api/uploads")
+  ).max(MAX_LISTING_IMAGES, `A listing can have at most ${MAX_LISTING_IMAGES} images`).optional(),
+  meetupSpotIds: z.array(z.string())
+    .max(MAX_LISTING_MEETUP_SPOTS, `Pick up to ${MAX_LISTING_MEETUP_SPOTS} meetup spots`)
+    .optional(),
+  // Clients send dates as ISO strings
+  date: z.coerce.date().nullable().optional(),
+}).pick({
   title: true,
   description: true,
   price: true,
@@ -64,29 +459,214 @@ export const insertListingSchema = createInsertSchema(listings).pick({
   type: true,
   images: true,
   location: true,
+  meetupSpotIds: true,
   userId: true,
+  universityId: true,
   date: true,
   duration: true,
 });
 
+// Rules a listing has to meet to go live, whether created directly, published
+// from a draft or edited afterwards; drafts may be saved without meeting them
+export const publishListingSchema = insertListingSchema.extend({
+  title: z.string().trim().min(3, "Title must be at least 3 characters"),
+  description: z.string().trim().min(10, "Description must be at least 10 characters"),
+  category: z.string().min(1, "Please select a category"),
+  price: z.number().int().nonnegative("Price cannot be negative"),
+});
+
+// Fields a seller can change when editing a listing; ownership, timestamps and
+// status are not editable here, and unknown fields are rejected
+const editableListingFields = {
+  title: true,
+  description: true,
+  price: true,
+  condition: true,
+  category: true,
+  type: true,
+  images: true,
+  location: true,
+  meetupSpotIds: true,
+  date: true,
+  duration: true,
+} as const;
+
+// Edits to a live listing have to keep meeting the publish rules
+export const updateListingSchema = publishListingSchema.pick(editableListingFields).partial().strict();
+
+// Drafts can be saved in any state of completion
+export const draftListingSchema = insertListingSchema.pick(editableListingFields).partial().strict();
+
 export const insertFavoriteSchema = createInsertSchema(favorites).pick({
   userId: true,
   listingId: true,
 });
 
-export const insertMessageSchema = createInsertSchema(messages).pick({
+export const messageAttachmentSchema = z.object({
+  uploadId: z.number().int(),
+  name: z.string(),
+  contentType: z.string(),
+  size: z.number().int(),
+  width: z.number().int().nullable(),
+  height: z.number().int().nullable(),
+  blurhash: z.string().nullable(),
+});
+
+export const insertMessageSchema = createInsertSchema(messages, {
+  kind: z.enum(messageKinds).optional(),
+  attachments: z.array(messageAttachmentSchema).max(MAX_MESSAGE_ATTACHMENTS).optional(),
+}).pick({
   senderId: true,
   receiverId: true,
   listingId: true,
   content: true,
+  kind: true,
+  attachments: true,
+  meetupId: true,
+});
+
+// Uploads from POST /api/messages/attachments to send with a message
+export const messageAttachmentIdsSchema = z.array(z.number().int().positive())
+  .max(MAX_MESSAGE_ATTACHMENTS, `You can send up to ${MAX_MESSAGE_ATTACHMENTS} attachments at a time`)
+  .default([]);
+
+export const insertOfferSchema = createInsertSchema(offers, {
+  amount: (schema) => schema.int().positive("Offer amount must be greater than zero"),
+}).pick({
+  listingId: true,
+  buyerId: true,
+  senderId: true,
+  amount: true,
+  parentOfferId: true,
+  expiresAt: true,
+});
+
+export const insertMeetupSchema = createInsertSchema(meetups, {
+  location: (schema) => schema.trim().min(1, "Choose where to meet").max(200),
+  notes: z.string().trim().max(500).nullable().optional(),
+}).pick({
+  conversationId: true,
+  proposerId: true,
+  recipientId: true,
+  startsAt: true,
+  location: true,
+  meetupSpotId: true,
+  notes: true,
+  parentMeetupId: true,
+});
+
+// The details of a meetup proposal or counter, as sent by clients
+export const meetupDetailsSchema = insertMeetupSchema.pick({
+  startsAt: true,
+  location: true,
+  meetupSpotId: true,
+  notes: true,
+}).extend({
+  startsAt: z.coerce.date().refine(date => date.getTime() > Date.now(), "Pick a time in the future"),
+});
+
+export const insertUploadSchema = createInsertSchema(uploads, {
+  variants: z.array(z.object({
+    name: z.enum(imageVariants),
+    key: z.string(),
+    width: z.number().int(),
+    height: z.number().int(),
+  })),
+}).pick({
+  userId: true,
+  key: true,
+  contentType: true,
+  size: true,
+  width: true,
+  height: true,
+  blurhash: true,
+  variants: true,
+  name: true,
+  conversationId: true,
+});
+
+export const insertTransactionSchema = createInsertSchema(transactions, {
+  price: (schema) => schema.int().nonnegative("Sale price cannot be negative"),
+}).pick({
+  listingId: true,
+  sellerId: true,
+  buyerId: true,
+  price: true,
+  offerId: true,
+});
+
+export const insertReviewSchema = createInsertSchema(reviews, {
+  rating: (schema) => schema.int().min(1, "Rating must be at least 1 star").max(5, "Rating can be at most 5 stars"),
+  comment: (schema) => schema.trim().max(1000, "Review must be 1000 characters or less"),
+}).pick({
+  transactionId: true,
+  reviewerId: true,
+  revieweeId: true,
+  rating: true,
+  comment: true,
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications, {
+  type: z.enum(notificationTypes),
+}).pick({
+  userId: true,
+  type: true,
+  title: true,
+  body: true,
+  link: true,
+  listingId: true,
+});
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use a time like 22:00");
+
+// Quiet hours are set or cleared as a pair
+export const updateNotificationPreferencesSchema = createInsertSchema(notificationPreferences, {
+  channels: z.record(z.enum(notificationTypes), z.enum(notificationChannels)).optional(),
+  quietHoursStart: timeOfDaySchema.nullable().optional(),
+  quietHoursEnd: timeOfDaySchema.nullable().optional(),
+  digestFrequency: z.enum(digestFrequencies).optional(),
+}).pick({
+  channels: true,
+  quietHoursStart: true,
+  quietHoursEnd: true,
+  digestFrequency: true,
+}).partial().strict().refine(
+  (preferences) => (preferences.quietHoursStart == null) === (preferences.quietHoursEnd == null),
+  { message: "Set both a start and an end for quiet hours", path: ["quietHoursEnd"] }
+);
+
+// Read receipts carry a pointer: everything up to and including this message
+export const readConversationSchema = z.object({
+  messageId: z.number().int().positive(),
+});
+
+// Archiving and muting only affect the participant who asks
+export const updateConversationSchema = z.object({
+  archived: z.boolean(),
+  muted: z.boolean(),
+}).partial().strict();
+
+// A subscription as serialised by the browser's PushSubscription.toJSON()
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
 });
 
 // Types
+export type University = typeof universities.$inferSelect;
+export type InsertUniversity = z.infer<typeof insertUniversitySchema>;
+
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
-export type Listing = typeof listings.$inferSelect;
+// The search vector stays in the database and is never selected
+export type Listing = Omit<typeof listings.$inferSelect, "searchVector">;
 export type InsertListing = z.infer<typeof insertListingSchema>;
+export type UpdateListing = z.infer<typeof updateListingSchema>;
+export type DraftListing = z.infer<typeof draftListingSchema>;
 
 export type Favorite = typeof favorites.$inferSelect;
 export type InsertFavorite = z.infer<typeof insertFavoriteSchema>;
@@ -94,6 +674,42 @@ export type InsertFavorite = z.infer<typeof insertFavoriteSchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 
+export type Conversation = typeof conversations.$inferSelect;
+export type ConversationQuery = z.infer<typeof conversationQuerySchema>;
+export type UpdateConversation = z.infer<typeof updateConversationSchema>;
+export type ConversationRole = "buyer" | "seller";
+
+export type Offer = typeof offers.$inferSelect;
+export type Meetup = typeof meetups.$inferSelect;
+export type InsertMeetup = z.infer<typeof insertMeetupSchema>;
+export type MeetupDetails = z.infer<typeof meetupDetailsSchema>;
+export type InsertOffer = z.infer<typeof insertOfferSchema>;
+
+export type Upload = typeof uploads.$inferSelect;
+export type InsertUpload = z.infer<typeof insertUploadSchema>;
+
+export type Transaction = typeof transactions.$inferSelect;
+export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+
+export type Review = typeof reviews.$inferSelect;
+export type InsertReview = z.infer<typeof insertReviewSchema>;
+
+export type ListingPrice = typeof listingPrices.$inferSelect;
+
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type UpdateSavedSearch = z.infer<typeof updateSavedSearchSchema>;
+export type SavedSearchMatch = typeof savedSearchMatches.$inferSelect;
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+export type PushSubscriptionJSON = z.infer<typeof pushSubscriptionSchema>;
+
 // Listing types, conditions and categories
 export const listingTypes = ["item", "service", "experience"] as const;
 
@@ -170,8 +786,241 @@ export const getCategoriesByType = (type: ListingType) => {
   }
 };
 
+// Meetup statuses; only pending meetups can be answered, and a meetup can be
+// cancelled until it has happened
+export const meetupStatuses = ["pending", "accepted", "declined", "countered", "cancelled"] as const;
+
+// Statuses each meetup status may move to
+export const meetupStatusTransitions: Record<MeetupStatus, readonly MeetupStatus[]> = {
+  pending: ["accepted", "declined", "countered", "cancelled"],
+  accepted: ["cancelled"],
+  declined: [],
+  countered: [],
+  cancelled: [],
+};
+
+// How long a meetup is blocked out for in calendars
+export const MEETUP_DURATION_MS = 30 * 60 * 1000;
+
+// Offer statuses; only pending offers can be accepted, declined, countered or withdrawn
+export const offerStatuses = ["pending", "accepted", "declined", "countered", "expired", "withdrawn"] as const;
+
+// Domains to look a university up by for an email address, most specific first:
+// "a@cs.stanford.edu" gives ["cs.stanford.edu", "stanford.edu"]. Bare top-level
+// domains are never candidates.
+export function getEmailDomainCandidates(email: string): string[] {
+  const domain = email.trim().toLowerCase().split("@")[1] || "";
+  const labels = domain.split(".").filter(label => label.length > 0);
+  const candidates: string[] = [];
+  for (let i = 0; i < labels.length - 1; i++) {
+    candidates.push(labels.slice(i).join("."));
+  }
+  return candidates;
+}
+
+// Listing lifecycle. Drafts are private to the seller until published; accepting
+// an offer moves an active listing to pending; sold is final and only reached
+// by recording a transaction.
+export const listingStatuses = ["draft", "active", "pending", "reserved", "sold", "withdrawn", "expired"] as const;
+
+// Statuses anyone can see and filter listings by
+export const publicListingStatuses = ["active", "pending", "reserved", "sold", "withdrawn", "expired"] as const;
+
+// Statuses each listing status may move to
+export const listingStatusTransitions: Record<ListingStatus, readonly ListingStatus[]> = {
+  draft: ["active"],
+  active: ["pending", "reserved", "sold", "withdrawn", "expired"],
+  pending: ["active", "reserved", "sold", "withdrawn"],
+  reserved: ["active", "sold", "withdrawn"],
+  sold: [],
+  withdrawn: ["active"],
+  expired: ["active"],
+};
+
+// Statuses left out of listing queries unless asked for explicitly
+export const hiddenListingStatuses: readonly ListingStatus[] = ["draft", "expired"];
+
+// How long a listing stays active before it expires, by type
+export const listingLifetimeDays: Record<ListingType, number> = {
+  item: 30,
+  service: 60,
+  experience: 30,
+};
+
+// Minimum time between bumps of the same listing
+export const LISTING_BUMP_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+// When a listing going live at the given time should expire. Experiences
+// expire when they take place; everything else after its type's lifetime.
+export function getListingExpiry(listing: { type?: string; date?: Date | null }, from: Date): Date {
+  if (listing.type === "experience" && listing.date) {
+    return listing.date;
+  }
+  const days = listingLifetimeDays[(listing.type ?? "item") as ListingType] ?? listingLifetimeDays.item;
+  return new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+// Statuses a seller can set directly on their own listing
+export const ownerListingStatuses = ["active", "reserved", "withdrawn"] as const;
+
+// Whether a listing may move between two statuses; a missing status counts as active
+export function canTransitionListingStatus(from: string | null, to: string): boolean {
+  const current = (from ?? "active") as ListingStatus;
+  return current === to || (listingStatusTransitions[current]?.includes(to as ListingStatus) ?? false);
+}
+
+// Which side of a conversation a user is on, or null if they aren't part of it
+export function getConversationRole(
+  conversation: { buyerId: number; sellerId: number },
+  userId: number
+): ConversationRole | null {
+  if (conversation.buyerId === userId) return "buyer";
+  if (conversation.sellerId === userId) return "seller";
+  return null;
+}
+
+// Sort orders supported by listing queries
+export const listingSortOptions = ["newest", "price_asc", "price_desc", "relevance"] as const;
+
+// Which schools' listings to show: the viewer's own campus, schools near it, or every school
+export const campusScopes = ["mine", "nearby", "all"] as const;
+
+// How far from the viewer's campus a listing's meetup spots are
+export const distanceOptions = ["less_than_1", "1_to_3", "3_to_5", "any"] as const;
+
+// The band of distances in miles each option covers, lower bound inclusive and
+// upper bound exclusive, so each distance falls in exactly one band
+export const distanceRangesMiles: Record<Exclude<DistanceOption, "any">, [number, number]> = {
+  less_than_1: [0, 1],
+  "1_to_3": [1, 3],
+  "3_to_5": [3, 5],
+};
+
+// Query parameters accept either a single value or a repeated key
+const queryArray = z.preprocess(
+  (value) => (value === undefined || Array.isArray(value) ? value : [value]),
+  z.array(z.string()).optional()
+);
+
+// Cursor pagination parameters shared by paginated endpoints
+export const pageQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(100).optional(),
+});
+
+// Schema for the filters accepted by GET /api/listings
+export const listingQuerySchema = pageQuerySchema.extend({
+  type: z.enum(listingTypes).optional(),
+  categories: queryArray,
+  conditions: queryArray,
+  minPrice: z.coerce.number().int().nonnegative().optional(),
+  maxPrice: z.coerce.number().int().nonnegative().optional(),
+  status: z.enum(publicListingStatuses).optional(),
+  userId: z.coerce.number().int().positive().optional(),
+  search: z.string().trim().optional(),
+  sort: z.enum(listingSortOptions).optional(),
+  campus: z.enum(campusScopes).optional(),
+  distance: z.enum(distanceOptions).optional(),
+});
+
+// The parts of a listing query kept in a saved search; sorting and paging
+// don't affect which listings match
+export const savedSearchFiltersSchema = listingQuerySchema.pick({
+  type: true,
+  categories: true,
+  conditions: true,
+  minPrice: true,
+  maxPrice: true,
+  search: true,
+  campus: true,
+  distance: true,
+}).strip();
+
+// Most saved searches a user can have
+export const MAX_SAVED_SEARCHES = 20;
+
+export const insertSavedSearchSchema = createInsertSchema(savedSearches, {
+  name: (schema) => schema.trim().min(1, "Give your search a name").max(80, "Name must be 80 characters or less"),
+  filters: savedSearchFiltersSchema,
+}).pick({
+  userId: true,
+  name: true,
+  filters: true,
+  emailAlerts: true,
+});
+
+// Only the name and email alerts can change once a search is saved
+export const updateSavedSearchSchema = insertSavedSearchSchema.pick({
+  name: true,
+  emailAlerts: true,
+}).partial().strict();
+
+// GET /api/messages lists the inbox, or archived conversations with archived=true
+export const conversationQuerySchema = pageQuerySchema.extend({
+  archived: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+});
+
+export type SavedSearchFilters = z.infer<typeof savedSearchFiltersSchema>;
 export type ListingType = typeof listingTypes[number];
 export type ListingCondition = typeof listingConditions[number];
+export type ListingSortOption = typeof listingSortOptions[number];
+export type CampusScope = typeof campusScopes[number];
+export type DistanceOption = typeof distanceOptions[number];
+export type MeetupSpotKind = typeof meetupSpotKinds[number];
+export type OfferStatus = typeof offerStatuses[number];
+export type MeetupStatus = typeof meetupStatuses[number];
+export type MessageKind = typeof messageKinds[number];
+export type NotificationType = typeof notificationTypes[number];
+export type NotificationChannel = typeof notificationChannels[number];
+export type DigestFrequency = typeof digestFrequencies[number];
+export type ListingStatus = typeof listingStatuses[number];
+export type ListingQuery = z.infer<typeof listingQuerySchema>;
+export type PageQuery = z.infer<typeof pageQuerySchema>;
+
+// A listing photo with what clients need to load it responsively; listing
+// responses carry one per entry in images, in the same order
+export interface ListingImage {
+  url: string;
+  width: number | null;
+  height: number | null;
+  blurhash: string | null;
+  variants: { name: ImageVariant; url: string; width: number }[];
+}
+
+export type ListingWithImages = Listing & { imageDetails: ListingImage[] };
+
+// Sent to users who favorited a listing when its price drops, it is reserved
+// or sold, or it is deleted
+export type FavoriteAlert =
+  | { kind: "price_drop"; listing: Listing; previousPrice: number }
+  | { kind: "status"; listing: Listing; status: ListingStatus }
+  | { kind: "deleted"; listing: Listing };
+
+// Sent over /ws to both participants when one of them reads a conversation
+// up to a message
+export interface ReadReceipt {
+  conversationId: number;
+  listingId: number;
+  readerId: number;
+  lastReadMessageId: number;
+}
+
+// Average review rating of a user; average is null until they have been reviewed
+export interface UserRating {
+  average: number | null;
+  count: number;
+}
+
+// A page of results; nextCursor is null on the last page
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+// GET /api/notifications also reports how many of the user's notifications are unread
+export interface NotificationPage extends Page<Notification> {
+  unreadCount: number;
+}
 export type ItemCategory = typeof itemCategories[number];
 export type ServiceCategory = typeof serviceCategories[number];
 export type ExperienceCategory = typeof experienceCategories[number];